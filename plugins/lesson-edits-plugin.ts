@@ -0,0 +1,166 @@
+import fs from "fs";
+import path from "path";
+import type { IncomingMessage } from "http";
+import type { Plugin } from "vite";
+import { patchLessonSources, type SourceEdit, type UnplacedEdit } from "./lesson-source-patcher";
+
+/**
+ * Lesson Edits Plugin
+ * -------------------
+ * Dev-server endpoint that writes the editor's pending edits back to the
+ * lesson sources, so edits can be saved without an external agent.
+ *
+ *   POST /__lesson-edits
+ *   body: the `edits-changed` message ({ edits: PendingEdit[] }) or a bare array
+ *   response: { applied: string[], unplaced: { id, type, reason }[], files: string[] }
+ *
+ * Vite's file watcher then hot-reloads the changed sections.
+ *
+ * Only the lesson page itself may call it: requests must be JSON (so a
+ * cross-site form or "simple" fetch can't reach it) and an `Origin` header,
+ * when sent, must be the dev server's own.
+ */
+
+export const LESSON_EDITS_ENDPOINT = "/__lesson-edits";
+
+export interface LessonEditsPluginOptions {
+  /** Files to patch, relative to the project root (defaults to the lesson data files) */
+  files?: string[];
+}
+
+export interface ApplyLessonEditsResult {
+  applied: string[];
+  unplaced: UnplacedEdit[];
+  /** Files that were written, relative to the project root */
+  files: string[];
+}
+
+/**
+ * Lesson sources: the two entry files plus every `src/data/sections/*.tsx`
+ */
+export function getLessonSourceFiles(root: string): string[] {
+  const sectionsDir = path.join("src", "data", "sections");
+  const sectionFiles = fs.existsSync(path.join(root, sectionsDir))
+    ? fs.readdirSync(path.join(root, sectionsDir))
+      .filter((file) => file.endsWith(".tsx"))
+      .sort()
+      .map((file) => path.join(sectionsDir, file))
+    : [];
+
+  return [
+    path.join("src", "data", "sections.tsx"),
+    path.join("src", "data", "exampleSections.tsx"),
+    ...sectionFiles,
+  ].filter((file) => fs.existsSync(path.join(root, file)));
+}
+
+/**
+ * Apply edits to the lesson sources on disk
+ */
+export function applyLessonEdits(root: string, edits: SourceEdit[], files = getLessonSourceFiles(root)): ApplyLessonEditsResult {
+  const sources: Record<string, string> = {};
+  for (const file of files) {
+    sources[file] = fs.readFileSync(path.join(root, file), "utf-8");
+  }
+
+  const result = patchLessonSources(sources, edits);
+  for (const [file, code] of Object.entries(result.files)) {
+    fs.writeFileSync(path.join(root, file), code);
+  }
+
+  return { applied: result.applied, unplaced: result.unplaced, files: Object.keys(result.files) };
+}
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf-8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+/** Why a request may not write the sources (status and message), if it may not */
+const rejectRequest = (req: IncomingMessage): [number, string] | null => {
+  const origin = req.headers.origin;
+  if (origin !== undefined) {
+    let originHost: string | undefined;
+    try {
+      originHost = new URL(origin).host;
+    } catch {
+      originHost = undefined;
+    }
+    if (!originHost || originHost !== req.headers.host) return [403, "Cross-origin requests are not allowed"];
+  }
+
+  const contentType = req.headers["content-type"] ?? "";
+  if (!/^application\/json\s*(;|$)/i.test(contentType)) return [403, "Expected Content-Type: application/json"];
+
+  return null;
+};
+
+const extractEdits = (payload: unknown): SourceEdit[] | null => {
+  if (Array.isArray(payload)) return payload as SourceEdit[];
+  if (payload && typeof payload === "object" && Array.isArray((payload as { edits?: unknown }).edits)) {
+    return (payload as { edits: SourceEdit[] }).edits;
+  }
+  return null;
+};
+
+export function lessonEditsPlugin(options: LessonEditsPluginOptions = {}): Plugin {
+  let root = process.cwd();
+
+  return {
+    name: "lesson-edits",
+    apply: "serve",
+    configResolved(config) {
+      root = config.root;
+    },
+    configureServer(server) {
+      server.middlewares.use(LESSON_EDITS_ENDPOINT, (req, res, next) => {
+        if (req.method !== "POST") return next();
+
+        const send = (status: number, body: unknown) => {
+          res.statusCode = status;
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(body));
+        };
+
+        const rejected = rejectRequest(req);
+        if (rejected) {
+          send(rejected[0], { error: rejected[1] });
+          return;
+        }
+
+        readJsonBody(req)
+          .then((payload) => {
+            const edits = extractEdits(payload);
+            if (!edits) {
+              send(400, { error: "Expected { edits: PendingEdit[] }" });
+              return;
+            }
+
+            const result = applyLessonEdits(root, edits, options.files);
+            if (result.unplaced.length > 0) {
+              server.config.logger.warn(
+                `[lesson-edits] ${result.unplaced.length} edit(s) not placed:\n` +
+                result.unplaced.map((edit) => `  ${edit.id} (${edit.type}): ${edit.reason}`).join("\n")
+              );
+            }
+            send(200, result);
+          })
+          .catch((error: unknown) => {
+            send(500, { error: error instanceof Error ? error.message : String(error) });
+          });
+      });
+    },
+  };
+}
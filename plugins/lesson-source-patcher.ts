@@ -0,0 +1,1225 @@
+import ts from "typescript";
+import {
+  getMarkerBoolean,
+  getMarkerNotation,
+  getMarkerNumber,
+  getMarkerProp,
+  parseMarkerList,
+  splitInlineMarkers,
+  type InlineMarker,
+} from "../src/lib/inline-markers";
+import { parseCallout, parseCodeBlock, parseEquation, parseImage, parseList, parseTable } from "../src/lib/rich-blocks";
+
+/**
+ * Lesson Source Patcher
+ * ---------------------
+ * Applies the pending edits collected by `EditingContext` (the payload of the
+ * `edits-changed` message) back to the lesson TSX sources.
+ *
+ * Each edit is located in the parsed AST:
+ * - text edits by the `sectionId` prop of the editable element (disambiguated
+ *   by the original text),
+ * - equation edits by the Block id and the original `latex` prop,
+ * - scrubble number edits by the Block id and `varName` / `defaultValue`,
+ * - structure edits (add / delete / reorder) by the Block ids inside the
+ *   top-level sections array,
+ * - host content edits (replace / update-props) by the Block or component id.
+ *
+ * Content pushed by the host arrives as lesson document nodes and is written
+ * out as JSX, with imports added for the components it uses.
+ *
+ * Only the matched source ranges are rewritten, so formatting and comments
+ * elsewhere in the file are left untouched. Edits that cannot be located
+ * are returned in `unplaced` together with the reason.
+ *
+ * Runs in Node (see `lesson-edits-plugin.ts`); it does not import app code,
+ * only the dependency-free marker and rich block grammars from `src/lib`.
+ */
+
+// ============================================================================
+// EDIT TYPES (mirror PendingEdit in src/contexts/EditingContext.tsx)
+// ============================================================================
+
+export interface SourceTextEdit {
+  id: string;
+  type: "text";
+  sectionId: string;
+  elementPath: string;
+  originalText: string;
+  newText: string;
+  originalHtml?: string;
+  newHtml?: string;
+  timestamp?: number;
+}
+
+export interface SourceEquationEdit {
+  id: string;
+  type: "equation";
+  sectionId: string;
+  componentType?: string;
+  originalLatex: string;
+  newLatex: string;
+  colorMap?: Record<string, string>;
+  timestamp?: number;
+}
+
+export interface SourceScrubbleNumberProps {
+  varName?: string;
+  defaultValue?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface SourceScrubbleNumberEdit {
+  id: string;
+  type: "scrubbleNumber";
+  sectionId: string;
+  elementPath: string;
+  originalProps: SourceScrubbleNumberProps;
+  newProps: SourceScrubbleNumberProps;
+  timestamp?: number;
+}
+
+/** Lesson document node (mirrors LessonNode in src/lib/lesson-schema.ts) */
+export type SourceLessonNode =
+  | string
+  | { type: string; key?: string; props?: Record<string, unknown>; children?: SourceLessonNode[] };
+
+export interface SourceStructureEdit {
+  id: string;
+  type: "structure";
+  action: "reorder" | "delete" | "add" | "replace" | "update-props";
+  sectionId?: string;
+  sectionIds?: string[];
+  afterSectionId?: string;
+  content?: string;
+  blockType?: string;
+  node?: Exclude<SourceLessonNode, string>;
+  children?: SourceLessonNode[];
+  componentId?: string;
+  props?: Record<string, unknown>;
+  timestamp?: number;
+}
+
+export type SourceEdit =
+  | SourceTextEdit
+  | SourceEquationEdit
+  | SourceScrubbleNumberEdit
+  | SourceStructureEdit;
+
+export interface UnplacedEdit {
+  id: string;
+  type: SourceEdit["type"];
+  reason: string;
+}
+
+export interface PatchResult {
+  /** Updated source of every file that changed, keyed like the input */
+  files: Record<string, string>;
+  /** Ids of the edits that were written */
+  applied: string[];
+  /** Edits that could not be located in any file */
+  unplaced: UnplacedEdit[];
+}
+
+// ============================================================================
+// AST HELPERS
+// ============================================================================
+
+type JsxNode = ts.JsxElement | ts.JsxSelfClosingElement;
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Outcome of trying one edit against one file */
+type Attempt =
+  | { ok: true; replacements: Replacement[] }
+  | { ok: false; found: boolean; reason: string };
+
+const INDENT = "    ";
+
+const EQUATION_COMPONENTS = new Set(["Equation", "InteractiveEquation", "ColoredEquation", "MathBlock"]);
+
+const SCRUBBLE_PROPS: (keyof SourceScrubbleNumberProps)[] = ["varName", "defaultValue", "min", "max", "step"];
+
+const parse = (fileName: string, code: string): ts.SourceFile =>
+  ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+
+const openingOf = (node: JsxNode) => (ts.isJsxElement(node) ? node.openingElement : node);
+
+const tagNameOf = (node: JsxNode): string => openingOf(node).tagName.getText();
+
+const collectJsx = (root: ts.Node): JsxNode[] => {
+  const found: JsxNode[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) found.push(node);
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return found;
+};
+
+const findAttr = (node: JsxNode, name: string): ts.JsxAttribute | undefined =>
+  openingOf(node).attributes.properties.find(
+    (prop): prop is ts.JsxAttribute => ts.isJsxAttribute(prop) && prop.name.getText() === name
+  );
+
+const readExpressionValue = (expr: ts.Expression): string | number | boolean | undefined => {
+  if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) return expr.text;
+  if (ts.isNumericLiteral(expr)) return Number(expr.text);
+  if (ts.isPrefixUnaryExpression(expr) && expr.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(expr.operand)) {
+    return -Number(expr.operand.text);
+  }
+  if (expr.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (expr.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (ts.isParenthesizedExpression(expr)) return readExpressionValue(expr.expression);
+  return undefined;
+};
+
+/** Read a prop whose value is a literal; dynamic values return undefined */
+const readAttr = (node: JsxNode, name: string): string | number | boolean | undefined => {
+  const attr = findAttr(node, name);
+  if (!attr) return undefined;
+  const init = attr.initializer;
+  if (!init) return true;
+  if (ts.isStringLiteral(init)) return init.text;
+  if (ts.isJsxExpression(init) && init.expression) return readExpressionValue(init.expression);
+  return undefined;
+};
+
+/** Blocks (or legacy Sections) rendered with the given id */
+const findSectionScopes = (sourceFile: ts.SourceFile, sectionId: string): JsxNode[] =>
+  collectJsx(sourceFile).filter(
+    (node) => (tagNameOf(node) === "Block" || tagNameOf(node) === "Section") && readAttr(node, "id") === sectionId
+  );
+
+/** JSX inside the given Block, or the whole file when the edit has no section */
+const findInSection = (
+  sourceFile: ts.SourceFile,
+  sectionId: string,
+  predicate: (node: JsxNode) => boolean
+): { scoped: boolean; matches: JsxNode[] } => {
+  if (!sectionId) {
+    return { scoped: true, matches: collectJsx(sourceFile).filter(predicate) };
+  }
+  const scopes = findSectionScopes(sourceFile, sectionId);
+  return {
+    scoped: scopes.length > 0,
+    matches: scopes.flatMap((scope) => collectJsx(scope).filter(predicate)),
+  };
+};
+
+const indentationAt = (code: string, pos: number): string => {
+  const lineStart = code.lastIndexOf("\n", pos - 1) + 1;
+  const match = /^[ \t]*/.exec(code.slice(lineStart));
+  return match ? match[0] : "";
+};
+
+const indentLines = (text: string, indent: string): string =>
+  text
+    .split("\n")
+    .map((line, index) => (index === 0 || line === "" ? line : indent + line))
+    .join("\n");
+
+const applyReplacements = (code: string, replacements: Replacement[]): string =>
+  [...replacements]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, { start, end, text }) => result.slice(0, start) + text + result.slice(end), code);
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+/** Collapse whitespace the way rendered text (innerText) does */
+const normalizeText = (text: string): string => text.replace(/\s+/g, " ").trim();
+
+/** Apply JSX whitespace rules to a raw JsxText node */
+const cookJsxText = (raw: string): string => {
+  const lines = raw.split(/\r\n|\n|\r/);
+  let result = "";
+  lines.forEach((line, index) => {
+    let trimmed = line.replace(/\t/g, " ");
+    if (index !== 0) trimmed = trimmed.replace(/^ +/, "");
+    if (index !== lines.length - 1) trimmed = trimmed.replace(/ +$/, "");
+    if (trimmed) result += (result && index !== 0 ? " " : "") + trimmed;
+  });
+  return result;
+};
+
+/** Write text as JSX children, falling back to a string expression for reserved characters */
+const formatJsxText = (text: string): string =>
+  /[{}<>]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+
+type ChildPart =
+  | { kind: "text"; value: string; node: ts.JsxText | ts.StringLiteral | ts.NoSubstitutionTemplateLiteral }
+  | { kind: "inline" };
+
+const describeChildren = (element: ts.JsxElement): ChildPart[] => {
+  const parts: ChildPart[] = [];
+  for (const child of element.children) {
+    if (ts.isJsxText(child)) {
+      if (!child.containsOnlyTriviaWhiteSpaces) {
+        parts.push({ kind: "text", value: cookJsxText(child.text), node: child });
+      }
+    } else if (ts.isJsxExpression(child)) {
+      const expr = child.expression;
+      if (!expr) continue;
+      if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) {
+        parts.push({ kind: "text", value: expr.text, node: expr });
+      } else {
+        parts.push({ kind: "inline" });
+      }
+    } else {
+      parts.push({ kind: "inline" });
+    }
+  }
+  return parts;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Does the element's source text match the rendered text (inline components match anything)? */
+const matchesRenderedText = (parts: ChildPart[], rendered: string): boolean => {
+  const pattern = parts
+    .map((part) => (part.kind === "text" ? escapeRegExp(normalizeText(part.value)) : ".*?"))
+    .join("\\s*");
+  return new RegExp(`^\\s*${pattern}\\s*$`).test(rendered);
+};
+
+/** Range of a JsxText node without its surrounding whitespace */
+const trimmedRange = (code: string, start: number, end: number): { start: number; end: number } => {
+  let s = start;
+  let e = end;
+  while (s < e && /\s/.test(code[s])) s++;
+  while (e > s && /\s/.test(code[e - 1])) e--;
+  return { start: s, end: e };
+};
+
+const rewriteTextPart = (
+  code: string,
+  part: Extract<ChildPart, { kind: "text" }>,
+  value: string
+): Replacement => {
+  if (ts.isJsxText(part.node)) {
+    const range = trimmedRange(code, part.node.pos, part.node.end);
+    return { ...range, text: formatJsxText(value) };
+  }
+  const original = part.node.text;
+  const leading = /^\s*/.exec(original)?.[0] ?? "";
+  const trailing = /\s*$/.exec(original)?.[0] ?? "";
+  return {
+    start: part.node.getStart(),
+    end: part.node.end,
+    text: JSON.stringify(leading + value + trailing),
+  };
+};
+
+const applyTextEdit = (sourceFile: ts.SourceFile, edit: SourceTextEdit): Attempt => {
+  const code = sourceFile.text;
+  const candidates = collectJsx(sourceFile).filter(
+    (node): node is ts.JsxElement => ts.isJsxElement(node) && readAttr(node, "sectionId") === edit.sectionId
+  );
+
+  if (candidates.length === 0) {
+    return { ok: false, found: false, reason: `no editable element with sectionId "${edit.sectionId}"` };
+  }
+
+  const original = normalizeText(edit.originalText);
+  const updated = normalizeText(edit.newText);
+
+  const element = candidates.length === 1
+    ? candidates[0]
+    : candidates.find((candidate) => matchesRenderedText(describeChildren(candidate), original));
+
+  if (!element) {
+    return { ok: false, found: true, reason: "original text does not match any element in the section" };
+  }
+
+  if (original === updated) {
+    return { ok: false, found: true, reason: "only formatting changed, which cannot be written back" };
+  }
+
+  const parts = describeChildren(element);
+  const textParts = parts.filter((part): part is Extract<ChildPart, { kind: "text" }> => part.kind === "text");
+
+  // Plain text: replace the children wholesale
+  if (parts.every((part) => part.kind === "text")) {
+    const sourceText = normalizeText(textParts.map((part) => part.value).join(""));
+    if (sourceText !== original) {
+      return { ok: false, found: true, reason: "source text has changed since the edit was made" };
+    }
+
+    if (element.children.length === 0) {
+      return {
+        ok: true,
+        replacements: [{ start: element.openingElement.end, end: element.openingElement.end, text: formatJsxText(updated) }],
+      };
+    }
+
+    const range = trimmedRange(code, element.children.pos, element.children.end);
+    return { ok: true, replacements: [{ ...range, text: formatJsxText(updated) }] };
+  }
+
+  // Mixed content: locate each text run in the rendered text, then find the
+  // single run that contains the changed range
+  const located: { part: Extract<ChildPart, { kind: "text" }>; value: string; from: number; to: number }[] = [];
+  let cursor = 0;
+  for (const part of textParts) {
+    const value = normalizeText(part.value);
+    if (!value) continue;
+    const from = original.indexOf(value, cursor);
+    if (from === -1) {
+      return { ok: false, found: true, reason: "source text has changed since the edit was made" };
+    }
+    located.push({ part, value, from, to: from + value.length });
+    cursor = from + value.length;
+  }
+
+  let prefix = 0;
+  while (prefix < original.length && prefix < updated.length && original[prefix] === updated[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < updated.length - prefix &&
+    original[original.length - 1 - suffix] === updated[updated.length - 1 - suffix]
+  ) suffix++;
+
+  const changedFrom = prefix;
+  const changedTo = original.length - suffix;
+  const target = located.find(({ from, to }) => from <= changedFrom && changedTo <= to);
+
+  if (!target) {
+    return { ok: false, found: true, reason: "the change spans an inline component" };
+  }
+
+  const inserted = updated.slice(prefix, updated.length - suffix);
+  const value =
+    target.value.slice(0, changedFrom - target.from) + inserted + target.value.slice(changedTo - target.from);
+
+  return { ok: true, replacements: [rewriteTextPart(code, target.part, value)] };
+};
+
+// ============================================================================
+// EQUATIONS
+// ============================================================================
+
+const writeStringAttr = (attr: ts.JsxAttribute, value: string): Replacement => {
+  const init = attr.initializer;
+  const name = attr.name.getText();
+  const text = init && ts.isStringLiteral(init) && !/["\n]/.test(value)
+    ? `${name}="${value}"`
+    : `${name}={${JSON.stringify(value)}}`;
+  return { start: attr.getStart(), end: attr.end, text };
+};
+
+const applyEquationEdit = (sourceFile: ts.SourceFile, edit: SourceEquationEdit): Attempt => {
+  const { scoped, matches } = findInSection(
+    sourceFile,
+    edit.sectionId,
+    (node) => EQUATION_COMPONENTS.has(tagNameOf(node)) && readAttr(node, "latex") === edit.originalLatex
+  );
+
+  if (!scoped) {
+    return { ok: false, found: false, reason: `no Block with id "${edit.sectionId}"` };
+  }
+  if (matches.length === 0) {
+    return { ok: false, found: true, reason: "no equation with the original LaTeX in the section" };
+  }
+
+  // The editor shows the edit on every equation with the same LaTeX in the block
+  const replacements: Replacement[] = [];
+  for (const node of matches) {
+    const latexAttr = findAttr(node, "latex");
+    if (latexAttr) replacements.push(writeStringAttr(latexAttr, edit.newLatex));
+
+    // Only inline object literals can be rewritten; shared color maps are left alone
+    const colorAttr = findAttr(node, "colorMap");
+    const colorExpr = colorAttr?.initializer && ts.isJsxExpression(colorAttr.initializer)
+      ? colorAttr.initializer.expression
+      : undefined;
+    if (edit.colorMap && colorAttr && colorExpr && ts.isObjectLiteralExpression(colorExpr)) {
+      const entries = Object.entries(edit.colorMap)
+        .map(([term, color]) => `${/^[A-Za-z_$][\w$]*$/.test(term) ? term : JSON.stringify(term)}: ${JSON.stringify(color)}`)
+        .join(", ");
+      replacements.push({ start: colorExpr.getStart(), end: colorExpr.end, text: `{ ${entries} }` });
+    }
+  }
+
+  return { ok: true, replacements };
+};
+
+// ============================================================================
+// SCRUBBLE NUMBERS
+// ============================================================================
+
+const formatPropAttr = (name: string, value: string | number): string =>
+  typeof value === "string" ? `${name}=${JSON.stringify(value)}` : `${name}={${value}}`;
+
+/**
+ * Set attributes on an element: existing ones are rewritten (or removed when
+ * the new text is undefined), new ones are appended in the element's layout.
+ */
+const setAttributes = (code: string, node: JsxNode, changes: [name: string, text: string | undefined][]): Replacement[] => {
+  const attributes = openingOf(node).attributes;
+  const multiline = code.slice(openingOf(node).getStart(), attributes.end).includes("\n");
+  const replacements: Replacement[] = [];
+  const added: string[] = [];
+
+  for (const [name, text] of changes) {
+    const attr = findAttr(node, name);
+    if (text === undefined) {
+      if (attr) replacements.push({ start: attr.pos, end: attr.end, text: "" });
+    } else if (attr) {
+      replacements.push({ start: attr.getStart(), end: attr.end, text });
+    } else {
+      added.push(text);
+    }
+  }
+
+  if (added.length > 0) {
+    const last = attributes.properties[attributes.properties.length - 1];
+    const at = last ? last.end : openingOf(node).tagName.end;
+    const separator = multiline && last ? `\n${indentationAt(code, last.getStart())}` : " ";
+    replacements.push({ start: at, end: at, text: added.map((attr) => separator + attr).join("") });
+  }
+
+  return replacements;
+};
+
+const applyScrubbleNumberEdit = (sourceFile: ts.SourceFile, edit: SourceScrubbleNumberEdit): Attempt => {
+  const { varName, defaultValue } = edit.originalProps;
+  const { scoped, matches } = findInSection(
+    sourceFile,
+    edit.sectionId,
+    (node) =>
+      tagNameOf(node) === "InlineScrubbleNumber" &&
+      (varName !== undefined ? readAttr(node, "varName") === varName : readAttr(node, "defaultValue") === defaultValue)
+  );
+
+  if (!scoped) {
+    return { ok: false, found: false, reason: `no Block with id "${edit.sectionId}"` };
+  }
+  if (matches.length === 0) {
+    return { ok: false, found: true, reason: `no InlineScrubbleNumber for "${varName ?? defaultValue}" in the section` };
+  }
+
+  const changes = SCRUBBLE_PROPS
+    .filter((prop) => edit.newProps[prop] !== edit.originalProps[prop])
+    .map((prop): [string, string | undefined] => {
+      const next = edit.newProps[prop];
+      return [prop, next === undefined ? undefined : formatPropAttr(prop, next)];
+    });
+
+  return { ok: true, replacements: matches.flatMap((node) => setAttributes(sourceFile.text, node, changes)) };
+};
+
+// ============================================================================
+// STRUCTURE
+// ============================================================================
+
+/** Ids a top-level section can be referred to by: its Block id and its key */
+const sectionIdsOf = (element: ts.Expression): Set<string> => {
+  const ids = new Set<string>();
+  if (!ts.isJsxElement(element) && !ts.isJsxSelfClosingElement(element)) return ids;
+
+  const key = readAttr(element, "key");
+  if (typeof key === "string") {
+    ids.add(key);
+    if (key.startsWith("layout-")) ids.add(key.slice("layout-".length));
+  }
+
+  const block = collectJsx(element).find((node) => tagNameOf(node) === "Block" || tagNameOf(node) === "Section");
+  const blockId = block ? readAttr(block, "id") : undefined;
+  if (typeof blockId === "string") ids.add(blockId);
+  return ids;
+};
+
+/** Array literals that list top-level sections (JSX elements containing Blocks) */
+const findSectionArrays = (sourceFile: ts.SourceFile): ts.ArrayLiteralExpression[] => {
+  const arrays: ts.ArrayLiteralExpression[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isArrayLiteralExpression(node) && node.elements.some((element) => sectionIdsOf(element).size > 0)) {
+      arrays.push(node);
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return arrays;
+};
+
+const findSectionElement = (
+  sourceFile: ts.SourceFile,
+  sectionId: string
+): { array: ts.ArrayLiteralExpression; element: ts.Expression } | undefined => {
+  for (const array of findSectionArrays(sourceFile)) {
+    const element = array.elements.find((candidate) => sectionIdsOf(candidate).has(sectionId));
+    if (element) return { array, element };
+  }
+  return undefined;
+};
+
+/** End of an array element including its trailing comma, if any */
+const commaEnd = (code: string, element: ts.Expression): number | undefined => {
+  const match = /^\s*,/.exec(code.slice(element.end));
+  return match ? element.end + match[0].length : undefined;
+};
+
+const applyDelete = (sourceFile: ts.SourceFile, edit: SourceStructureEdit): Attempt => {
+  const code = sourceFile.text;
+  const located = edit.sectionId ? findSectionElement(sourceFile, edit.sectionId) : undefined;
+  if (!located) {
+    return { ok: false, found: false, reason: `no top-level section for "${edit.sectionId}"` };
+  }
+
+  const { element } = located;
+  let start = element.getStart();
+  const lineStart = code.lastIndexOf("\n", start - 1) + 1;
+  if (/^\s*$/.test(code.slice(lineStart, start))) start = lineStart;
+
+  let end = commaEnd(code, element) ?? element.end;
+  const rest = /^[ \t]*(\r?\n)?/.exec(code.slice(end));
+  if (rest) end += rest[0].length;
+
+  // Don't leave two blank lines where the section used to be
+  const blankAfter = /^[ \t]*\r?\n/.exec(code.slice(end));
+  if (blankAfter && /\n[ \t]*\r?\n$/.test(code.slice(0, start))) end += blankAfter[0].length;
+
+  const removal: Replacement = { start, end, text: "" };
+  const usedTags = new Set(collectJsx(element).map(tagNameOf));
+  return { ok: true, replacements: [removal, ...pruneImports(sourceFile, usedTags, removal)] };
+};
+
+const applyReorder = (sourceFile: ts.SourceFile, edit: SourceStructureEdit): Attempt => {
+  const ids = (edit.sectionIds ?? []).filter((id) => id && id !== "unknown");
+
+  for (const array of findSectionArrays(sourceFile)) {
+    const ordered = ids
+      .map((id) => array.elements.find((element) => sectionIdsOf(element).has(id)))
+      .filter((element, index, all): element is ts.Expression => !!element && all.indexOf(element) === index);
+    if (ordered.length === 0) continue;
+
+    // Sections keep their slots; only the matched ones are permuted
+    const slots = [...ordered].sort((a, b) => a.pos - b.pos);
+    const replacements = slots
+      .map((slot, index) => ({ slot, next: ordered[index] }))
+      .filter(({ slot, next }) => slot !== next)
+      .map(({ slot, next }) => ({ start: slot.getStart(), end: slot.end, text: next.getText() }));
+
+    return { ok: true, replacements };
+  }
+
+  return { ok: false, found: false, reason: "none of the reordered sections are in a sections array" };
+};
+
+/** A self-closing element with the given props, written like the hand-written sections */
+const elementSource = (component: string, props: Record<string, unknown>, usedComponents: Set<string>): string => {
+  usedComponents.add(component);
+  const attributes = Object.entries(props)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => propAttrSource(name, value, usedComponents));
+  return `<${component} ${attributes.join(" ")} />`;
+};
+
+/**
+ * Inline components created from slash-command markers, with the same props
+ * and defaults as LessonView
+ */
+const inlineMarkerSource = (marker: InlineMarker, usedComponents: Set<string>): string => {
+  switch (marker.type) {
+    case "inlineExpression":
+      return elementSource("InlineExpression", {
+        expression: getMarkerProp(marker, "expression") ?? "",
+        precision: getMarkerNumber(marker, "precision", 2),
+        fixed: getMarkerBoolean(marker, "fixed") || undefined,
+        thousands: getMarkerBoolean(marker, "thousands", true) ? undefined : false,
+        notation: getMarkerNotation(marker),
+        unit: getMarkerProp(marker, "unit"),
+      }, usedComponents);
+    case "inlineScrubbleNumber":
+      return elementSource("InlineScrubbleNumber", {
+        varName: getMarkerProp(marker, "var") || `var_${marker.id}`,
+        defaultValue: getMarkerNumber(marker, "value", getMarkerNumber(marker, "min", 0)),
+        min: getMarkerNumber(marker, "min", 0),
+        max: getMarkerNumber(marker, "max", 100),
+        step: getMarkerNumber(marker, "step", 1),
+      }, usedComponents);
+    case "inlineDropdown": {
+      const options = parseMarkerList(getMarkerProp(marker, "options"));
+      return elementSource("InlineDropdown", {
+        id: `dropdown-${marker.id}`,
+        correctAnswer: getMarkerProp(marker, "answer") ?? options[0] ?? "",
+        options,
+        placeholder: getMarkerProp(marker, "placeholder"),
+      }, usedComponents);
+    }
+    case "inlineTextInput":
+      return elementSource("InlineTextInput", {
+        id: `text-input-${marker.id}`,
+        correctAnswer: getMarkerProp(marker, "answer") ?? "",
+        placeholder: getMarkerProp(marker, "placeholder"),
+        caseSensitive: getMarkerBoolean(marker, "caseSensitive") || undefined,
+      }, usedComponents);
+  }
+};
+
+/** A run of text as a JSX child line, keeping spaces next to its siblings */
+const textLine = (text: string, before: boolean, after: boolean): string | undefined => {
+  const trimmed = normalizeText(text);
+  if (!trimmed) {
+    return text && before && after ? `{" "}` : undefined;
+  }
+  const lead = before && /^\s/.test(text) ? `{" "}` : "";
+  const trail = after && /\s$/.test(text) ? `{" "}` : "";
+  return lead + formatJsxText(trimmed) + trail;
+};
+
+/** JSX children lines for committed block content, with inline markers expanded */
+const contentLines = (content: string, usedComponents: Set<string>): string[] => {
+  const parts = splitInlineMarkers(content);
+  return parts.flatMap((part, index) => {
+    if (typeof part !== "string") return [inlineMarkerSource(part, usedComponents)];
+    const line = textLine(part, index > 0, index < parts.length - 1);
+    return line !== undefined ? [line] : [];
+  });
+};
+
+const wrapLines = (open: string, lines: string[], close: string): string =>
+  [open, ...lines.map((line) => INDENT + line), close].join("\n");
+
+/** Source for a block added in the editor, mirroring LessonView's handleCommitSection */
+const blockSource = (sectionId: string, content: string, blockType: string | undefined, usedComponents: Set<string>): string => {
+  const id = JSON.stringify(sectionId);
+  let inner: string;
+
+  switch (blockType) {
+    case "h1":
+    case "h2":
+    case "h3": {
+      const tag = `EditableH${blockType.slice(1)}`;
+      usedComponents.add(tag);
+      inner = wrapLines(`<${tag} sectionId=${id}>`, contentLines(content, usedComponents), `</${tag}>`);
+      break;
+    }
+    case "quote":
+      usedComponents.add("EditableText");
+      inner = wrapLines(
+        `<blockquote className="border-l-4 border-gray-300 pl-4 py-2">`,
+        wrapLines(
+          `<EditableText sectionId=${id} as="p" className="text-lg italic text-gray-600">`,
+          contentLines(content, usedComponents),
+          `</EditableText>`
+        ).split("\n"),
+        `</blockquote>`
+      );
+      break;
+    case "divider":
+      inner = `<hr className="my-6 border-t border-gray-200" />`;
+      break;
+    case "equation": {
+      const { latex, colorMap } = parseEquation(content);
+      inner = wrapLines(
+        `<div className="my-4 flex justify-center text-2xl">`,
+        [elementSource("Equation", { latex, colorMap: Object.keys(colorMap).length > 0 ? colorMap : undefined }, usedComponents)],
+        `</div>`
+      );
+      break;
+    }
+    case "callout": {
+      const { variant, text } = parseCallout(content);
+      usedComponents.add("Callout");
+      usedComponents.add("EditableText");
+      inner = wrapLines(
+        `<Callout variant="${variant}">`,
+        wrapLines(`<EditableText sectionId=${id} as="p">`, contentLines(text, usedComponents), `</EditableText>`).split("\n"),
+        `</Callout>`
+      );
+      break;
+    }
+    case "bulletList":
+    case "numberedList": {
+      const ordered = blockType === "numberedList";
+      usedComponents.add("EditableText");
+      inner = wrapLines(
+        `<${ordered ? "ol" : "ul"} className="${ordered ? "list-decimal" : "list-disc"} space-y-1 pl-6 text-lg text-gray-800">`,
+        parseList(content).flatMap((item) =>
+          wrapLines(`<EditableText sectionId=${id} as="li">`, contentLines(item, usedComponents), `</EditableText>`).split("\n")
+        ),
+        `</${ordered ? "ol" : "ul"}>`
+      );
+      break;
+    }
+    case "code": {
+      const { code, language } = parseCodeBlock(content);
+      inner = elementSource("CodeBlock", { code, language: language || undefined }, usedComponents);
+      break;
+    }
+    case "image": {
+      const { src, alt, caption } = parseImage(content);
+      inner = elementSource("Figure", { src, alt, caption: caption || undefined }, usedComponents);
+      break;
+    }
+    case "table": {
+      const [headers = [], ...rows] = parseTable(content);
+      inner = elementSource("SimpleTable", { headers, rows }, usedComponents);
+      break;
+    }
+    case "paragraph":
+    default:
+      usedComponents.add("EditableParagraph");
+      inner = wrapLines(`<EditableParagraph sectionId=${id}>`, contentLines(content, usedComponents), `</EditableParagraph>`);
+      break;
+  }
+
+  usedComponents.add("Block");
+  usedComponents.add("FullWidthLayout");
+  return wrapLines(
+    `<FullWidthLayout key=${JSON.stringify(`layout-${sectionId}`)} maxWidth="xl">`,
+    wrapLines(`<Block id=${id} padding="sm">`, inner.split("\n"), `</Block>`).split("\n"),
+    `</FullWidthLayout>`
+  );
+};
+
+const fromModule = (moduleName: string, names: string[]): Record<string, string> =>
+  Object.fromEntries(names.map((name) => [name, moduleName]));
+
+/** Where each component used by generated blocks is imported from (the component registry's components) */
+const COMPONENT_MODULES: Record<string, string> = {
+  ...fromModule("@/components/layouts", ["FullWidthLayout", "SplitLayout", "GridLayout", "SidebarLayout", "Sidebar", "Main"]),
+  ...fromModule("@/components/templates", ["Block", "Section"]),
+  ...fromModule("@/components/atoms", [
+    "EditableH1", "EditableH2", "EditableH3", "EditableH4", "EditableH5", "EditableH6",
+    "EditableParagraph", "EditableSpan", "Equation", "InlineScrubbleNumber", "InlineExpression", "InlineDropdown",
+    "InlineTextInput", "InfoTooltip", "D3BarChart", "AnimatedGraph", "AnimatedBackground",
+    "CoordinateSystem", "MorphingShapes", "ParticleSystem", "MafsBasic", "MafsInteractive",
+    "ThreeCanvas", "ThreeCoordinateSystem", "RotatingCube", "PulsingSphere", "GeometricCollection", "AtomicStructure",
+  ]),
+  ...fromModule("@/components/molecules", [
+    "MathBlock", "InteractiveEquation", "VariableReplay", "Callout", "CodeBlock", "Figure", "SimpleTable",
+  ]),
+  ...fromModule("@/components/annotations", [
+    "Hoverable", "Glossary", "Whisper", "Stepper", "Toggle", "Scrubber", "FillBlank", "MultiChoice", "Sortable", "Linked", "Focus",
+    "DragWordProvider", "DragWordReset", "DragWord", "DropZone", "Movable",
+  ]),
+  ...fromModule("@/components/organisms", ["DesmosGraph", "GeoGebraGraph", "InteractiveAnimation", "MermaidRenderer"]),
+  EditableText: "@/components/editing/EditableText",
+};
+
+const importedNames = (sourceFile: ts.SourceFile): Set<string> => {
+  const imported = new Set<string>();
+  for (const decl of sourceFile.statements.filter(ts.isImportDeclaration)) {
+    const bindings = decl.importClause?.namedBindings;
+    if (decl.importClause?.name) imported.add(decl.importClause.name.text);
+    if (bindings && ts.isNamedImports(bindings)) {
+      bindings.elements.forEach((element) => imported.add(element.name.text));
+    }
+  }
+  return imported;
+};
+
+/** Components that are neither imported by the file nor known to COMPONENT_MODULES */
+const unresolvedImports = (sourceFile: ts.SourceFile, names: Set<string>): string[] => {
+  const imported = importedNames(sourceFile);
+  return [...names].filter((name) => !imported.has(name) && !COMPONENT_MODULES[name]);
+};
+
+/** Add named imports for components the file does not import yet */
+const ensureImports = (sourceFile: ts.SourceFile, names: Set<string>): Replacement[] => {
+  const code = sourceFile.text;
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const imported = importedNames(sourceFile);
+
+  const missingByModule = new Map<string, string[]>();
+  for (const name of names) {
+    if (imported.has(name)) continue;
+    const moduleName = COMPONENT_MODULES[name];
+    missingByModule.set(moduleName, [...(missingByModule.get(moduleName) ?? []), name]);
+  }
+
+  const replacements: Replacement[] = [];
+  const newImports: string[] = [];
+
+  for (const [moduleName, missing] of missingByModule) {
+    const existing = imports.find((decl) => {
+      const bindings = decl.importClause?.namedBindings;
+      return (
+        ts.isStringLiteral(decl.moduleSpecifier) &&
+        decl.moduleSpecifier.text === moduleName &&
+        !decl.importClause?.isTypeOnly &&
+        bindings && ts.isNamedImports(bindings) && bindings.elements.length > 0
+      );
+    });
+    const bindings = existing?.importClause?.namedBindings;
+
+    if (bindings && ts.isNamedImports(bindings)) {
+      const last = bindings.elements[bindings.elements.length - 1];
+      const multiline = code.slice(bindings.getStart(), bindings.end).includes("\n");
+      const separator = multiline ? `,\n${indentationAt(code, last.getStart())}` : ", ";
+      replacements.push({ start: last.end, end: last.end, text: missing.map((name) => separator + name).join("") });
+    } else {
+      newImports.push(`import { ${missing.join(", ")} } from "${moduleName}";`);
+    }
+  }
+
+  if (newImports.length > 0) {
+    const lastImport = imports[imports.length - 1];
+    const at = lastImport ? lastImport.end : 0;
+    const text = lastImport ? `\n${newImports.join("\n")}` : `${newImports.join("\n")}\n`;
+    replacements.push({ start: at, end: at, text });
+  }
+
+  return replacements;
+};
+
+/** Remove named imports that are no longer used once `removed` is cut from the file */
+const pruneImports = (sourceFile: ts.SourceFile, names: Set<string>, removed: Replacement): Replacement[] => {
+  const code = sourceFile.text;
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+
+  // Code that remains after the removal, without the import statements themselves
+  let remaining = applyReplacements(code, [removed]);
+  for (const decl of [...imports].reverse()) {
+    if (decl.end <= removed.start) {
+      remaining = remaining.slice(0, decl.getStart()) + remaining.slice(decl.end);
+    }
+  }
+
+  const replacements: Replacement[] = [];
+  for (const decl of imports) {
+    const bindings = decl.importClause?.namedBindings;
+    if (!bindings || !ts.isNamedImports(bindings) || decl.importClause?.name) continue;
+
+    const unused = bindings.elements.filter(
+      (element) => names.has(element.name.text) && !new RegExp(`\\b${element.name.text}\\b`).test(remaining)
+    );
+    if (unused.length === 0) continue;
+
+    if (unused.length === bindings.elements.length) {
+      const end = /^[ \t]*\r?\n/.exec(code.slice(decl.end));
+      replacements.push({ start: decl.getStart(), end: decl.end + (end ? end[0].length : 0), text: "" });
+      continue;
+    }
+
+    // Rewrite the import list, keeping its single- or multi-line layout
+    const kept = bindings.elements.filter((element) => !unused.includes(element)).map((element) => element.getText());
+    const multiline = bindings.getText().includes("\n");
+    const indent = indentationAt(code, bindings.elements[0].getStart());
+    const text = multiline
+      ? `{\n${kept.map((name) => indent + name).join(",\n")}\n${indentationAt(code, bindings.end - 1)}}`
+      : `{ ${kept.join(", ")} }`;
+    replacements.push({ start: bindings.getStart(), end: bindings.end, text });
+  }
+
+  return replacements;
+};
+
+/**
+ * Apply replacements that add and drop components, then fix the imports up in
+ * a second pass (so new and pruned names in one import list don't collide).
+ * Returns a single replacement for the whole file.
+ */
+const rewriteWithImports = (
+  sourceFile: ts.SourceFile,
+  replacements: Replacement[],
+  usedComponents: Set<string>,
+  removedComponents: Set<string>
+): Replacement => {
+  const code = sourceFile.text;
+  const updated = applyReplacements(code, [...replacements, ...ensureImports(sourceFile, usedComponents)]);
+  const unused = new Set([...removedComponents].filter((name) => !usedComponents.has(name)));
+  const pruned = applyReplacements(updated, pruneImports(parse(sourceFile.fileName, updated), unused, { start: 0, end: 0, text: "" }));
+  return { start: 0, end: code.length, text: pruned };
+};
+
+const applyAdd = (sourceFile: ts.SourceFile, edit: SourceStructureEdit): Attempt => {
+  if (!edit.sectionId) {
+    return { ok: false, found: true, reason: "added block has no id" };
+  }
+  if (!edit.node && (edit.blockType === "placeholder" || (!edit.content && edit.blockType !== "divider"))) {
+    return { ok: false, found: true, reason: "block was added but never filled in" };
+  }
+  if (!edit.afterSectionId) {
+    return { ok: false, found: true, reason: "position of the added block is unknown" };
+  }
+
+  const invalid = edit.node && invalidNodesReason([edit.node]);
+  if (invalid) {
+    return { ok: false, found: true, reason: invalid };
+  }
+
+  const code = sourceFile.text;
+  const anchor = findSectionElement(sourceFile, edit.afterSectionId);
+  if (!anchor) {
+    return { ok: false, found: false, reason: `no top-level section for "${edit.afterSectionId}"` };
+  }
+
+  const usedComponents = new Set<string>();
+  const indent = indentationAt(code, anchor.element.getStart());
+  const block = edit.node
+    ? nodeSource(edit.node, usedComponents)
+    : blockSource(edit.sectionId, edit.content ?? "", edit.blockType, usedComponents);
+  const source = indentLines(block, indent);
+
+  const unresolved = unresolvedImports(sourceFile, usedComponents);
+  if (unresolved.length > 0) {
+    return { ok: false, found: true, reason: `no import known for ${unresolved.join(", ")}` };
+  }
+
+  const afterComma = commaEnd(code, anchor.element);
+  const insertion: Replacement = afterComma !== undefined
+    ? { start: afterComma, end: afterComma, text: `\n\n${indent}${source},` }
+    : { start: anchor.element.end, end: anchor.element.end, text: `,\n\n${indent}${source}` };
+
+  return { ok: true, replacements: [insertion, ...ensureImports(sourceFile, usedComponents)] };
+};
+
+// ============================================================================
+// HOST CONTENT
+// ============================================================================
+
+const isIdentifier = (name: string): boolean => /^[A-Za-z_$][\w$]*$/.test(name);
+
+const isNodeProp = (value: unknown): value is { $node: SourceLessonNode[] } =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && "$node" in value;
+
+/** JSX attribute names, including dashed ones like `aria-label`, except raw HTML and event handlers */
+const isAttributeName = (name: string): boolean =>
+  /^[A-Za-z_$][\w$]*(-[\w$]+)*$/.test(name) && name !== "dangerouslySetInnerHTML" && !/^on/i.test(name);
+
+/** HTML tags lesson nodes may use (the component registry's ALLOWED_HTML_TAGS) */
+const HTML_TAGS = new Set([
+  "div", "span", "p", "h1", "h2", "h3", "h4", "h5", "h6",
+  "ul", "ol", "li", "strong", "em", "b", "i", "u", "code", "pre",
+  "blockquote", "hr", "br", "sub", "sup", "small", "a", "img", "figure", "figcaption",
+  "table", "thead", "tbody", "tr", "th", "td",
+]);
+
+/*
+ * Tags and prop names from the host go into the source verbatim, so only
+ * known components, allowed HTML tags and plain attribute names are written.
+ * These return why content can't be written, if it can't.
+ */
+
+const invalidPropsReason = (props: Record<string, unknown>): string | undefined => {
+  for (const [name, value] of Object.entries(props)) {
+    const reason = isAttributeName(name) ? invalidValueReason(value) : `invalid prop name ${JSON.stringify(name)}`;
+    if (reason) return reason;
+  }
+  return undefined;
+};
+
+const invalidValueReason = (value: unknown): string | undefined => {
+  if (isNodeProp(value)) return invalidNodesReason(value.$node);
+  if (value && typeof value === "object") {
+    return Object.values(value).map(invalidValueReason).find(Boolean);
+  }
+  return undefined;
+};
+
+const invalidNodesReason = (nodes: SourceLessonNode[]): string | undefined => {
+  for (const node of nodes) {
+    if (typeof node === "string") continue;
+    if (!COMPONENT_MODULES[node.type] && !HTML_TAGS.has(node.type)) {
+      return `unknown component type ${JSON.stringify(node.type)}`;
+    }
+    const reason = invalidPropsReason(node.props ?? {}) ?? invalidNodesReason(node.children ?? []);
+    if (reason) return reason;
+  }
+  return undefined;
+};
+
+/** JSX children lines for lesson nodes */
+const nodeLines = (nodes: SourceLessonNode[], usedComponents: Set<string>): string[] =>
+  nodes.flatMap((node, index) => {
+    if (typeof node === "string") {
+      const line = textLine(node, index > 0, index < nodes.length - 1);
+      return line === undefined ? [] : [line];
+    }
+    return nodeSource(node, usedComponents).split("\n");
+  });
+
+/** Source for a prop value inside `{...}` */
+const propExpression = (value: unknown, usedComponents: Set<string>): string => {
+  if (isNodeProp(value)) {
+    const [first] = value.$node;
+    if (value.$node.length === 1 && typeof first !== "string") return nodeSource(first, usedComponents);
+    return wrapLines("<>", nodeLines(value.$node, usedComponents), "</>");
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => propExpression(item, usedComponents)).join(", ")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).map(
+      ([name, inner]) => `${isIdentifier(name) ? name : JSON.stringify(name)}: ${propExpression(inner, usedComponents)}`
+    );
+    return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value);
+};
+
+const propAttrSource = (name: string, value: unknown, usedComponents: Set<string>): string => {
+  if (value === true) return name;
+  // JSX attribute strings have no escapes, so anything tricky goes in an expression
+  if (typeof value === "string" && !/["\n&]/.test(value)) return `${name}="${value}"`;
+  return `${name}={${propExpression(value, usedComponents)}}`;
+};
+
+/** Source for a lesson node as JSX */
+const nodeSource = (node: Exclude<SourceLessonNode, string>, usedComponents: Set<string>): string => {
+  if (/^[A-Z]/.test(node.type)) usedComponents.add(node.type);
+
+  const attrs = [
+    ...(node.key ? [`key=${JSON.stringify(node.key)}`] : []),
+    ...Object.entries(node.props ?? {}).map(([name, value]) => propAttrSource(name, value, usedComponents)),
+  ];
+  const open = `<${node.type}${attrs.map((attr) => ` ${attr}`).join("")}`;
+  const children = nodeLines(node.children ?? [], usedComponents);
+
+  return children.length > 0 ? wrapLines(`${open}>`, children, `</${node.type}>`) : `${open} />`;
+};
+
+const applyReplace = (sourceFile: ts.SourceFile, edit: SourceStructureEdit): Attempt => {
+  const scopes = edit.sectionId ? findSectionScopes(sourceFile, edit.sectionId) : [];
+  if (scopes.length === 0) {
+    return { ok: false, found: false, reason: `no Block with id "${edit.sectionId}"` };
+  }
+  const invalid = invalidNodesReason(edit.children ?? []);
+  if (invalid) {
+    return { ok: false, found: true, reason: invalid };
+  }
+
+  const code = sourceFile.text;
+  const usedComponents = new Set<string>();
+  const lines = nodeLines(edit.children ?? [], usedComponents);
+  const unresolved = unresolvedImports(sourceFile, usedComponents);
+  if (unresolved.length > 0) {
+    return { ok: false, found: true, reason: `no import known for ${unresolved.join(", ")}` };
+  }
+
+  const removedComponents = new Set<string>();
+  const replacements = scopes.map((scope): Replacement => {
+    collectJsx(scope).filter((node) => node !== scope).forEach((node) => removedComponents.add(tagNameOf(node)));
+
+    const indent = indentationAt(code, scope.getStart());
+    const body = lines.map((line) => `${indent}${INDENT}${line}`).join("\n");
+    if (ts.isJsxElement(scope)) {
+      return { start: scope.openingElement.end, end: scope.closingElement.getStart(), text: `\n${body}\n${indent}` };
+    }
+    const open = code.slice(scope.getStart(), scope.end).replace(/\s*\/>$/, ">");
+    return { start: scope.getStart(), end: scope.end, text: `${open}\n${body}\n${indent}</${tagNameOf(scope)}>` };
+  });
+
+  return { ok: true, replacements: [rewriteWithImports(sourceFile, replacements, usedComponents, removedComponents)] };
+};
+
+const applyUpdateProps = (sourceFile: ts.SourceFile, edit: SourceStructureEdit): Attempt => {
+  const matches = edit.componentId
+    ? collectJsx(sourceFile).filter((node) => readAttr(node, "id") === edit.componentId)
+    : [];
+  if (matches.length === 0) {
+    return { ok: false, found: false, reason: `no component with id "${edit.componentId}"` };
+  }
+  const invalid = invalidPropsReason(edit.props ?? {});
+  if (invalid) {
+    return { ok: false, found: true, reason: invalid };
+  }
+
+  const usedComponents = new Set<string>();
+  const changes = Object.entries(edit.props ?? {}).map(([name, value]): [string, string | undefined] => [
+    name,
+    value === null ? undefined : propAttrSource(name, value, usedComponents),
+  ]);
+  const unresolved = unresolvedImports(sourceFile, usedComponents);
+  if (unresolved.length > 0) {
+    return { ok: false, found: true, reason: `no import known for ${unresolved.join(", ")}` };
+  }
+
+  // Components only referenced by the replaced props may no longer be needed
+  const removedComponents = new Set<string>();
+  for (const node of matches) {
+    for (const name of Object.keys(edit.props ?? {})) {
+      const attr = findAttr(node, name);
+      if (attr) collectJsx(attr).forEach((inner) => removedComponents.add(tagNameOf(inner)));
+    }
+  }
+
+  const replacements = matches.flatMap((node) => setAttributes(sourceFile.text, node, changes));
+  return { ok: true, replacements: [rewriteWithImports(sourceFile, replacements, usedComponents, removedComponents)] };
+};
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+const applyEdit = (sourceFile: ts.SourceFile, edit: SourceEdit): Attempt => {
+  switch (edit.type) {
+    case "text":
+      return applyTextEdit(sourceFile, edit);
+    case "equation":
+      return applyEquationEdit(sourceFile, edit);
+    case "scrubbleNumber":
+      return applyScrubbleNumberEdit(sourceFile, edit);
+    case "structure":
+      if (edit.action === "add") return applyAdd(sourceFile, edit);
+      if (edit.action === "delete") return applyDelete(sourceFile, edit);
+      if (edit.action === "reorder") return applyReorder(sourceFile, edit);
+      if (edit.action === "replace") return applyReplace(sourceFile, edit);
+      if (edit.action === "update-props") return applyUpdateProps(sourceFile, edit);
+      return { ok: false, found: false, reason: `unknown structure action "${(edit as SourceStructureEdit).action}"` };
+    default:
+      return { ok: false, found: false, reason: `unknown edit type "${(edit as { type: string }).type}"` };
+  }
+};
+
+/**
+ * Apply edits, in order, to a set of in-memory sources (file name -> code).
+ * Each edit is written to the first file where it can be located.
+ */
+export function patchLessonSources(sources: Record<string, string>, edits: SourceEdit[]): PatchResult {
+  const current = { ...sources };
+  const changed = new Set<string>();
+  const applied: string[] = [];
+  const unplaced: UnplacedEdit[] = [];
+
+  for (const edit of edits) {
+    let placed = false;
+    let reason: string | undefined;
+
+    for (const fileName of Object.keys(current)) {
+      const sourceFile = parse(fileName, current[fileName]);
+      const attempt = applyEdit(sourceFile, edit);
+
+      if (attempt.ok) {
+        if (attempt.replacements.length > 0) {
+          current[fileName] = applyReplacements(current[fileName], attempt.replacements);
+          changed.add(fileName);
+        }
+        placed = true;
+        break;
+      }
+
+      // Prefer the reason from a file that had the section over "not found"
+      if (attempt.found || reason === undefined) {
+        reason = attempt.found ? `${fileName}: ${attempt.reason}` : attempt.reason;
+        if (attempt.found) break;
+      }
+    }
+
+    if (placed) {
+      applied.push(edit.id);
+    } else {
+      unplaced.push({ id: edit.id, type: edit.type, reason: reason ?? "no lesson source files" });
+    }
+  }
+
+  const files: Record<string, string> = {};
+  changed.forEach((fileName) => {
+    files[fileName] = current[fileName];
+  });
+
+  return { files, applied, unplaced };
+}
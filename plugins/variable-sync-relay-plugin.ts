@@ -0,0 +1,88 @@
+import type { IncomingMessage, Server as HttpServer } from "http";
+import type { Duplex } from "stream";
+import type { Plugin } from "vite";
+import { WebSocketServer, type WebSocket } from "ws";
+
+/**
+ * Variable Sync Relay Plugin
+ * --------------------------
+ * WebSocket relay for presenter/follower variable sync (see
+ * `src/lib/variable-sync.ts`), served by the dev and preview servers:
+ *
+ *   ws://<host>:8080/__variable-sync?room=<lesson id>
+ *
+ * Every message is forwarded as-is to the other clients in the same room.
+ * The relay keeps no state; presenters answer newcomers with a snapshot.
+ */
+
+export const VARIABLE_SYNC_ENDPOINT = "/__variable-sync";
+
+// Larger messages are dropped (a full snapshot is far smaller)
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+export interface VariableSyncRelay {
+  /** Connected clients per room */
+  getRooms: () => Record<string, number>;
+  close: () => void;
+}
+
+/**
+ * Handle WebSocket upgrades for `endpoint` on an HTTP server; other upgrades
+ * (such as Vite's HMR socket) are left alone
+ */
+export function attachVariableSyncRelay(httpServer: HttpServer, endpoint = VARIABLE_SYNC_ENDPOINT): VariableSyncRelay {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  const rooms = new Map<string, Set<WebSocket>>();
+
+  const onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    if (url.pathname !== endpoint) return;
+
+    const room = url.searchParams.get("room") ?? "default";
+    wss.handleUpgrade(req, socket, head, (client) => {
+      let members = rooms.get(room);
+      if (!members) {
+        members = new Set();
+        rooms.set(room, members);
+      }
+      members.add(client);
+
+      client.on("message", (data, isBinary) => {
+        if (isBinary) return;
+        rooms.get(room)?.forEach((member) => {
+          if (member !== client && member.readyState === member.OPEN) member.send(data.toString());
+        });
+      });
+
+      client.on("close", () => {
+        const current = rooms.get(room);
+        current?.delete(client);
+        if (current?.size === 0) rooms.delete(room);
+      });
+    });
+  };
+
+  httpServer.on("upgrade", onUpgrade);
+
+  return {
+    getRooms: () => Object.fromEntries(Array.from(rooms, ([room, members]) => [room, members.size])),
+    close: () => {
+      httpServer.off("upgrade", onUpgrade);
+      wss.clients.forEach((client) => client.terminate());
+      wss.close();
+      rooms.clear();
+    },
+  };
+}
+
+export function variableSyncRelayPlugin(endpoint = VARIABLE_SYNC_ENDPOINT): Plugin {
+  return {
+    name: "variable-sync-relay",
+    configureServer(server) {
+      if (server.httpServer) attachVariableSyncRelay(server.httpServer as HttpServer, endpoint);
+    },
+    configurePreviewServer(server) {
+      attachVariableSyncRelay(server.httpServer as HttpServer, endpoint);
+    },
+  };
+}
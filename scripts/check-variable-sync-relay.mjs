@@ -0,0 +1,80 @@
+/**
+ * Check a running variable sync relay (see plugins/variable-sync-relay-plugin.ts).
+ *
+ *   npm run dev                         # or npm run preview
+ *   npm run check:sync-relay            # ws://localhost:8080/__variable-sync
+ *   npm run check:sync-relay -- wss://lesson.example.com/__variable-sync
+ *
+ * Connects three clients, two in one room and one in another, and checks that
+ * messages reach the other client in the room only.
+ */
+import WebSocket from "ws";
+
+const relayUrl = process.argv[2] ?? "ws://localhost:8080/__variable-sync";
+const TIMEOUT_MS = 3000;
+const room = `relay-check-${Date.now().toString(36)}`;
+
+const connect = (roomName) =>
+  new Promise((resolve, reject) => {
+    const url = new URL(relayUrl);
+    url.searchParams.set("room", roomName);
+    const socket = new WebSocket(url);
+    const received = [];
+    socket.on("message", (data) => received.push(JSON.parse(String(data))));
+    socket.once("open", () => resolve({ socket, received }));
+    socket.once("error", reject);
+  });
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const waitFor = async (check) => {
+  const deadline = Date.now() + TIMEOUT_MS;
+  while (!check()) {
+    if (Date.now() > deadline) return false;
+    await wait(20);
+  }
+  return true;
+};
+
+const failures = [];
+const expect = (ok, description) => {
+  console.log(`${ok ? "ok  " : "FAIL"} ${description}`);
+  if (!ok) failures.push(description);
+};
+
+let clients = [];
+try {
+  const presenter = await connect(room);
+  const follower = await connect(room);
+  const outsider = await connect(`${room}-other`);
+  clients = [presenter, follower, outsider];
+
+  const update = {
+    type: "update",
+    origin: "relay-check",
+    role: "presenter",
+    clock: 1,
+    values: { x: { value: 5, clock: 1, origin: "relay-check" } },
+  };
+  presenter.socket.send(JSON.stringify(update));
+
+  expect(
+    await waitFor(() => follower.received.length > 0) && follower.received[0].values?.x?.value === 5,
+    "a message reaches the other client in the room"
+  );
+  // Give stray deliveries time to arrive before checking they didn't
+  await wait(200);
+  expect(presenter.received.length === 0, "the sender does not get its own message back");
+  expect(outsider.received.length === 0, "clients in other rooms get nothing");
+} catch (error) {
+  failures.push(String(error));
+  console.error(`Could not reach ${relayUrl}: ${error instanceof Error ? error.message : error}`);
+} finally {
+  clients.forEach(({ socket }) => socket.close());
+}
+
+if (failures.length > 0) {
+  console.error(`\n${failures.length} check(s) failed`);
+  process.exit(1);
+}
+console.log("\nRelay OK");
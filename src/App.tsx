@@ -7,7 +7,10 @@ import { EditingProvider } from "@/contexts/EditingContext";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import { HierarchyReporter } from "./components/HierarchyReporter";
+import { VariableUrlSync } from "./components/VariableUrlSync";
+import { VariableSyncConnection } from "./components/VariableSyncConnection";
 import { EquationEditorModal, ScrubbleNumberEditorModal } from "./components/editing";
+import { sendToHost } from "@/lib/host-protocol";
 
 const queryClient = new QueryClient();
 
@@ -15,16 +18,19 @@ const App = () => {
   useEffect(() => {
     document.documentElement.classList.remove("dark");
     try { localStorage.setItem("theme", "light"); } catch { }
+    sendToHost({ type: "lesson-ready" });
   }, []);
   return (
     <QueryClientProvider client={queryClient}>
       <AppModeProvider>
         <EditingProvider>
           <HierarchyReporter />
+          <VariableSyncConnection />
           <EquationEditorModal />
           <ScrubbleNumberEditorModal />
           <TooltipProvider>
             <HashRouter>
+              <VariableUrlSync />
               <Routes>
                 <Route path="/" element={<Index />} />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
@@ -1,243 +1,166 @@
 import { useEffect } from 'react';
+import { onHostMessage, sendToHost, type HierarchyChange, type HierarchyNode } from '@/lib/host-protocol';
+import { useLessonTreeStore } from '@/stores';
+
+// The outline last sent to the host; diffs are computed against it
+const reported = {
+    outline: [] as HierarchyNode[],
+    revision: 0,
+    sent: false,
+};
 
-// Define the structure for hierarchy nodes
-interface HierarchyNode {
-    id: string;
-    type: "section" | "layout";
-    sectionId?: string;
-    label: string;
-    children: HierarchyNode[];
-    depth: number;
-}
-
-export const HierarchyReporter = () => {
-    // Function to build and send hierarchy
-    const reportHierarchy = () => {
-        // Find all potential section elements
-        // We look for elements with data-section-id or actual <section> tags
-        const allElements = Array.from(document.querySelectorAll('section, [data-section-id]'));
-
-        // Filter out elements that might be hidden or inside ignored containers
-        const sections = allElements.filter(el => !el.closest('.hierarchy-ignore'));
-
-        if (sections.length === 0) {
-            window.parent.postMessage({ type: 'hierarchy-update', hierarchy: [] }, '*');
-            return;
-        }
-
-        interface FlatNode extends HierarchyNode {
-            level: number;
-        }
-
-        const flatNodes: FlatNode[] = [];
-        let lastHeaderLevel = 0; // 0 means no header seen yet
-
-        sections.forEach((section) => {
-            // 1. Identify Heading Level
-            const header = section.querySelector('h1, h2, h3, h4, h5, h6');
-            let level = 1; // Default level
-            let label = "Section";
-
-            if (header) {
-                const tagName = header.tagName.toLowerCase();
-                const hLevel = parseInt(tagName.replace('h', ''), 10);
-                if (!isNaN(hLevel)) {
-                    level = hLevel;
-                    lastHeaderLevel = hLevel;
-                    // Use header text as label
-                    label = header.textContent?.trim() || "Untitled Section";
-                    if (label.length > 30) label = label.substring(0, 30) + "...";
-                }
-            } else {
-                // No header.
-                // Rule: "if below sections do not have [headers], then below sections will be childs"
-                // Logic: If we have seen a header at level L, this "body" section becomes L + 1.
-                // If we haven't seen any header yet, it stays at level 1.
-                if (lastHeaderLevel > 0) {
-                    level = lastHeaderLevel + 1;
-                } else {
-                    level = 1;
-                }
-
-                // Try to get a label from first text block or use ID
-                const idLabel = section.getAttribute('data-section-id') || section.id;
-                if (idLabel && idLabel.length < 20) {
-                    label = idLabel;
-                } else {
-                    // Fallback to truncated content
-                    const text = section.textContent?.trim();
-                    if (text) {
-                        label = text.substring(0, 20) + (text.length > 20 ? "..." : "");
-                    }
-                }
-            }
-
-            // Generate stable ID
-            let nodeId = section.getAttribute('data-section-id') || section.id;
-            if (!nodeId) {
-                if (section.hasAttribute('data-hierarchy-temp-id')) {
-                    nodeId = section.getAttribute('data-hierarchy-temp-id')!;
-                } else {
-                    nodeId = `sec-${Math.random().toString(36).substr(2, 9)}`;
-                    section.setAttribute('data-hierarchy-temp-id', nodeId);
-                }
-            }
-
-            flatNodes.push({
-                id: nodeId,
-                type: "section",
-                sectionId: section.getAttribute('data-section-id') || undefined,
-                label: label,
-                children: [],
-                depth: 0, // Will be fixed during tree build
-                level: level
-            });
-        });
+// Loaded lazily so the module strategy does not pull in the component registry
+const loadOutline = () => import('@/lib/lesson-outline');
 
-        // 2. Build Tree from Flat List
-        const rootNodes: HierarchyNode[] = [];
-        const stack: FlatNode[] = []; // Stack tracks the current parent chain
+interface OutlineRefresh {
+    /** null before the first report */
+    changes: HierarchyChange[] | null;
+    /** Revision the changes apply to */
+    baseRevision: number;
+    outline: HierarchyNode[];
+    revision: number;
+}
 
-        flatNodes.forEach(node => {
-            // Pop stack until we find the correct parent level
-            // A node of level L should be a child of the closest node in stack with level < L
-            while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
-                stack.pop();
-            }
+// Bring the reported outline up to date. Everything is captured together, after the
+// await, so overlapping reports each get the revision their own changes apply to.
+const refreshOutline = async (): Promise<OutlineRefresh> => {
+    const { buildLessonOutline, diffLessonOutline } = await loadOutline();
+    const next = buildLessonOutline(useLessonTreeStore.getState().sections);
+    const changes = reported.sent ? diffLessonOutline(reported.outline, next) : null;
+    const baseRevision = reported.revision;
+
+    if (!reported.sent || changes.length > 0) {
+        reported.outline = next;
+        reported.revision += 1;
+        reported.sent = true;
+    }
+    return { changes, baseRevision, outline: reported.outline, revision: reported.revision };
+};
 
-            if (stack.length === 0) {
-                // No parent found, add to root
-                node.depth = 1;
-                rootNodes.push(node);
-            } else {
-                // Parent found
-                const parent = stack[stack.length - 1];
-                node.depth = parent.depth + 1;
-                parent.children.push(node);
-            }
+// Send the changes since the last report (the full outline the first time)
+const reportHierarchy = async () => {
+    const { changes, baseRevision, outline, revision } = await refreshOutline();
 
-            // Push current node to stack as potential parent for next nodes
-            stack.push(node);
-        });
+    if (changes === null) {
+        sendToHost({ type: 'hierarchy-update', hierarchy: outline, revision });
+    } else if (changes.length > 0) {
+        sendToHost({ type: 'hierarchy-diff', baseRevision, revision, changes });
+    }
+};
 
-        // Send update
-        window.parent.postMessage({
-            type: 'hierarchy-update',
-            hierarchy: rootNodes
-        }, '*');
-    };
+// Blocks render data-block-id; legacy Sections render data-section-id
+const findSectionElement = (sectionId: string): Element | null => {
+    const id = CSS.escape(sectionId);
+    return document.querySelector(`[data-block-id="${id}"], [data-section-id="${id}"]`);
+};
 
-    // Auto-report on load and mutation
+export const HierarchyReporter = () => {
+    // Report whenever the lesson's sections change
     useEffect(() => {
-        // Initial report
-        setTimeout(reportHierarchy, 500);
-        setTimeout(reportHierarchy, 1500); // Retry to catch async content
-
-        // Observer for DOM changes
-        const observer = new MutationObserver(() => {
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        const scheduleReport = () => {
             // Debounce reporting
-            const timeoutId = setTimeout(reportHierarchy, 200);
-            return () => clearTimeout(timeoutId);
-        });
+            clearTimeout(timeoutId);
+            timeoutId = setTimeout(reportHierarchy, 200);
+        };
 
-        observer.observe(document.body, {
-            childList: true,
-            subtree: true
+        scheduleReport();
+        const unsubscribe = useLessonTreeStore.subscribe((state, previous) => {
+            if (state.sections !== previous.sections) scheduleReport();
         });
 
-        return () => observer.disconnect();
+        return () => {
+            clearTimeout(timeoutId);
+            unsubscribe();
+        };
     }, []);
 
     // Listen for requests from parent
     useEffect(() => {
-        const handleMessage = (event: MessageEvent) => {
-            if (!event.data) return;
-
-            if (event.data.type === 'request-hierarchy') {
-                reportHierarchy();
-            }
-
-            if (event.data.type === 'scroll-to-section') {
-                const { sectionId } = event.data;
-
-                // 1. Clear previous selection
-                document.querySelectorAll('[data-hierarchy-selected="true"]').forEach(el => {
-                    // Restore original style
-                    (el as HTMLElement).style.outline = (el as HTMLElement).dataset.originalOutline || "";
-                    (el as HTMLElement).style.outlineOffset = (el as HTMLElement).dataset.originalOffset || "";
-
-                    // Clean up data attributes
-                    delete (el as HTMLElement).dataset.originalOutline;
-                    delete (el as HTMLElement).dataset.originalOffset;
-                    el.removeAttribute('data-hierarchy-selected');
-                });
-
-                if (sectionId) {
-                    const el = document.querySelector(`[data-section-id="${sectionId}"]`);
-                    if (el) {
-                        el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        const scrollToSection = (sectionId?: string) => {
+            // 1. Clear previous selection
+            document.querySelectorAll('[data-hierarchy-selected="true"]').forEach(el => {
+                // Restore original style
+                (el as HTMLElement).style.outline = (el as HTMLElement).dataset.originalOutline || "";
+                (el as HTMLElement).style.outlineOffset = (el as HTMLElement).dataset.originalOffset || "";
+
+                // Clean up data attributes
+                delete (el as HTMLElement).dataset.originalOutline;
+                delete (el as HTMLElement).dataset.originalOffset;
+                el.removeAttribute('data-hierarchy-selected');
+            });
 
-                        const htmlEl = el as HTMLElement;
+            if (sectionId) {
+                const el = findSectionElement(sectionId);
+                if (el) {
+                    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
 
-                        // Check current style before saving it
-                        const currentOutline = htmlEl.style.outline;
-                        const isOurHighlight = currentOutline.includes('#14B8A6') || currentOutline.includes('dashed'); // Hover style
+                    const htmlEl = el as HTMLElement;
 
-                        // Save original styles if not already saved
-                        if (!htmlEl.dataset.originalOutline) {
-                            // If the current outline is OUR highlight, don't save it! Save empty or previous.
-                            if (isOurHighlight) {
-                                htmlEl.dataset.originalOutline = "";
-                            } else {
-                                htmlEl.dataset.originalOutline = currentOutline;
-                            }
+                    // Check current style before saving it
+                    const currentOutline = htmlEl.style.outline;
+                    const isOurHighlight = currentOutline.includes('#14B8A6') || currentOutline.includes('dashed'); // Hover style
 
-                            htmlEl.dataset.originalOffset = htmlEl.style.outlineOffset;
+                    // Save original styles if not already saved
+                    if (!htmlEl.dataset.originalOutline) {
+                        // If the current outline is OUR highlight, don't save it! Save empty or previous.
+                        if (isOurHighlight) {
+                            htmlEl.dataset.originalOutline = "";
+                        } else {
+                            htmlEl.dataset.originalOutline = currentOutline;
                         }
 
-                        // Apply Selection Style (Solid)
-                        htmlEl.style.outline = "3px solid #0D7377";
-                        htmlEl.style.outlineOffset = "4px";
-                        htmlEl.setAttribute('data-hierarchy-selected', 'true');
-
-                        // Also remove highlight attribute if present to keep state clean
-                        htmlEl.removeAttribute('data-hierarchy-highlight');
+                        htmlEl.dataset.originalOffset = htmlEl.style.outlineOffset;
                     }
+
+                    // Apply Selection Style (Solid)
+                    htmlEl.style.outline = "3px solid #0D7377";
+                    htmlEl.style.outlineOffset = "4px";
+                    htmlEl.setAttribute('data-hierarchy-selected', 'true');
+
+                    // Also remove highlight attribute if present to keep state clean
+                    htmlEl.removeAttribute('data-hierarchy-highlight');
                 }
             }
+        };
 
-            if (event.data.type === 'highlight-section') {
-                const { sectionId, isHovering } = event.data;
-
-                // Remove existing highlights
-                document.querySelectorAll('[data-hierarchy-highlight]').forEach(el => {
-                    // Only clear style if it's NOT selected (Selection wins)
-                    if (!el.hasAttribute('data-hierarchy-selected')) {
-                        (el as HTMLElement).style.outline = "";
-                        (el as HTMLElement).style.outlineOffset = "";
-                    }
-                    el.removeAttribute('data-hierarchy-highlight');
-                });
+        const highlightSection = (sectionId: string | undefined, isHovering: boolean) => {
+            // Remove existing highlights
+            document.querySelectorAll('[data-hierarchy-highlight]').forEach(el => {
+                // Only clear style if it's NOT selected (Selection wins)
+                if (!el.hasAttribute('data-hierarchy-selected')) {
+                    (el as HTMLElement).style.outline = "";
+                    (el as HTMLElement).style.outlineOffset = "";
+                }
+                el.removeAttribute('data-hierarchy-highlight');
+            });
 
-                if (isHovering && sectionId) {
-                    const el = document.querySelector(`[data-section-id="${sectionId}"]`);
-                    // Apply highlight only if not already selected
-                    if (el && !el.hasAttribute('data-hierarchy-selected')) {
-                        (el as HTMLElement).style.outline = "2px dashed #14B8A6";
-                        (el as HTMLElement).style.outlineOffset = "2px";
-                        el.setAttribute('data-hierarchy-highlight', 'true');
-                    }
+            if (isHovering && sectionId) {
+                const el = findSectionElement(sectionId);
+                // Apply highlight only if not already selected
+                if (el && !el.hasAttribute('data-hierarchy-selected')) {
+                    (el as HTMLElement).style.outline = "2px dashed #14B8A6";
+                    (el as HTMLElement).style.outlineOffset = "2px";
+                    el.setAttribute('data-hierarchy-highlight', 'true');
                 }
             }
         };
 
-        window.addEventListener('message', handleMessage);
+        const unsubscribers = [
+            // A full outline lets the host resync when it misses a diff
+            onHostMessage('request-hierarchy', async () => {
+                const { outline, revision } = await refreshOutline();
+                return { type: 'hierarchy-update', hierarchy: outline, revision };
+            }),
+            onHostMessage('scroll-to-section', (message) => scrollToSection(message.sectionId)),
+            onHostMessage('highlight-section', (message) => highlightSection(message.sectionId, message.isHovering)),
+        ];
 
         // Global click listener to handle deselecting when clicking outside
         const handleGlobalClick = (event: MouseEvent) => {
             const target = event.target as HTMLElement;
             // Check if click was inside a traceable section
-            const wasInSection = target.closest('section, [data-section-id]');
+            const wasInSection = target.closest('section, [data-section-id], [data-block-id]');
 
             if (!wasInSection) {
                 // Clicked outside -> Clear selection
@@ -252,16 +175,14 @@ export const HierarchyReporter = () => {
                 });
 
                 // 2. Notify parent
-                window.parent.postMessage({
-                    type: 'selection-cleared'
-                }, '*');
+                sendToHost({ type: 'selection-cleared' });
             }
         };
 
         window.addEventListener('click', handleGlobalClick);
 
         return () => {
-            window.removeEventListener('message', handleMessage);
+            unsubscribers.forEach(unsubscribe => unsubscribe());
             window.removeEventListener('click', handleGlobalClick);
         };
     }, []);
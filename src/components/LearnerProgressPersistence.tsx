@@ -0,0 +1,158 @@
+import { useEffect } from 'react';
+import { useLearnerProgressStore, useLessonTreeStore, useVariableStore, type VarValue } from '@/stores';
+import { getLessonStorageId } from '@/lib/edit-persistence';
+import {
+    loadLearnerProgress,
+    saveLearnerProgress,
+    PROGRESS_VERSION,
+    type LearnerProgress,
+} from '@/lib/learner-progress';
+import { getUrlVariableNames } from '@/lib/variable-url';
+
+const SAVE_DELAY_MS = 500;
+
+const getScrollContainer = () => document.querySelector<HTMLElement>('[data-lesson-scroll-container]');
+
+// The first block still visible at the top of the lesson
+const findActiveSection = (container: HTMLElement): string | undefined => {
+    const top = container.getBoundingClientRect().top;
+    const blocks = Array.from(container.querySelectorAll<HTMLElement>('[data-block-id]'));
+    return blocks.find(block => block.getBoundingClientRect().bottom > top + 1)?.dataset.blockId;
+};
+
+const collectProgress = (lessonId: string): LearnerProgress => {
+    const { variables, definitions } = useVariableStore.getState();
+    const container = getScrollContainer();
+
+    // Derived values are recomputed from their inputs
+    const values: Record<string, VarValue> = {};
+    for (const [name, value] of Object.entries(variables)) {
+        if (!definitions[name]?.derive) values[name] = value;
+    }
+
+    return {
+        version: PROGRESS_VERSION,
+        lessonId,
+        variables: values,
+        answers: useLearnerProgressStore.getState().answers,
+        activeSection: container ? findActiveSection(container) : undefined,
+        scrollTop: container?.scrollTop,
+        updatedAt: Date.now(),
+    };
+};
+
+const whenVariablesInitialized = (): Promise<void> => new Promise(resolve => {
+    if (useVariableStore.getState().initialized) {
+        resolve();
+        return;
+    }
+    const unsubscribe = useVariableStore.subscribe(state => {
+        if (!state.initialized) return;
+        unsubscribe();
+        resolve();
+    });
+});
+
+// Resolves once the lesson's blocks are on screen
+const whenSectionsRendered = (): Promise<void> => new Promise(resolve => {
+    const settle = () => requestAnimationFrame(() => resolve());
+    if (useLessonTreeStore.getState().sections.length > 0) {
+        settle();
+        return;
+    }
+    const unsubscribe = useLessonTreeStore.subscribe(state => {
+        if (state.sections.length === 0) return;
+        unsubscribe();
+        settle();
+    });
+});
+
+const restoreVariables = (progress: LearnerProgress) => {
+    const { definitions, setVariables } = useVariableStore.getState();
+    // A shared link wins over what was saved
+    const fromUrl = new Set(getUrlVariableNames(definitions));
+
+    const values: Record<string, VarValue> = {};
+    for (const [name, value] of Object.entries(progress.variables ?? {})) {
+        if (definitions[name] && !definitions[name].derive && !fromUrl.has(name)) values[name] = value;
+    }
+    if (Object.keys(values).length > 0) setVariables(values);
+};
+
+const restoreScroll = (progress: LearnerProgress) => {
+    const container = getScrollContainer();
+    if (!container) return;
+
+    if (progress.scrollTop !== undefined) container.scrollTop = progress.scrollTop;
+
+    // If the lesson changed since, find the block the learner was reading instead
+    if (progress.activeSection && findActiveSection(container) !== progress.activeSection) {
+        container
+            .querySelector(`[data-block-id="${CSS.escape(progress.activeSection)}"]`)
+            ?.scrollIntoView({ block: 'start' });
+    }
+};
+
+/**
+ * Saves learner progress (see `@/lib/learner-progress`) and restores it when
+ * the lesson is opened again. Rendered by `LessonView` in preview mode.
+ */
+export const LearnerProgressPersistence = () => {
+    useEffect(() => {
+        const lessonId = getLessonStorageId();
+        let cancelled = false;
+        let restored = false;
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+        const saveNow = () => {
+            clearTimeout(timeoutId);
+            if (restored) saveLearnerProgress(collectProgress(lessonId));
+        };
+        const scheduleSave = () => {
+            // Nothing is saved until the stored progress has been applied
+            if (!restored) return;
+            clearTimeout(timeoutId);
+            timeoutId = setTimeout(saveNow, SAVE_DELAY_MS);
+        };
+
+        (async () => {
+            const progress = await loadLearnerProgress(lessonId);
+            if (cancelled) return;
+
+            if (progress) {
+                useLearnerProgressStore.getState().restoreAnswers(progress.answers ?? {});
+                await whenVariablesInitialized();
+                if (cancelled) return;
+                restoreVariables(progress);
+                await whenSectionsRendered();
+                if (cancelled) return;
+                restoreScroll(progress);
+            }
+            restored = true;
+        })();
+
+        const unsubscribeVariables = useVariableStore.subscribe((state, previous) => {
+            if (state.variables !== previous.variables) scheduleSave();
+        });
+        const unsubscribeAnswers = useLearnerProgressStore.subscribe((state, previous) => {
+            if (state.answers !== previous.answers) scheduleSave();
+        });
+        const handleScroll = (event: Event) => {
+            if (event.target === getScrollContainer()) scheduleSave();
+        };
+        // Scroll events don't bubble; capture them from the lesson's scroll container
+        document.addEventListener('scroll', handleScroll, true);
+        window.addEventListener('pagehide', saveNow);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timeoutId);
+            unsubscribeVariables();
+            unsubscribeAnswers();
+            document.removeEventListener('scroll', handleScroll, true);
+            window.removeEventListener('pagehide', saveNow);
+        };
+    }, []);
+
+    return null;
+};
@@ -0,0 +1,87 @@
+import { useEffect } from 'react';
+import { useVariableStore } from '@/stores';
+import { getLessonStorageId } from '@/lib/edit-persistence';
+import {
+    combineTransports,
+    createBroadcastChannelTransport,
+    createWebSocketTransport,
+    getVariableSyncConfig,
+    startVariableSync,
+    type VariableSyncTransport,
+} from '@/lib/variable-sync';
+
+// Relay URLs may be relative to the page (e.g. `/__variable-sync`)
+const getRelaySocketUrl = (relayUrl: string, room: string): string => {
+    const url = new URL(relayUrl, window.location.href);
+    if (url.protocol === 'http:') url.protocol = 'ws:';
+    if (url.protocol === 'https:') url.protocol = 'wss:';
+    url.searchParams.set('room', room);
+    return url.toString();
+};
+
+/**
+ * Syncs variables with a presenter when the page is opened with
+ * `?sync=presenter` or `?sync=follower` (see `@/lib/variable-sync`).
+ * Starts once the variables are initialized.
+ */
+export const VariableSyncConnection = () => {
+    useEffect(() => {
+        const config = getVariableSyncConfig();
+        if (!config) return;
+
+        const room = getLessonStorageId();
+        let stopSync: (() => void) | undefined;
+
+        const start = () => {
+            const transports: VariableSyncTransport[] = [];
+            if (typeof BroadcastChannel !== 'undefined') {
+                transports.push(createBroadcastChannelTransport(`mathvibe-variables:${room}`));
+            }
+            if (config.relayUrl) {
+                try {
+                    transports.push(createWebSocketTransport(getRelaySocketUrl(config.relayUrl, room)));
+                } catch (error) {
+                    console.warn(`Variable sync: ignoring relay "${config.relayUrl}", syncing between tabs only`, error);
+                }
+            }
+            if (transports.length === 0) {
+                console.warn('Variable sync: no transport available');
+                return;
+            }
+
+            const sync = startVariableSync({ transport: combineTransports(...transports), role: config.role });
+
+            // Variables defined later (JSON lessons, scopes) need the presenter's values too
+            let snapshotTimeoutId: ReturnType<typeof setTimeout> | undefined;
+            const unsubscribe = useVariableStore.subscribe((state, previous) => {
+                if (state.definitions === previous.definitions) return;
+                clearTimeout(snapshotTimeoutId);
+                snapshotTimeoutId = setTimeout(sync.requestSnapshot, 200);
+            });
+
+            stopSync = () => {
+                clearTimeout(snapshotTimeoutId);
+                unsubscribe();
+                sync.stop();
+            };
+        };
+
+        if (useVariableStore.getState().initialized) {
+            start();
+            return () => stopSync?.();
+        }
+
+        const unsubscribeInit = useVariableStore.subscribe((state) => {
+            if (!state.initialized) return;
+            unsubscribeInit();
+            start();
+        });
+
+        return () => {
+            unsubscribeInit();
+            stopSync?.();
+        };
+    }, []);
+
+    return null;
+};
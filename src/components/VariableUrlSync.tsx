@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useVariableStore } from '@/stores';
+import { readVariablesFromParams, writeVariablesToParams } from '@/lib/variable-url';
+
+// Apply URL values for variables that are defined by now; the rest wait for their definitions
+const applyUrlValues = (pending: URLSearchParams) => {
+    const { initialized, definitions, setVariables } = useVariableStore.getState();
+    if (!initialized) return;
+
+    const values = readVariablesFromParams(pending, definitions);
+    Object.keys(definitions).forEach(name => pending.delete(name));
+    if (Object.keys(values).length > 0) setVariables(values);
+};
+
+/**
+ * Keeps `shareable` variables in sync with the URL (see `@/lib/variable-url`).
+ * Must be rendered inside the router.
+ */
+export const VariableUrlSync = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const pendingRef = useRef(new URLSearchParams());
+    const writtenRef = useRef<string | null>(null);
+
+    // URL → store: on load, and when the URL is changed from outside (e.g. a pasted link)
+    useEffect(() => {
+        if (searchParams.toString() === writtenRef.current) return;
+        pendingRef.current = new URLSearchParams(searchParams);
+        applyUrlValues(pendingRef.current);
+    }, [searchParams]);
+
+    // Store → URL, debounced so dragging a slider doesn't flood the history
+    useEffect(() => {
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+        const unsubscribe = useVariableStore.subscribe((state, previous) => {
+            // Variables loaded after the URL was read (e.g. from a JSON lesson)
+            if (state.definitions !== previous.definitions) applyUrlValues(pendingRef.current);
+            if (state.variables === previous.variables || !state.initialized) return;
+
+            clearTimeout(timeoutId);
+            timeoutId = setTimeout(() => {
+                const { variables, definitions } = useVariableStore.getState();
+                setSearchParams(current => {
+                    const next = writeVariablesToParams(current, variables, definitions);
+                    writtenRef.current = next.toString();
+                    return next;
+                }, { replace: true });
+            }, 300);
+        });
+
+        return () => {
+            clearTimeout(timeoutId);
+            unsubscribe();
+        };
+    }, [setSearchParams]);
+
+    return null;
+};
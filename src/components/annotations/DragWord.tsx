@@ -0,0 +1,151 @@
+import { useState, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { GripVertical } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useDragWordContext } from './drag-words';
+import type { DragWordProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+// Pointer travel (px) before a press becomes a drag instead of a click
+const DRAG_THRESHOLD = 4;
+
+const zoneAt = (x: number, y: number): string | null =>
+    document.elementFromPoint(x, y)?.closest('[data-drop-zone]')?.getAttribute('data-drop-zone') ?? null;
+
+/**
+ * DragWord - A word from the word bank that learners drop into a DropZone.
+ * Category: Draggable | Visual: Dashed chip
+ *
+ * Drag it with a mouse, finger or pen, or pick it up with a click (or Enter /
+ * Space) and then click the zone (or focus it and press Enter / Space).
+ * Escape puts a picked-up word down. Must be inside a DragWordProvider.
+ */
+export const DragWord: React.FC<DragWordProps> = ({
+    id,
+    dragId,
+    children,
+    dropZones,
+    color = ANNOTATION_COLORS.draggable.primary,
+    onDrop,
+    className,
+}) => {
+    const ctx = useDragWordContext();
+    const [dragPosition, setDragPosition] = useState<{ x: number; y: number } | null>(null);
+    const pressRef = useRef<{ x: number; y: number; dragging: boolean } | null>(null);
+
+    // Zones show the word's content once it is placed
+    useEffect(() => {
+        if (!ctx) return;
+        const words = ctx.words.current;
+        words[dragId] = { content: children, dropZones, onDrop };
+        return () => {
+            delete words[dragId];
+        };
+    });
+
+    useEffect(() => {
+        if (!ctx) console.warn(`DragWord "${dragId}" must be inside a DragWordProvider`);
+    }, [ctx, dragId]);
+
+    if (!ctx) return <span className={className}>{children}</span>;
+
+    const isPlaced = Object.values(ctx.placements).includes(dragId);
+    const isPicked = ctx.picked === dragId;
+
+    // Placed words are shown by their zone
+    if (isPlaced) return null;
+
+    const togglePicked = () => ctx.setPicked(isPicked ? null : dragId);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLSpanElement>) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pressRef.current = { x: e.clientX, y: e.clientY, dragging: false };
+        e.preventDefault();
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLSpanElement>) => {
+        const press = pressRef.current;
+        if (!press) return;
+        if (!press.dragging && Math.hypot(e.clientX - press.x, e.clientY - press.y) < DRAG_THRESHOLD) return;
+
+        press.dragging = true;
+        setDragPosition({ x: e.clientX, y: e.clientY });
+        ctx.setHoverZone(zoneAt(e.clientX, e.clientY));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLSpanElement>) => {
+        const press = pressRef.current;
+        if (!press) return;
+        pressRef.current = null;
+
+        if (press.dragging) {
+            const zoneId = zoneAt(e.clientX, e.clientY);
+            if (zoneId) ctx.place(dragId, zoneId);
+            setDragPosition(null);
+            ctx.setHoverZone(null);
+        } else {
+            togglePicked();
+        }
+    };
+
+    const handlePointerCancel = () => {
+        pressRef.current = null;
+        setDragPosition(null);
+        ctx.setHoverZone(null);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            togglePicked();
+        }
+    };
+
+    return (
+        <>
+            <span
+                id={id}
+                role="button"
+                tabIndex={0}
+                aria-pressed={isPicked}
+                aria-label={isPicked ? `${typeof children === 'string' ? children : dragId}, picked up. Choose a drop zone.` : undefined}
+                className={cn('annotation-dragword', isPicked && 'picked', className)}
+                style={{
+                    color,
+                    borderColor: color,
+                    opacity: dragPosition ? 0.4 : 1,
+                    touchAction: 'none',
+                }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerCancel}
+                onKeyDown={handleKeyDown}
+            >
+                <GripVertical size={12} className="annotation-dragword__handle" />
+                {children}
+            </span>
+
+            {dragPosition && createPortal(
+                <span
+                    className="annotation-dragword dragging"
+                    style={{
+                        position: 'fixed',
+                        left: dragPosition.x,
+                        top: dragPosition.y,
+                        transform: 'translate(-50%, -50%) scale(1.05)',
+                        pointerEvents: 'none',
+                        color,
+                        borderColor: color,
+                    }}
+                >
+                    {children}
+                </span>,
+                document.body
+            )}
+        </>
+    );
+};
+
+export default DragWord;
@@ -0,0 +1,148 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLearnerProgressStore, useSavedAnswer } from '@/stores';
+import { DragWordContext, isZoneCorrect, useDragWords, type DragWordEntry, type DropZoneEntry } from './drag-words';
+import type { DragWordProviderProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+const isPlacements = (value: unknown): value is Record<string, string> =>
+    !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(dragId => typeof dragId === 'string');
+
+/**
+ * DragWordProvider - Groups DragWords and the DropZones they can be dropped in.
+ *
+ * Words stay in their place (the word bank) until they are dropped in a zone;
+ * each word fits in one zone at a time. With an `id` the placements are kept
+ * with the learner's answers.
+ *
+ * @example
+ * ```tsx
+ * <DragWordProvider id="cloze-triangle" onChange={(placements, isCorrect) => ...}>
+ *   <p>
+ *     A triangle with three equal sides is{' '}
+ *     <DropZone zoneId="sides" correctAnswer="equilateral" />.
+ *   </p>
+ *   <div className="flex gap-2">
+ *     <DragWord dragId="equilateral">equilateral</DragWord>
+ *     <DragWord dragId="isosceles">isosceles</DragWord>
+ *   </div>
+ * </DragWordProvider>
+ * ```
+ */
+export const DragWordProvider: React.FC<DragWordProviderProps> = ({ id, children, onChange }) => {
+    const [placements, setPlacements] = useState<Record<string, string>>({});
+    const [picked, setPicked] = useState<string | null>(null);
+    const [hoverZone, setHoverZone] = useState<string | null>(null);
+    const [zoneIds, setZoneIds] = useState<string[]>([]);
+    const words = useRef<Record<string, DragWordEntry>>({});
+    const zones = useRef<Record<string, DropZoneEntry>>({});
+
+    // Restore saved placements (and follow resets)
+    useSavedAnswer(id, (saved) => {
+        setPlacements(isPlacements(saved?.value) ? saved.value : {});
+    });
+
+    // Escape puts a picked-up word down
+    useEffect(() => {
+        if (picked === null) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setPicked(null);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [picked]);
+
+    const registerZone = useCallback((zoneId: string) => {
+        setZoneIds(prev => [...prev, zoneId]);
+        return () => setZoneIds(prev => prev.filter(existing => existing !== zoneId));
+    }, []);
+
+    const checkAll = (next: Record<string, string>) =>
+        zoneIds.length > 0 && zoneIds.every(zoneId => isZoneCorrect(zones.current[zoneId], next[zoneId]));
+
+    const commit = (next: Record<string, string>) => {
+        const correct = checkAll(next);
+        setPlacements(next);
+
+        if (id) {
+            if (Object.keys(next).length > 0) useLearnerProgressStore.getState().setAnswer(id, next, correct);
+            else useLearnerProgressStore.getState().clearAnswer(id);
+        }
+
+        for (const zoneId of new Set([...Object.keys(placements), ...Object.keys(next)])) {
+            if (placements[zoneId] === next[zoneId]) continue;
+            zones.current[zoneId]?.onChange?.(next[zoneId] ?? null, isZoneCorrect(zones.current[zoneId], next[zoneId]));
+        }
+        onChange?.(next, correct);
+    };
+
+    const place = (dragId: string, zoneId: string): boolean => {
+        const word = words.current[dragId];
+        if (!word || !zones.current[zoneId]) return false;
+        if (word.dropZones && !word.dropZones.includes(zoneId)) return false;
+
+        // The word leaves its previous zone; a word already in the target goes back to the bank
+        const next = Object.fromEntries(Object.entries(placements).filter(([, placed]) => placed !== dragId));
+        next[zoneId] = dragId;
+        commit(next);
+        setPicked(null);
+        word.onDrop?.(zoneId);
+        return true;
+    };
+
+    const remove = (zoneId: string) => {
+        if (!(zoneId in placements)) return;
+        const next = { ...placements };
+        delete next[zoneId];
+        commit(next);
+    };
+
+    const reset = () => {
+        setPicked(null);
+        commit({});
+    };
+
+    return (
+        <DragWordContext.Provider
+            value={{
+                placements,
+                picked,
+                setPicked,
+                hoverZone,
+                setHoverZone,
+                words,
+                zones,
+                registerZone,
+                place,
+                remove,
+                reset,
+                isCorrect: checkAll(placements),
+            }}
+        >
+            {children}
+        </DragWordContext.Provider>
+    );
+};
+
+/**
+ * DragWordReset - Sends every word of the surrounding DragWordProvider back to the word bank.
+ */
+export const DragWordReset: React.FC<{ className?: string; label?: string }> = ({ className, label = 'Reset' }) => {
+    const { placements, reset } = useDragWords();
+    const isEmpty = Object.keys(placements).length === 0;
+
+    return (
+        <button
+            onClick={reset}
+            disabled={isEmpty}
+            className={cn('inline-flex items-center gap-1 rounded px-2 py-0.5 text-sm font-medium hover:opacity-80 disabled:opacity-40', className)}
+            style={{ color: ANNOTATION_COLORS.draggable.primary, background: ANNOTATION_COLORS.draggable.bg }}
+        >
+            <RotateCcw size={12} /> {label}
+        </button>
+    );
+};
+
+export default DragWordProvider;
@@ -0,0 +1,108 @@
+import { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { isZoneCorrect, useDragWordContext } from './drag-words';
+import type { DropZoneProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+/**
+ * DropZone - A blank in a sentence (or a spot on a diagram) to drop a DragWord into.
+ * Category: Draggable | Visual: Dashed box, green or red once filled
+ *
+ * Click a filled zone (or press Enter / Space) to pick its word up again;
+ * the × button, Delete or Backspace sends it back to the word bank.
+ * Must be inside a DragWordProvider.
+ */
+export const DropZone: React.FC<DropZoneProps> = ({
+    id,
+    zoneId,
+    correctAnswer,
+    placeholder,
+    showFeedback = true,
+    color = ANNOTATION_COLORS.draggable.primary,
+    onChange,
+    className,
+}) => {
+    const ctx = useDragWordContext();
+    const registerZone = ctx?.registerZone;
+
+    useEffect(() => {
+        if (!ctx) return;
+        const zones = ctx.zones.current;
+        zones[zoneId] = { correctAnswer, onChange };
+        return () => {
+            delete zones[zoneId];
+        };
+    });
+
+    useEffect(() => {
+        if (!registerZone) {
+            console.warn(`DropZone "${zoneId}" must be inside a DragWordProvider`);
+            return;
+        }
+        return registerZone(zoneId);
+    }, [registerZone, zoneId]);
+
+    if (!ctx) return <span className={cn('annotation-dropzone', className)}>{placeholder ?? ' '}</span>;
+
+    const dragId = ctx.placements[zoneId];
+    const word = dragId ? ctx.words.current[dragId] : undefined;
+    const isCorrect = isZoneCorrect({ correctAnswer }, dragId);
+    const isTarget = ctx.hoverZone === zoneId || (ctx.picked !== null && ctx.picked !== dragId);
+
+    const activate = () => {
+        if (ctx.picked) ctx.place(ctx.picked, zoneId);
+        else if (dragId) ctx.setPicked(dragId);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            activate();
+        } else if ((e.key === 'Delete' || e.key === 'Backspace') && dragId) {
+            e.preventDefault();
+            ctx.remove(zoneId);
+        }
+    };
+
+    return (
+        <span
+            id={id}
+            role="button"
+            tabIndex={0}
+            data-drop-zone={zoneId}
+            aria-label={dragId ? undefined : `Drop zone${placeholder ? ` ${placeholder}` : ''}`}
+            className={cn(
+                'annotation-dropzone',
+                isTarget && 'active',
+                dragId && (showFeedback ? (isCorrect ? 'filled' : 'incorrect') : 'occupied'),
+                ctx.picked === dragId && dragId && 'picked',
+                className
+            )}
+            style={dragId ? undefined : { borderColor: color }}
+            onClick={activate}
+            onKeyDown={handleKeyDown}
+        >
+            {dragId ? (
+                <>
+                    <span>{word?.content ?? dragId}</span>
+                    <button
+                        className="annotation-clear-button"
+                        aria-label="Send back to the word bank"
+                        tabIndex={-1}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            ctx.remove(zoneId);
+                        }}
+                    >
+                        <X size={12} />
+                    </button>
+                </>
+            ) : (
+                <span style={{ color }}>{placeholder ?? ' '}</span>
+            )}
+        </span>
+    );
+};
+
+export default DropZone;
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useLearnerProgressStore, useSavedAnswer } from '@/stores';
 import type { FillBlankProps } from './types';
 import { ANNOTATION_COLORS } from './types';
 
@@ -24,6 +25,13 @@ export const FillBlank: React.FC<FillBlankProps> = ({
     const [isCorrect, setIsCorrect] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
 
+    // Restore a saved answer (and follow resets)
+    useSavedAnswer(id, (saved) => {
+        setInputValue(saved ? String(saved.value) : '');
+        setIsChecked(!!saved);
+        setIsCorrect(saved?.correct ?? false);
+    });
+
     useEffect(() => {
         if (isEditing && inputRef.current) inputRef.current.focus();
     }, [isEditing]);
@@ -41,6 +49,7 @@ export const FillBlank: React.FC<FillBlankProps> = ({
             setIsCorrect(true);
             setIsChecked(true);
             setIsEditing(false);
+            if (id) useLearnerProgressStore.getState().setAnswer(id, val, true);
             onChange?.(val, true);
         }
     };
@@ -51,6 +60,7 @@ export const FillBlank: React.FC<FillBlankProps> = ({
             setIsCorrect(correct);
             setIsChecked(true);
             setIsEditing(false);
+            if (id) useLearnerProgressStore.getState().setAnswer(id, inputValue, correct);
             onChange?.(inputValue, correct);
         } else if (e.key === 'Escape') {
             setIsEditing(false);
@@ -63,6 +73,7 @@ export const FillBlank: React.FC<FillBlankProps> = ({
         setIsChecked(false);
         setIsCorrect(false);
         setIsEditing(false);
+        if (id) useLearnerProgressStore.getState().clearAnswer(id);
     };
 
     // Correct state 
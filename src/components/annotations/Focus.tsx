@@ -0,0 +1,219 @@
+import { useState, useRef, useEffect, useId } from 'react';
+import { createPortal } from 'react-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { FOCUS_TRANSITION_MS, useFocusStore } from '@/stores';
+import type { FocusProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+// Space between the target and the edge of the spotlight (px)
+const SPOTLIGHT_PADDING = 8;
+
+const resolveTarget = (target: FocusProps['target']): HTMLElement | null => {
+    if (typeof target !== 'string') return target.current;
+
+    const byId = document.querySelector<HTMLElement>(`[data-block-id="${CSS.escape(target)}"]`)
+        ?? document.getElementById(target);
+    if (byId) return byId;
+    try {
+        return document.querySelector<HTMLElement>(target);
+    } catch {
+        // Not a valid selector either
+        return null;
+    }
+};
+
+const isSameRect = (a: DOMRect | null, b: DOMRect) =>
+    !!a && a.left === b.left && a.top === b.top && a.width === b.width && a.height === b.height;
+
+/**
+ * Focus - Click (or hover) to bring a visual into focus.
+ * Category: Connective | Visual: Dashed underline
+ *
+ * Scrolls the target into view, dims the rest of the lesson and zooms into
+ * the target: ThreeCanvas moves its camera, Mafs plots narrow their viewBox,
+ * other elements are scaled. Everything eases back when the focus ends
+ * (click again, Escape, or click elsewhere).
+ *
+ * @example
+ * ```tsx
+ * Look at the <Focus target="unit-circle-plot" origin={{ x: 0.75, y: 0.25 }} zoomLevel={2}>
+ *   first quadrant
+ * </Focus> of the plot.
+ *
+ * Watch the <Focus target="atom-block" cameraTarget={[0, 0, 0]} zoomLevel={3}>nucleus</Focus>.
+ * ```
+ */
+export const Focus: React.FC<FocusProps> = ({
+    id,
+    children,
+    target,
+    zoomLevel = 1.5,
+    trigger = 'click',
+    origin,
+    dim = true,
+    cameraTarget,
+    cameraPosition,
+    viewBox,
+    color = ANNOTATION_COLORS.connective.primary,
+    bgColor = ANNOTATION_COLORS.connective.bg,
+    onFocusChange,
+    className,
+}) => {
+    const source = useId();
+    const ref = useRef<HTMLSpanElement>(null);
+    const focused = useFocusStore((state) => (state.active?.source === source ? state.active : null));
+    const [rect, setRect] = useState<DOMRect | null>(null);
+    const wasFocused = useRef(false);
+
+    const startFocus = () => {
+        const element = resolveTarget(target);
+        if (!element) {
+            console.warn(`Focus: target ${typeof target === 'string' ? `"${target}"` : 'ref'} not found`);
+            return;
+        }
+
+        const bounds = element.getBoundingClientRect();
+        if (bounds.top < 0 || bounds.bottom > window.innerHeight) {
+            element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+        useFocusStore.getState().setFocus({
+            source,
+            element,
+            zoomLevel,
+            origin: origin ?? { x: 0.5, y: 0.5 },
+            cameraTarget,
+            cameraPosition,
+            viewBox,
+        });
+    };
+
+    const endFocus = () => useFocusStore.getState().clearFocus(source);
+
+    const toggleFocus = () => (focused ? endFocus() : startFocus());
+
+    useEffect(() => {
+        const isFocused = focused !== null;
+        if (wasFocused.current === isFocused) return;
+        wasFocused.current = isFocused;
+        onFocusChange?.(isFocused);
+    }, [focused, onFocusChange]);
+
+    // The focus doesn't outlive the annotation
+    useEffect(() => () => useFocusStore.getState().clearFocus(source), [source]);
+
+    // Escape, or a click outside the annotation and its target, ends the focus
+    useEffect(() => {
+        if (!focused) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') useFocusStore.getState().clearFocus(source);
+        };
+        const handlePointerDown = (e: PointerEvent) => {
+            const clicked = e.target as Node;
+            if (ref.current?.contains(clicked) || focused.element.contains(clicked)) return;
+            useFocusStore.getState().clearFocus(source);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('pointerdown', handlePointerDown);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('pointerdown', handlePointerDown);
+        };
+    }, [focused, source]);
+
+    // Keep the spotlight on the target while it scrolls and zooms
+    useEffect(() => {
+        if (!focused || !dim) return;
+        let frame = requestAnimationFrame(function track() {
+            const next = focused.element.getBoundingClientRect();
+            setRect(prev => (isSameRect(prev, next) ? prev : next));
+            frame = requestAnimationFrame(track);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [focused, dim]);
+
+    // Plain DOM targets are scaled; visuals marked data-focus-zoom zoom themselves
+    useEffect(() => {
+        if (!focused || focused.zoomLevel === 1) return;
+        const element = focused.element;
+        if (element.matches('[data-focus-zoom]') || element.querySelector('[data-focus-zoom]')) return;
+
+        const previous = {
+            transform: element.style.transform,
+            transformOrigin: element.style.transformOrigin,
+            transition: element.style.transition,
+        };
+        element.style.transition = `transform ${FOCUS_TRANSITION_MS}ms ease`;
+        element.style.transformOrigin = `${focused.origin.x * 100}% ${focused.origin.y * 100}%`;
+        element.style.transform = `${previous.transform} scale(${focused.zoomLevel})`.trim();
+
+        return () => {
+            element.style.transform = previous.transform;
+            window.setTimeout(() => {
+                // Focused again in the meantime
+                if (element.style.transform !== previous.transform) return;
+                element.style.transformOrigin = previous.transformOrigin;
+                element.style.transition = previous.transition;
+            }, FOCUS_TRANSITION_MS);
+        };
+    }, [focused]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            toggleFocus();
+        }
+    };
+
+    const isHover = trigger === 'hover';
+
+    return (
+        <>
+            <span
+                ref={ref}
+                id={id}
+                role="button"
+                tabIndex={0}
+                aria-pressed={focused !== null}
+                className={cn('annotation annotation-focus', focused && 'active', className)}
+                style={{
+                    color,
+                    borderBottomColor: color,
+                    background: focused ? bgColor : undefined,
+                }}
+                onClick={isHover ? undefined : toggleFocus}
+                onMouseEnter={isHover ? startFocus : undefined}
+                onMouseLeave={isHover ? endFocus : undefined}
+                onFocus={isHover ? startFocus : undefined}
+                onBlur={isHover ? endFocus : undefined}
+                onKeyDown={handleKeyDown}
+            >
+                {children}
+            </span>
+
+            {dim && createPortal(
+                <AnimatePresence>
+                    {focused && rect && (
+                        <motion.div
+                            key="spotlight"
+                            className="annotation-focus-spotlight"
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            exit={{ opacity: 0 }}
+                            transition={{ duration: FOCUS_TRANSITION_MS / 1000 }}
+                            style={{
+                                left: rect.left - SPOTLIGHT_PADDING,
+                                top: rect.top - SPOTLIGHT_PADDING,
+                                width: rect.width + SPOTLIGHT_PADDING * 2,
+                                height: rect.height + SPOTLIGHT_PADDING * 2,
+                            }}
+                        />
+                    )}
+                </AnimatePresence>,
+                document.body
+            )}
+        </>
+    );
+};
+
+export default Focus;
@@ -0,0 +1,213 @@
+import { useState, useRef, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+import { useVar, useSetVar, useEnsureVariable } from '@/stores';
+import type { MovableProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+type Point = { x: number; y: number };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Snapped values are rounded so grids like 0.1 don't produce 0.30000000000000004
+const snapTo = (value: number, spacing: number | undefined): number =>
+    spacing && spacing > 0 ? Number((Math.round(value / spacing) * spacing).toFixed(10)) : value;
+
+/**
+ * Movable - A label or point learners drag over a visualization.
+ * Category: Draggable | Visual: Floating chip or dot
+ *
+ * Place it inside a positioned container (e.g. `relative`) that holds an
+ * image, a canvas or a plot. With `coordinates` the position is expressed in
+ * the plot's units; with `xVar` / `yVar` it is written to the variable store,
+ * so text and visuals reading those variables follow the drag.
+ *
+ * Keyboard: arrow keys move by one grid step (Shift for ten).
+ *
+ * @example
+ * ```tsx
+ * <div className="relative h-64 w-64">
+ *   <CoordinateSystem ... />
+ *   <Movable
+ *     variant="point"
+ *     coordinates={{ x: [-5, 5], y: [-5, 5] }}
+ *     snap={0.5}
+ *     xVar="pointX"
+ *     yVar="pointY"
+ *     initialPosition={{ x: 1, y: 2 }}
+ *   >
+ *     P
+ *   </Movable>
+ * </div>
+ * ```
+ */
+export const Movable: React.FC<MovableProps> = ({
+    id,
+    children,
+    variant = 'label',
+    initialPosition = { x: 0, y: 0 },
+    coordinates,
+    snap,
+    constrain = true,
+    xVar,
+    yVar,
+    color = ANNOTATION_COLORS.draggable.primary,
+    bgColor = ANNOTATION_COLORS.draggable.bg,
+    onMove,
+    className,
+}) => {
+    const ref = useRef<HTMLSpanElement>(null);
+    const [containerSize, setContainerSize] = useState<{ width: number; height: number } | null>(null);
+    const [localPosition, setLocalPosition] = useState<Point>(initialPosition);
+    const [isDragging, setIsDragging] = useState(false);
+    // Where the element was grabbed, relative to its position (px)
+    const grabOffset = useRef<Point>({ x: 0, y: 0 });
+
+    const storeX = useVar(xVar || '', initialPosition.x);
+    const storeY = useVar(yVar || '', initialPosition.y);
+    const setVar = useSetVar();
+
+    const position: Point = {
+        x: xVar ? Number(storeX) : localPosition.x,
+        y: yVar ? Number(storeY) : localPosition.y,
+    };
+
+    const [xMin, xMax] = coordinates?.x ?? [0, containerSize?.width ?? Infinity];
+    const [yMin, yMax] = coordinates?.y ?? [0, containerSize?.height ?? Infinity];
+    const spacing: Point | undefined = typeof snap === 'number' ? { x: snap, y: snap } : snap;
+
+    // Variables that aren't in variables.ts are defined from the props, within the plot's range
+    const rangeOf = (range: [number, number] | undefined) =>
+        constrain && range ? { min: Math.min(...range), max: Math.max(...range) } : {};
+    useEnsureVariable(xVar, { defaultValue: initialPosition.x, type: 'number', ...rangeOf(coordinates?.x) });
+    useEnsureVariable(yVar, { defaultValue: initialPosition.y, type: 'number', ...rangeOf(coordinates?.y) });
+
+    // Follow the size of the container the element is positioned in
+    useEffect(() => {
+        const container = ref.current?.offsetParent as HTMLElement | null;
+        if (!container) {
+            console.warn('Movable: place it inside a positioned container (e.g. className="relative")');
+            return;
+        }
+        const update = () => setContainerSize({ width: container.clientWidth, height: container.clientHeight });
+        update();
+        const observer = new ResizeObserver(update);
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    const toPixels = (point: Point): Point => {
+        if (!coordinates || !containerSize) return point;
+        return {
+            x: ((point.x - xMin) / (xMax - xMin)) * containerSize.width,
+            y: ((yMax - point.y) / (yMax - yMin)) * containerSize.height,
+        };
+    };
+
+    const fromPixels = (pixels: Point): Point => {
+        if (!coordinates || !containerSize) return pixels;
+        return {
+            x: xMin + (pixels.x / containerSize.width) * (xMax - xMin),
+            y: yMax - (pixels.y / containerSize.height) * (yMax - yMin),
+        };
+    };
+
+    const moveTo = (target: Point) => {
+        let next = { x: snapTo(target.x, spacing?.x), y: snapTo(target.y, spacing?.y) };
+        if (constrain) {
+            next = {
+                x: clamp(next.x, Math.min(xMin, xMax), Math.max(xMin, xMax)),
+                y: clamp(next.y, Math.min(yMin, yMax), Math.max(yMin, yMax)),
+            };
+        }
+        if (next.x === position.x && next.y === position.y) return;
+
+        if (xVar) setVar(xVar, next.x);
+        if (yVar) setVar(yVar, next.y);
+        if (!xVar || !yVar) setLocalPosition(next);
+        onMove?.(next);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLSpanElement>) => {
+        const container = ref.current?.offsetParent;
+        if (!container || (e.pointerType === 'mouse' && e.button !== 0)) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+
+        const rect = container.getBoundingClientRect();
+        const pixels = toPixels(position);
+        grabOffset.current = { x: e.clientX - rect.left - pixels.x, y: e.clientY - rect.top - pixels.y };
+        setIsDragging(true);
+        e.preventDefault();
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLSpanElement>) => {
+        const container = ref.current?.offsetParent;
+        if (!isDragging || !container) return;
+        const rect = container.getBoundingClientRect();
+        moveTo(fromPixels({
+            x: e.clientX - rect.left - grabOffset.current.x,
+            y: e.clientY - rect.top - grabOffset.current.y,
+        }));
+    };
+
+    const handlePointerUp = () => setIsDragging(false);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        // One grid step, or 1% of the range in plot units, or 1px
+        const baseStep = (axis: 'x' | 'y') => spacing?.[axis]
+            ?? (coordinates ? Math.abs(axis === 'x' ? xMax - xMin : yMax - yMin) / 100 : 1);
+        const factor = e.shiftKey ? 10 : 1;
+        // Plot coordinates point up, pixels point down
+        const up = coordinates ? 1 : -1;
+
+        const moves: Record<string, Point> = {
+            ArrowLeft: { x: -baseStep('x'), y: 0 },
+            ArrowRight: { x: baseStep('x'), y: 0 },
+            ArrowUp: { x: 0, y: up * baseStep('y') },
+            ArrowDown: { x: 0, y: -up * baseStep('y') },
+        };
+        const move = moves[e.key];
+        if (!move) return;
+        e.preventDefault();
+        moveTo({ x: position.x + move.x * factor, y: position.y + move.y * factor });
+    };
+
+    const pixels = toPixels(position);
+    const label = typeof children === 'string' ? `${children}, ` : '';
+
+    return (
+        <span
+            ref={ref}
+            id={id}
+            role="button"
+            tabIndex={0}
+            aria-roledescription="movable"
+            aria-label={`${label}at ${position.x}, ${position.y}. Use the arrow keys to move.`}
+            className={cn(
+                'annotation-movable',
+                variant === 'point' && 'annotation-movable--point',
+                isDragging && 'dragging',
+                className
+            )}
+            style={{
+                left: pixels.x,
+                top: pixels.y,
+                // Hidden until plot coordinates can be placed
+                visibility: coordinates && !containerSize ? 'hidden' : undefined,
+                color,
+                borderColor: color,
+                background: variant === 'point' ? color : bgColor,
+            }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onKeyDown={handleKeyDown}
+        >
+            {variant === 'point'
+                ? children && <span className="annotation-movable__caption" style={{ color }}>{children}</span>
+                : children}
+        </span>
+    );
+};
+
+export default Movable;
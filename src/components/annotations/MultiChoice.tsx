@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useLearnerProgressStore, useSavedAnswer } from '@/stores';
 import type { MultiChoiceProps } from './types';
 import { ANNOTATION_COLORS } from './types';
 
@@ -24,6 +25,12 @@ export const MultiChoice: React.FC<MultiChoiceProps> = ({
     const [isCorrect, setIsCorrect] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
 
+    // Restore a saved answer (and follow resets)
+    useSavedAnswer(id, (saved) => {
+        setSelectedValue(saved ? String(saved.value) : null);
+        setIsCorrect(saved?.correct ?? false);
+    });
+
     useEffect(() => {
         const handleClickOutside = (e: MouseEvent) => {
             if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
@@ -39,12 +46,14 @@ export const MultiChoice: React.FC<MultiChoiceProps> = ({
         setSelectedValue(option);
         setIsCorrect(correct);
         setIsOpen(false);
+        if (id) useLearnerProgressStore.getState().setAnswer(id, option, correct);
         onChange?.(option, correct);
     };
 
     const handleClear = () => {
         setSelectedValue(null);
         setIsCorrect(false);
+        if (id) useLearnerProgressStore.getState().clearAnswer(id);
     };
 
     // Correct state
@@ -0,0 +1,258 @@
+import { useState, useRef, useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { formatNumber } from '@/lib/number-format';
+import { checkVariableValue } from '@/lib/variable-constraints';
+import { resolveVariableName } from '@/lib/variable-scope';
+import { useVar, useSetVar, useEnsureVariable, useVariableStore } from '@/stores';
+import { useVariableScope } from '@/contexts/VariableScopeContext';
+import type { ScrubberProps, ScrubberScale } from './types';
+import { ANNOTATION_COLORS, ANNOTATION_STYLE_CONFIG } from './types';
+
+const LOG_STEPS_PER_DECADE = 20;
+const COARSE_MULTIPLIER = 10;
+const FINE_MULTIPLIER = 0.1;
+
+/**
+ * Maps values to positions counted in steps from the start of the range,
+ * so dragging and the keyboard work the same on every scale.
+ */
+interface ScrubScale {
+    toPosition: (value: number) => number;
+    /** Value at a position, clamped to the range */
+    fromPosition: (position: number) => number;
+    /** Position of the end of the range */
+    length: number;
+    /** Smallest step the keyboard can take */
+    minIncrement: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const decimalsOf = (value: number): number => {
+    if (Number.isInteger(value)) return 0;
+    const text = String(value);
+    return text.includes('e') ? 6 : text.split('.')[1]?.length ?? 0;
+};
+
+const createScale = (kind: ScrubberScale, min: number, max: number, step: number, values?: number[]): ScrubScale => {
+    if (values && values.length > 0) {
+        return {
+            toPosition: (value) => values.reduce(
+                (nearest, candidate, index) => Math.abs(candidate - value) < Math.abs(values[nearest] - value) ? index : nearest,
+                0
+            ),
+            fromPosition: (position) => values[clamp(Math.round(position), 0, values.length - 1)],
+            length: values.length - 1,
+            minIncrement: 1,
+        };
+    }
+
+    if (kind === 'log') {
+        if (min > 0 && max > min) {
+            const stepsPerDecade = LOG_STEPS_PER_DECADE;
+            return {
+                toPosition: (value) => Math.log10(Math.max(value, min) / min) * stepsPerDecade,
+                // Three significant digits keep log values readable (1.12, 1.26, ...)
+                fromPosition: (position) => clamp(Number((min * 10 ** (position / stepsPerDecade)).toPrecision(3)), min, max),
+                length: Math.log10(max / min) * stepsPerDecade,
+                minIncrement: 0,
+            };
+        }
+        console.warn(`Scrubber: a log scale needs 0 < min < max (got ${min} and ${max}); using a linear scale`);
+    }
+
+    // One more decimal than the step, for fine steps
+    const decimals = decimalsOf(step) + 1;
+    return {
+        toPosition: (value) => (value - min) / step,
+        fromPosition: (position) => Number(clamp(min + position * step, min, max).toFixed(decimals)),
+        length: (max - min) / step,
+        minIncrement: 0,
+    };
+};
+
+/** Shift takes coarse steps, Alt (Option) fine ones */
+const modifierMultiplier = (e: { shiftKey: boolean; altKey: boolean }): number =>
+    e.shiftKey ? COARSE_MULTIPLIER : e.altKey ? FINE_MULTIPLIER : 1;
+
+/**
+ * Scrubber - Drag a number to change it, with fine control.
+ *
+ * Category: Mutable
+ * Visual Style: Double underline, progress bar on hover
+ * Interaction: Drag horizontally (mouse, touch or pen) or use the arrow keys;
+ * hold Shift for coarse steps and Alt (Option) for fine steps. Page Up/Down
+ * take coarse steps, Home/End jump to the ends of the range.
+ *
+ * Values can be spaced linearly (default), on a log scale, or taken from a list.
+ * A bound variable with a `step` only takes multiples of it, fine steps included.
+ *
+ * @example
+ * ```tsx
+ * <p>
+ *   A string vibrating at{' '}
+ *   <Scrubber varName="frequency" min={20} max={20000} scale="log" unit="Hz" />{' '}
+ *   is within human hearing.
+ * </p>
+ * ```
+ */
+export const Scrubber: React.FC<ScrubberProps> = ({
+    id,
+    value: controlledValue,
+    initialValue,
+    varName,
+    min: minProp,
+    max: maxProp,
+    step: stepProp,
+    scale = 'linear',
+    values,
+    precision,
+    unit: unitProp,
+    formatValue,
+    sensitivity = 4,
+    color = ANNOTATION_COLORS.mutable.primary,
+    bgColor = ANNOTATION_COLORS.mutable.bg,
+    underline = ANNOTATION_STYLE_CONFIG.Scrubber.underline,
+    onChange,
+    className,
+}) => {
+    const scope = useVariableScope();
+    const key = varName ? resolveVariableName(varName, scope) : '';
+    const definition = useVariableStore((state) => (key ? state.definitions[key] : undefined));
+
+    const min = minProp ?? definition?.min ?? 0;
+    const max = maxProp ?? definition?.max ?? 100;
+    // The store snaps a bound variable to its step, so no finer steps are offered
+    const storeStep = definition?.step && definition.step > 0 ? definition.step : undefined;
+    const step = storeStep ? Math.max(stepProp ?? storeStep, storeStep) : stepProp ?? 1;
+    const unit = unitProp ?? definition?.unit;
+    const startValue = initialValue ?? (values?.length ? values[0] : min);
+
+    // Inline arrays get a new identity on every render; compare them by content
+    const valuesKey = values?.join(',') ?? '';
+    const scrubScale = useMemo(
+        () => createScale(scale, min, max, step, valuesKey ? valuesKey.split(',').map(Number) : undefined),
+        [scale, min, max, step, valuesKey]
+    );
+
+    const storeValue = useVar(varName || '', startValue);
+    const setVar = useSetVar();
+    const [localValue, setLocalValue] = useState(startValue);
+    const [isDragging, setIsDragging] = useState(false);
+    const dragRef = useRef<{ startX: number; startPosition: number; multiplier: number } | null>(null);
+
+    // Variables that aren't in variables.ts are defined without a step, so fine steps stay possible
+    useEnsureVariable(varName, { defaultValue: startValue, type: 'number', min, max, unit });
+
+    const isControlled = controlledValue !== undefined;
+    const value = isControlled ? controlledValue : varName ? Number(storeValue) : localValue;
+
+    // The value the store keeps for a write (snapped and clamped to the variable's definition)
+    const toStored = (target: number): number =>
+        varName && definition && !isControlled ? Number(checkVariableValue(key, target, definition).value) : target;
+
+    const updateValue = (target: number) => {
+        if (!Number.isFinite(target)) return;
+        const next = toStored(target);
+        if (next === value) return;
+        if (!isControlled) {
+            if (varName) setVar(varName, next);
+            else setLocalValue(next);
+        }
+        onChange?.(next);
+    };
+
+    const moveBy = (increment: number) => {
+        const signed = Math.sign(increment) * Math.max(Math.abs(increment), scrubScale.minIncrement);
+        const next = scrubScale.fromPosition(scrubScale.toPosition(value) + signed);
+        // A fine or log step that snaps back to the current value moves a whole step instead
+        updateValue(storeStep && toStored(next) === value ? value + Math.sign(increment) * storeStep : next);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLSpanElement>) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { startX: e.clientX, startPosition: scrubScale.toPosition(value), multiplier: modifierMultiplier(e) };
+        setIsDragging(true);
+        e.preventDefault();
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLSpanElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        // Pressing or releasing a modifier mid-drag continues from the current value
+        const multiplier = modifierMultiplier(e);
+        if (multiplier !== drag.multiplier) {
+            dragRef.current = { startX: e.clientX, startPosition: scrubScale.toPosition(value), multiplier };
+            return;
+        }
+
+        const steps = Math.round((e.clientX - drag.startX) / sensitivity);
+        updateValue(scrubScale.fromPosition(drag.startPosition + steps * multiplier));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLSpanElement>) => {
+        if (!dragRef.current) return;
+        dragRef.current = null;
+        setIsDragging(false);
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const multiplier = modifierMultiplier(e);
+        if (e.key === 'ArrowUp' || e.key === 'ArrowRight') {
+            moveBy(multiplier);
+        } else if (e.key === 'ArrowDown' || e.key === 'ArrowLeft') {
+            moveBy(-multiplier);
+        } else if (e.key === 'PageUp') {
+            moveBy(COARSE_MULTIPLIER);
+        } else if (e.key === 'PageDown') {
+            moveBy(-COARSE_MULTIPLIER);
+        } else if (e.key === 'Home') {
+            updateValue(scrubScale.fromPosition(0));
+        } else if (e.key === 'End') {
+            updateValue(scrubScale.fromPosition(scrubScale.length));
+        } else {
+            return;
+        }
+        e.preventDefault();
+    };
+
+    const displayPrecision = precision ?? Math.min(Math.max(values || scale === 'log' ? 0 : decimalsOf(step), decimalsOf(value)), 6);
+    const displayValue = formatValue
+        ? formatValue(value)
+        : formatNumber(value, { precision: displayPrecision, fixed: precision !== undefined, unit });
+    const progress = scrubScale.length > 0 ? clamp(scrubScale.toPosition(value) / scrubScale.length, 0, 1) * 100 : 0;
+
+    return (
+        <span
+            id={id}
+            role="slider"
+            tabIndex={0}
+            aria-valuemin={scrubScale.fromPosition(0)}
+            aria-valuemax={scrubScale.fromPosition(scrubScale.length)}
+            aria-valuenow={value}
+            aria-valuetext={displayValue}
+            className={cn(
+                'annotation annotation-scrubber',
+                `annotation-underline-${underline}`,
+                isDragging && 'dragging',
+                className
+            )}
+            style={{ color, background: isDragging ? bgColor : undefined }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onKeyDown={handleKeyDown}
+        >
+            <span className="annotation-progress" style={{ background: bgColor }}>
+                <span className="annotation-progress__fill" style={{ display: 'block', width: `${progress}%`, background: color }} />
+            </span>
+            {displayValue}
+        </span>
+    );
+};
+
+export default Scrubber;
@@ -0,0 +1,240 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Reorder } from 'framer-motion';
+import { Check, GripVertical, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useLearnerProgressStore, useSavedAnswer } from '@/stores';
+import type { SortableProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+const isPermutation = (order: unknown, length: number): order is number[] =>
+    Array.isArray(order)
+    && order.length === length
+    && order.every(index => Number.isInteger(index) && index >= 0 && index < length)
+    && new Set(order).size === length;
+
+/**
+ * Deterministic shuffle (same items, same order), so the initial order
+ * matches between renders and sessions. Never returns the solved order.
+ */
+const shuffleIndices = (items: string[]): number[] => {
+    let seed = Array.from(items.join('\n')).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+    const order = items.map((_, index) => index);
+    for (let i = order.length - 1; i > 0; i--) {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        const j = seed % (i + 1);
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order.every((item, index) => item === index) ? [...order.slice(1), order[0]] : order;
+};
+
+/**
+ * Sortable - Put items in the right order by dragging or with the keyboard.
+ * Category: Validatable | Visual: Highlighted items, marked after checking
+ *
+ * Keyboard: Enter or Space picks up the focused item, the arrow keys move it,
+ * Enter or Space drops it and Escape puts it back.
+ *
+ * @example
+ * ```tsx
+ * <Sortable
+ *   id="sortable-order-of-operations"
+ *   items={['Parentheses', 'Exponents', 'Multiplication', 'Addition']}
+ * />
+ * ```
+ */
+export const Sortable: React.FC<SortableProps> = ({
+    id,
+    items,
+    correctOrder,
+    inline = false,
+    color = ANNOTATION_COLORS.validatable.primary,
+    bgColor = ANNOTATION_COLORS.validatable.bg,
+    onChange,
+    className,
+}) => {
+    // Inline arrays get a new identity on every render; compare them by content
+    const itemsKey = JSON.stringify([items, correctOrder ?? null]);
+    const [stableItems, stableCorrectOrder] = useMemo(
+        () => JSON.parse(itemsKey) as [string[], number[] | null],
+        [itemsKey]
+    );
+    const { solution, startOrder } = useMemo(() => {
+        if (stableCorrectOrder && !isPermutation(stableCorrectOrder, stableItems.length)) {
+            console.warn(`Sortable${id ? ` "${id}"` : ''}: correctOrder must list every item index once`);
+        }
+        return isPermutation(stableCorrectOrder, stableItems.length)
+            ? { solution: stableCorrectOrder, startOrder: stableItems.map((_, index) => index) }
+            : { solution: stableItems.map((_, index) => index), startOrder: shuffleIndices(stableItems) };
+    }, [stableItems, stableCorrectOrder, id]);
+
+    const [order, setOrder] = useState(startOrder);
+    const [isChecked, setIsChecked] = useState(false);
+    // Item picked up with the keyboard, and the order to go back to on Escape
+    const [grabbed, setGrabbed] = useState<number | null>(null);
+    const grabStartOrder = useRef<number[]>([]);
+    const [announcement, setAnnouncement] = useState('');
+    const itemRefs = useRef<Record<number, HTMLElement | null>>({});
+
+    // Restore a saved answer (and follow resets and changed items)
+    useSavedAnswer(id, (saved) => {
+        const restored = isPermutation(saved?.value, startOrder.length);
+        setOrder(restored ? saved.value as number[] : startOrder);
+        setIsChecked(restored);
+    }, startOrder);
+
+    // Moving an item re-creates its DOM node; keep the keyboard focus on it
+    useEffect(() => {
+        if (grabbed !== null) itemRefs.current[grabbed]?.focus();
+    }, [order, grabbed]);
+
+    const isInPlace = (itemIndex: number, position: number) => solution[position] === itemIndex;
+    const inPlaceCount = order.filter(isInPlace).length;
+    const isSolved = isChecked && inPlaceCount === order.length;
+
+    const updateOrder = (next: number[]) => {
+        setOrder(next);
+        setIsChecked(false);
+        onChange?.(next.map(index => items[index]), next.every(isInPlace));
+    };
+
+    const handleCheck = () => {
+        setIsChecked(true);
+        setGrabbed(null);
+        const correct = order.every(isInPlace);
+        if (id) useLearnerProgressStore.getState().setAnswer(id, order, correct);
+        setAnnouncement(correct
+            ? 'All items are in the right order'
+            : `${inPlaceCount} of ${order.length} items are in the right place`);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent, itemIndex: number, position: number) => {
+        const step = ['ArrowUp', 'ArrowLeft'].includes(e.key) ? -1 : ['ArrowDown', 'ArrowRight'].includes(e.key) ? 1 : 0;
+
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            if (grabbed === itemIndex) {
+                setGrabbed(null);
+                setAnnouncement(`${items[itemIndex]} dropped at position ${position + 1}`);
+            } else {
+                grabStartOrder.current = order;
+                setGrabbed(itemIndex);
+                setAnnouncement(`${items[itemIndex]} picked up. Use the arrow keys to move it, Enter to drop it, Escape to cancel.`);
+            }
+        } else if (e.key === 'Escape' && grabbed === itemIndex) {
+            e.preventDefault();
+            updateOrder(grabStartOrder.current);
+            setGrabbed(null);
+            setAnnouncement(`${items[itemIndex]} put back at position ${grabStartOrder.current.indexOf(itemIndex) + 1}`);
+        } else if (step !== 0) {
+            e.preventDefault();
+            const target = position + step;
+            if (target < 0 || target >= order.length) return;
+            if (grabbed === itemIndex) {
+                const next = [...order];
+                [next[position], next[target]] = [next[target], next[position]];
+                updateOrder(next);
+                setAnnouncement(`${items[itemIndex]} moved to position ${target + 1} of ${order.length}`);
+            } else {
+                itemRefs.current[order[target]]?.focus();
+            }
+        }
+    };
+
+    const itemStyle = (itemIndex: number, position: number): React.CSSProperties => {
+        if (isChecked) {
+            const status = isInPlace(itemIndex, position) ? ANNOTATION_COLORS.success : ANNOTATION_COLORS.error;
+            return { background: status.bg, color: status.primary };
+        }
+        return {
+            background: bgColor,
+            color,
+            boxShadow: grabbed === itemIndex ? `0 0 0 2px ${color}, 0 4px 12px ${ANNOTATION_COLORS.validatable.glow}` : undefined,
+        };
+    };
+
+    const renderItem = (itemIndex: number, position: number) => (
+        <Reorder.Item
+            key={itemIndex}
+            value={itemIndex}
+            as={inline ? 'span' : 'li'}
+            drag={isSolved ? false : inline ? 'x' : 'y'}
+            ref={(el: HTMLElement | null) => { itemRefs.current[itemIndex] = el; }}
+            tabIndex={isSolved ? -1 : 0}
+            aria-label={`${items[itemIndex]}, position ${position + 1} of ${order.length}`}
+            onKeyDown={(e) => !isSolved && handleKeyDown(e, itemIndex, position)}
+            whileDrag={{ scale: 1.03, boxShadow: `0 4px 12px ${ANNOTATION_COLORS.validatable.glow}`, zIndex: 10 }}
+            className={cn(
+                'relative select-none font-medium outline-none transition-colors focus-visible:ring-2 focus-visible:ring-offset-1',
+                inline ? 'inline-flex items-center gap-0.5 rounded px-1.5' : 'flex items-center gap-2 rounded-lg px-3 py-2',
+                isSolved ? 'cursor-default' : 'cursor-grab active:cursor-grabbing'
+            )}
+            style={itemStyle(itemIndex, position)}
+        >
+            {!inline && !isSolved && <GripVertical size={14} className="shrink-0 opacity-50" />}
+            {!inline && <span className="w-5 shrink-0 text-sm tabular-nums opacity-60">{position + 1}.</span>}
+            <span className={inline ? undefined : 'flex-1'}>{items[itemIndex]}</span>
+            {isChecked && !isInPlace(itemIndex, position) && <X size={inline ? 10 : 14} className="shrink-0" />}
+        </Reorder.Item>
+    );
+
+    const liveRegion = <span className="sr-only" aria-live="polite">{announcement}</span>;
+
+    if (inline) {
+        return (
+            <span id={id} className={cn('inline-flex flex-wrap items-center gap-1 align-middle', className)}>
+                <Reorder.Group as="span" axis="x" values={order} onReorder={updateOrder} className="inline-flex flex-wrap items-center gap-1">
+                    {order.map(renderItem)}
+                </Reorder.Group>
+                {isSolved ? (
+                    <Check size={14} style={{ color: ANNOTATION_COLORS.success.primary }} />
+                ) : (
+                    <button
+                        onClick={handleCheck}
+                        title="Check the order"
+                        className="inline-flex items-center rounded p-0.5 hover:opacity-80"
+                        style={{ background: color, color: 'white' }}
+                    >
+                        <Check size={12} />
+                    </button>
+                )}
+                {isChecked && !isSolved && (
+                    <span className="text-xs font-medium" style={{ color: ANNOTATION_COLORS.error.primary }}>
+                        {inPlaceCount}/{order.length}
+                    </span>
+                )}
+                {liveRegion}
+            </span>
+        );
+    }
+
+    return (
+        <div id={id} className={cn('my-3 space-y-2', className)}>
+            <Reorder.Group as="ol" axis="y" values={order} onReorder={updateOrder} className="space-y-1.5">
+                {order.map(renderItem)}
+            </Reorder.Group>
+            <div className="flex items-center gap-3 text-sm">
+                {isSolved ? (
+                    <span className="inline-flex items-center gap-1 font-medium" style={{ color: ANNOTATION_COLORS.success.primary }}>
+                        <Check size={14} /> Correct order
+                    </span>
+                ) : (
+                    <button
+                        onClick={handleCheck}
+                        className="rounded-md px-3 py-1 font-medium text-white hover:opacity-80"
+                        style={{ background: color }}
+                    >
+                        Check order
+                    </button>
+                )}
+                {isChecked && !isSolved && (
+                    <span style={{ color: ANNOTATION_COLORS.error.primary }}>
+                        {inPlaceCount} of {order.length} in the right place
+                    </span>
+                )}
+            </div>
+            {liveRegion}
+        </div>
+    );
+};
+
+export default Sortable;
@@ -0,0 +1,61 @@
+import { createContext, useContext, type MutableRefObject, type ReactNode } from 'react';
+
+/**
+ * Shared state of a DragWordProvider: which word sits in which zone, and the
+ * word picked up with a click or the keyboard.
+ */
+
+export interface DragWordEntry {
+    content: ReactNode;
+    dropZones?: string[];
+    onDrop?: (dropZoneId: string) => void;
+}
+
+export interface DropZoneEntry {
+    correctAnswer?: string | string[];
+    onChange?: (dragId: string | null, isCorrect: boolean) => void;
+}
+
+export interface DragWordContextValue {
+    /** dragId placed in each zone, by zoneId */
+    placements: Record<string, string>;
+    /** Word picked up with a click or the keyboard, waiting to be dropped */
+    picked: string | null;
+    setPicked: (dragId: string | null) => void;
+    /** Zone under a word being dragged */
+    hoverZone: string | null;
+    setHoverZone: (zoneId: string | null) => void;
+    words: MutableRefObject<Record<string, DragWordEntry>>;
+    zones: MutableRefObject<Record<string, DropZoneEntry>>;
+    /** Register a zone for the overall check; returns the unregister function */
+    registerZone: (zoneId: string) => () => void;
+    /** Put a word in a zone; false if the zone doesn't accept it */
+    place: (dragId: string, zoneId: string) => boolean;
+    /** Send a zone's word back to the word bank */
+    remove: (zoneId: string) => void;
+    reset: () => void;
+    isCorrect: boolean;
+}
+
+export const DragWordContext = createContext<DragWordContextValue | null>(null);
+
+export const useDragWordContext = () => useContext(DragWordContext);
+
+export const isZoneCorrect = (zone: DropZoneEntry | undefined, dragId: string | undefined): boolean => {
+    if (!dragId) return false;
+    const answers = zone?.correctAnswer === undefined ? undefined : ([] as string[]).concat(zone.correctAnswer);
+    return !answers || answers.includes(dragId);
+};
+
+/**
+ * Placements and overall correctness of the surrounding DragWordProvider,
+ * e.g. for a custom check or reset control.
+ */
+export const useDragWords = () => {
+    const ctx = useDragWordContext();
+    return {
+        placements: ctx?.placements ?? {},
+        isCorrect: ctx?.isCorrect ?? false,
+        reset: ctx?.reset ?? (() => { }),
+    };
+};
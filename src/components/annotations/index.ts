@@ -5,16 +5,20 @@
  * 
  * Categories:
  * - Informational: Hoverable, Glossary, Whisper
- * - Mutable: Stepper, Toggle
- * - Validatable: FillBlank, MultiChoice
- * - Connective: Linked, Trigger
+ * - Mutable: Stepper, Toggle, Scrubber
+ * - Validatable: FillBlank, MultiChoice, Sortable
+ * - Connective: Linked, Trigger, Focus
+ * - Draggable: DragWord, DropZone (inside a DragWordProvider), Movable
  * 
  * Visual Style Guide:
  * - Solid underline ─────── : Draggable values (Stepper)
- * - Dashed underline - - -  : Toggleable states (Toggle)
+ * - Dashed underline - - -  : Toggleable states (Toggle), spotlights (Focus)
+ * - Double underline ══════ : Precision controls (Scrubber)
  * - Dotted underline ······ : Definitions (Glossary, Linked)
+ * - Dashed chip / box       : Word bank and blanks (DragWord, DropZone)
+ * - Floating chip or dot    : Overlays on visualizations (Movable)
  * - No underline (color)    : Tooltips (Hoverable, Whisper)
- * - Background highlight    : Quiz inputs (FillBlank, MultiChoice)
+ * - Background highlight    : Quiz inputs (FillBlank, MultiChoice, Sortable)
  */
 
 // Components
@@ -23,10 +27,18 @@ export { Glossary } from './Glossary';
 export { Whisper } from './Whisper';
 export { Stepper } from './Stepper';
 export { Toggle } from './Toggle';
+export { Scrubber } from './Scrubber';
 export { FillBlank } from './FillBlank';
 export { MultiChoice } from './MultiChoice';
+export { Sortable } from './Sortable';
 export { Linked, LinkedProvider, useLinkedContext, useActiveLink, useSetActiveLink } from './Linked';
 export { Trigger } from './Trigger';
+export { Focus } from './Focus';
+export { DragWordProvider, DragWordReset } from './DragWordProvider';
+export { DragWord } from './DragWord';
+export { DropZone } from './DropZone';
+export { useDragWords } from './drag-words';
+export { Movable } from './Movable';
 
 // Types
 export * from './types';
@@ -118,19 +118,31 @@ export interface ToggleProps extends BaseAnnotationProps {
     onChange?: (value: string, index: number) => void;
 }
 
+export type ScrubberScale = 'linear' | 'log';
+
 export interface ScrubberProps extends BaseAnnotationProps {
     /** Current value */
     value?: number;
     /** Initial value */
     initialValue?: number;
+    /** Variable in the shared store (min, max, step and unit default to its definition) */
+    varName?: string;
     /** Minimum value */
     min?: number;
     /** Maximum value */
     max?: number;
     /** Step increment */
     step?: number;
+    /** Spacing of the steps; on a log scale each step multiplies the value by the same factor */
+    scale?: ScrubberScale;
+    /** Discrete values to scrub through, in order (replaces min, max, step and scale) */
+    values?: number[];
     /** Decimal precision */
     precision?: number;
+    /** Unit shown after the value, e.g. 'Hz' or '°' */
+    unit?: string;
+    /** Format the displayed value */
+    formatValue?: (value: number) => string;
     /** Scrub sensitivity (pixels per step) */
     sensitivity?: number;
     /** Callback when value changes */
@@ -164,10 +176,15 @@ export interface MultiChoiceProps extends BaseAnnotationProps {
 }
 
 export interface SortableProps extends BaseAnnotationProps {
-    /** Items to sort */
+    /** Items to sort, in the order they are first shown */
     items: string[];
-    /** Correct order (array of indices) */
+    /**
+     * Correct order (array of indices into `items`). When omitted, `items`
+     * are listed in the correct order and shown shuffled.
+     */
     correctOrder?: number[];
+    /** Render as a row of chips inside a sentence instead of a list */
+    inline?: boolean;
     /** Callback when order changes */
     onChange?: (items: string[], isCorrect: boolean) => void;
 }
@@ -207,10 +224,24 @@ export interface TriggerProps extends BaseAnnotationProps {
 export interface FocusProps extends BaseAnnotationProps {
     /** Content to display */
     children: React.ReactNode;
-    /** Target element selector or ref */
+    /** Target element: a block ID, an element ID, a CSS selector or a ref */
     target: string | React.RefObject<HTMLElement>;
     /** Zoom level when focused */
     zoomLevel?: number;
+    /** Focus while hovered, or toggle on click (default) */
+    trigger?: 'click' | 'hover';
+    /** Point to zoom towards, as fractions of the target's width and height (default: center) */
+    origin?: { x: number; y: number };
+    /** Dim the rest of the lesson around the target */
+    dim?: boolean;
+    /** ThreeCanvas targets: point the camera looks at */
+    cameraTarget?: [number, number, number];
+    /** ThreeCanvas targets: camera position (defaults to moving towards cameraTarget by zoomLevel) */
+    cameraPosition?: [number, number, number];
+    /** Mafs targets: coordinates to show (defaults to zooming the plot by zoomLevel) */
+    viewBox?: { x: [number, number]; y: [number, number] };
+    /** Callback when focus starts or ends */
+    onFocusChange?: (focused: boolean) => void;
 }
 
 // ============================================================================
@@ -222,19 +253,53 @@ export interface DragWordProps extends BaseAnnotationProps {
     children: React.ReactNode;
     /** Drag data identifier */
     dragId: string;
-    /** Valid drop zones */
+    /** Zones the word may be dropped in (any zone when omitted) */
     dropZones?: string[];
     /** Callback when dropped */
     onDrop?: (dropZoneId: string) => void;
 }
 
-export interface MovableProps extends BaseAnnotationProps {
-    /** Content to display */
+export interface DropZoneProps extends BaseAnnotationProps {
+    /** Zone identifier, referenced by DragWord `dropZones` */
+    zoneId: string;
+    /** dragId of the word that belongs here (or of each accepted word); any word counts when omitted */
+    correctAnswer?: string | string[];
+    /** Text shown while the zone is empty */
+    placeholder?: string;
+    /** Mark a placed word as right or wrong */
+    showFeedback?: boolean;
+    /** Callback when a word is placed or removed */
+    onChange?: (dragId: string | null, isCorrect: boolean) => void;
+}
+
+export interface DragWordProviderProps {
+    /** Saves the placements as a learner answer under this id */
+    id?: string;
     children: React.ReactNode;
+    /** Callback when a word is placed or removed; correct once every zone holds a right word */
+    onChange?: (placements: Record<string, string>, isCorrect: boolean) => void;
+}
+
+export interface MovableProps extends BaseAnnotationProps {
+    /** Content to display (a label, or the caption of a point) */
+    children?: React.ReactNode;
+    /** A label chip, or a dot for points */
+    variant?: 'label' | 'point';
     /** Initial position */
     initialPosition?: { x: number; y: number };
+    /**
+     * Coordinate ranges covered by the container (y pointing up), e.g. to
+     * match a plot. Positions are in pixels from the top left when omitted.
+     */
+    coordinates?: { x: [number, number]; y: [number, number] };
+    /** Snap to a grid with this spacing (or a spacing per axis) */
+    snap?: number | { x: number; y: number };
     /** Constrain to parent bounds */
     constrain?: boolean;
+    /** Variable in the shared store that holds x */
+    xVar?: string;
+    /** Variable in the shared store that holds y */
+    yVar?: string;
     /** Callback when position changes */
     onMove?: (position: { x: number; y: number }) => void;
 }
@@ -309,5 +374,6 @@ export const ANNOTATION_STYLE_CONFIG: Record<string, AnnotationStyleConfig> = {
     Trigger: { category: 'connective', underline: 'solid', defaultColor: 'connective' },
     Focus: { category: 'connective', underline: 'dashed', defaultColor: 'connective' },
     DragWord: { category: 'draggable', underline: 'dashed', defaultColor: 'draggable' },
+    DropZone: { category: 'draggable', underline: 'none', defaultColor: 'draggable' },
     Movable: { category: 'draggable', underline: 'none', defaultColor: 'draggable' },
 };
@@ -1,8 +1,11 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X } from 'lucide-react';
+import { useLearnerProgressStore, useSavedAnswer } from '@/stores';
 
 interface InlineDropdownProps {
+    /** Unique id; the learner's answer is saved and restored in preview mode */
+    id?: string;
     /** The correct answer */
     correctAnswer: string;
     /** Array of options to choose from */
@@ -43,6 +46,7 @@ interface InlineDropdownProps {
  * ```
  */
 export const InlineDropdown: React.FC<InlineDropdownProps> = ({
+    id,
     correctAnswer,
     options,
     placeholder = "???",
@@ -55,6 +59,12 @@ export const InlineDropdown: React.FC<InlineDropdownProps> = ({
     const [isCorrect, setIsCorrect] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
 
+    // Restore a saved answer (and follow resets)
+    useSavedAnswer(id, (saved) => {
+        setSelectedValue(saved ? String(saved.value) : null);
+        setIsCorrect(saved?.correct ?? false);
+    });
+
     // Close dropdown when clicking outside
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -77,12 +87,14 @@ export const InlineDropdown: React.FC<InlineDropdownProps> = ({
         setSelectedValue(option);
         setIsCorrect(correct);
         setIsOpen(false);
+        if (id) useLearnerProgressStore.getState().setAnswer(id, option, correct);
         onChange?.(option, correct);
     };
 
     const handleClear = () => {
         setSelectedValue(null);
         setIsCorrect(false);
+        if (id) useLearnerProgressStore.getState().clearAnswer(id);
     };
 
     // If correct, show as plain colored text
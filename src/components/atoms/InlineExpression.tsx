@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { useVariableStore, useVars } from '@/stores/variableStore';
+import { useVariableScope } from '@/contexts/VariableScopeContext';
+import { compileExpression } from '@/lib/expression';
+import { formatNumber, withUnit, type NumberNotation } from '@/lib/number-format';
+import { resolveVariableName } from '@/lib/variable-scope';
+
+interface InlineExpressionProps {
+    /** Safe math expression over store variables (see `@/lib/expression`), e.g. "pi * radius^2" */
+    expression: string;
+    /** Digits after the decimal point (default: 2) */
+    precision?: number;
+    /** Keep trailing zeros (default: false) */
+    fixed?: boolean;
+    /** Group thousands, e.g. 1,250 (default: true) */
+    thousands?: boolean;
+    /** 'auto' uses scientific notation for very large or small values (default: 'auto') */
+    notation?: NumberNotation;
+    /** Unit to show; defaults to the unit of `unitFrom` */
+    unit?: string;
+    /** Variable whose `unit` is shown (default: the only variable in the expression) */
+    unitFrom?: string;
+    /** Optional color for the value (default: inherit) */
+    color?: string;
+}
+
+/**
+ * InlineExpression Component
+ *
+ * Text computed from store variables, embedded inline within paragraphs.
+ * Updates whenever a variable in the expression changes.
+ *
+ * @example
+ * ```tsx
+ * <p>
+ *   The area is{" "}
+ *   <InlineExpression expression="pi * radius^2" precision={1} unit="cm²" />.
+ * </p>
+ * ```
+ */
+export const InlineExpression: React.FC<InlineExpressionProps> = ({
+    expression,
+    precision = 2,
+    fixed = false,
+    thousands = true,
+    notation = 'auto',
+    unit,
+    unitFrom,
+    color,
+}) => {
+    const compiled = useMemo(() => {
+        try {
+            return { ...compileExpression(expression), error: null };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`Invalid expression "${expression}": ${message}`);
+            return { variables: [] as string[], evaluate: null, error: message };
+        }
+    }, [expression]);
+
+    const values = useVars(compiled.variables);
+
+    // Unit from the variable definition, unless given explicitly
+    const scope = useVariableScope();
+    const unitSource = unitFrom ?? (compiled.variables.length === 1 ? compiled.variables[0] : undefined);
+    const unitKey = unitSource ? resolveVariableName(unitSource, scope) : '';
+    const definedUnit = useVariableStore((state) => (unitKey ? state.definitions[unitKey]?.unit : undefined));
+    const displayUnit = unit ?? definedUnit;
+
+    let text: string;
+    let error = compiled.error;
+    if (compiled.evaluate) {
+        try {
+            const result = compiled.evaluate(values);
+            text = typeof result === 'number'
+                ? formatNumber(result, { precision, fixed, thousands, notation, unit: displayUnit })
+                : withUnit(String(result), displayUnit);
+        } catch (evaluationError) {
+            error = evaluationError instanceof Error ? evaluationError.message : String(evaluationError);
+            text = '—';
+        }
+    } else {
+        text = expression;
+    }
+
+    return (
+        <span
+            className={error ? 'font-medium text-destructive' : 'font-medium tabular-nums'}
+            style={!error && color ? { color } : undefined}
+            title={error ?? expression}
+            data-expression={expression}
+        >
+            {text}
+        </span>
+    );
+};
+
+export default InlineExpression;
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { useVar, useSetVar } from '@/stores/variableStore';
+import { useVar, useSetVar, useEnsureVariable } from '@/stores/variableStore';
 import { cn } from '@/lib/utils';
 import { useEditing } from '@/contexts/EditingContext';
 import { useAppMode } from '@/contexts/AppModeContext';
@@ -144,6 +144,15 @@ export const InlineScrubbleNumber: React.FC<InlineScrubbleNumberProps> = ({
     const storeValue = useVar(effectiveVarName || '', effectiveDefaultValue);
     const setVar = useSetVar();
 
+    // Numbers added in the editor bind to variables that aren't in variables.ts
+    useEnsureVariable(effectiveVarName, {
+        defaultValue: effectiveDefaultValue,
+        type: 'number',
+        min: displayMin,
+        max: displayMax,
+        step: displayStep,
+    });
+
     // Local state for uncontrolled mode without varName
     const [localValue, setLocalValue] = useState(defaultValue);
 
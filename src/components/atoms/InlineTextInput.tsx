@@ -1,7 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
 import { X } from 'lucide-react';
+import { useLearnerProgressStore, useSavedAnswer } from '@/stores';
 
 interface InlineTextInputProps {
+    /** Unique id; the learner's answer is saved and restored in preview mode */
+    id?: string;
     /** The correct answer */
     correctAnswer: string;
     /** Optional placeholder text (default: "???") */
@@ -42,6 +45,7 @@ interface InlineTextInputProps {
  * ```
  */
 export const InlineTextInput: React.FC<InlineTextInputProps> = ({
+    id,
     correctAnswer,
     placeholder = "???",
     color = "#3B82F6", // Default blue
@@ -55,6 +59,13 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
     const [isCorrect, setIsCorrect] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
 
+    // Restore a saved answer (and follow resets)
+    useSavedAnswer(id, (saved) => {
+        setInputValue(saved ? String(saved.value) : "");
+        setIsChecked(!!saved);
+        setIsCorrect(saved?.correct ?? false);
+    });
+
     // Focus input when entering edit mode
     useEffect(() => {
         if (isEditing && inputRef.current) {
@@ -80,6 +91,7 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
             setIsCorrect(true);
             setIsChecked(true);
             setIsEditing(false);
+            if (id) useLearnerProgressStore.getState().setAnswer(id, value, true);
             onChange?.(value, true);
         }
     };
@@ -103,6 +115,7 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
         setIsCorrect(correct);
         setIsChecked(true);
         setIsEditing(false);
+        if (id) useLearnerProgressStore.getState().setAnswer(id, inputValue, correct);
         onChange?.(inputValue, correct);
     };
 
@@ -111,6 +124,7 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
         setIsChecked(false);
         setIsCorrect(false);
         setIsEditing(false);
+        if (id) useLearnerProgressStore.getState().clearAnswer(id);
     };
 
     const handleBlur = () => {
@@ -1,5 +1,6 @@
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import { Mafs, Coordinates, Plot, Circle, Point, useStopwatch } from "mafs";
+import { useFocusViewBox } from "@/hooks/use-focus-view-box";
 
 /**
  * Animated Mafs visualization showing a point moving along a sine wave
@@ -7,6 +8,9 @@ import { Mafs, Coordinates, Plot, Circle, Point, useStopwatch } from "mafs";
  */
 export function MafsAnimated() {
     const { time, start } = useStopwatch();
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Zooms in when a Focus annotation targets the plot
+    const viewBox = useFocusViewBox(containerRef, { x: [-5, 5], y: [-3, 3] });
 
     // Auto-start the animation on mount
     useEffect(() => {
@@ -23,8 +27,8 @@ export function MafsAnimated() {
     const circleY = 2 * Math.sin(angle);
 
     return (
-        <div className="w-full overflow-hidden rounded-xl">
-            <Mafs height={400} viewBox={{ x: [-5, 5], y: [-3, 3] }}>
+        <div ref={containerRef} data-focus-zoom className="w-full overflow-hidden rounded-xl">
+            <Mafs height={400} viewBox={viewBox}>
                 <Coordinates.Cartesian />
 
                 {/* Sine wave plot */}
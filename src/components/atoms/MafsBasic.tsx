@@ -1,11 +1,19 @@
+import { useRef } from "react";
 import { Mafs, Coordinates, Plot } from "mafs";
+import { useFocusViewBox } from "@/hooks/use-focus-view-box";
 
 export function MafsBasic() {
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Zooms in when a Focus annotation targets the plot
+    const viewBox = useFocusViewBox(containerRef, { x: [-5, 5], y: [-5, 5] });
+
     return (
         <div
+            ref={containerRef}
+            data-focus-zoom
             className="w-full overflow-hidden rounded-xl"
         >
-            <Mafs height={400} viewBox={{ x: [-5, 5], y: [-5, 5] }}>
+            <Mafs height={400} viewBox={viewBox}>
                 <Coordinates.Cartesian />
                 <Plot.OfX y={(x) => Math.sin(x)} color="#3b82f6" weight={3} />
             </Mafs>
@@ -1,6 +1,7 @@
 import { useEffect, useState, useRef } from "react";
 import { Mafs, Coordinates, Plot, Point, Line, useMovablePoint, Circle } from "mafs";
 import { useInteractiveHighlight } from "./InteractiveHighlight";
+import { useFocusViewBox } from "@/hooks/use-focus-view-box";
 
 export interface MafsInteractiveProps {
     /** Controlled amplitude value (0-4) */
@@ -27,6 +28,9 @@ export function MafsInteractive({
     onFrequencyChange,
 }: MafsInteractiveProps = {}) {
     const highlightContext = useInteractiveHighlight();
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Zooms in when a Focus annotation targets the plot
+    const viewBox = useFocusViewBox(containerRef, { x: [-5, 5], y: [-4, 4] });
 
     // Internal state for uncontrolled mode
     const [internalAmplitude, setInternalAmplitude] = useState(2);
@@ -125,8 +129,8 @@ export function MafsInteractive({
     };
 
     return (
-        <div className="w-full overflow-hidden rounded-xl relative">
-            <Mafs height={400} viewBox={{ x: [-5, 5], y: [-4, 4] }}>
+        <div ref={containerRef} data-focus-zoom className="w-full overflow-hidden rounded-xl relative">
+            <Mafs height={400} viewBox={viewBox}>
                 <Coordinates.Cartesian />
 
                 {/* Dynamic sine wave based on control points */}
@@ -0,0 +1,50 @@
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/atoms/ui/button';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from '@/components/atoms/ui/alert-dialog';
+import { resetLearnerProgress } from '@/lib/learner-progress';
+
+/**
+ * ResetLessonButton starts the lesson over: variables go back to their
+ * defaults and the learner's answers and saved progress are cleared.
+ */
+export const ResetLessonButton = () => {
+    const resetLesson = async () => {
+        await resetLearnerProgress();
+        document.querySelector('[data-lesson-scroll-container]')?.scrollTo({ top: 0 });
+    };
+
+    return (
+        <AlertDialog>
+            <AlertDialogTrigger asChild>
+                <Button variant="secondary" size="sm" className="shadow-md">
+                    <RotateCcw className="h-4 w-4" />
+                    <span>Reset lesson</span>
+                </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>Reset this lesson?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        Your answers and the values you changed will be cleared, and the lesson starts from the beginning.
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={resetLesson}>Reset</AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+};
+
+export default ResetLessonButton;
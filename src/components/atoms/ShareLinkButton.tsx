@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { Check, Link2 } from 'lucide-react';
+import { Button } from '@/components/atoms/ui/button';
+import { useVariableStore } from '@/stores';
+import { buildShareableUrl, hasShareableVariables } from '@/lib/variable-url';
+
+/**
+ * ShareLinkButton copies a link to the lesson with the current values of its
+ * shareable variables. Hidden when the lesson has none.
+ */
+export const ShareLinkButton = () => {
+    const definitions = useVariableStore((state) => state.definitions);
+    const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+    useEffect(() => {
+        if (status === 'idle') return;
+        const timeoutId = setTimeout(() => setStatus('idle'), 2000);
+        return () => clearTimeout(timeoutId);
+    }, [status]);
+
+    if (!hasShareableVariables(definitions)) {
+        return null;
+    }
+
+    const copyLink = async () => {
+        const { variables } = useVariableStore.getState();
+        try {
+            await navigator.clipboard.writeText(buildShareableUrl(variables, definitions));
+            setStatus('copied');
+        } catch (error) {
+            console.warn('Failed to copy link:', error);
+            setStatus('failed');
+        }
+    };
+
+    return (
+        <Button variant="secondary" size="sm" className="shadow-md" onClick={copyLink}>
+            {status === 'copied' ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+            <span>
+                {status === 'copied' ? 'Link copied' : status === 'failed' ? 'Could not copy' : 'Copy link to this state'}
+            </span>
+        </Button>
+    );
+};
+
+export default ShareLinkButton;
@@ -1,6 +1,9 @@
-import React, { Suspense } from 'react';
-import { Canvas } from '@react-three/fiber';
+import React, { Suspense, useEffect, useRef } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Environment, PerspectiveCamera, ContactShadows } from '@react-three/drei';
+import { Vector3 } from 'three';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { FOCUS_TRANSITION_MS, useFocusView, type FocusView } from '@/stores';
 
 interface ThreeCanvasProps {
     children: React.ReactNode;
@@ -12,6 +15,72 @@ interface ThreeCanvasProps {
     autoRotate?: boolean;
 }
 
+type CameraPose = { position: Vector3; target: Vector3 };
+
+/**
+ * Moves the camera to a Focus annotation's target, and back to where it was
+ * once the focus ends. Auto-rotation pauses while focused.
+ */
+const FocusCamera: React.FC<{ focus: FocusView | null }> = ({ focus }) => {
+    const camera = useThree((state) => state.camera);
+    const controls = useThree((state) => state.controls as OrbitControlsImpl | null);
+    const home = useRef<CameraPose | null>(null);
+    const autoRotate = useRef<boolean | null>(null);
+    const transition = useRef<{ from: CameraPose; to: CameraPose; elapsed: number } | null>(null);
+
+    useEffect(() => {
+        const current = {
+            position: camera.position.clone(),
+            target: controls?.target.clone() ?? new Vector3(),
+        };
+
+        if (focus) {
+            // Remember the pose the learner left the camera in
+            if (!home.current) home.current = current;
+            if (controls && autoRotate.current === null) {
+                autoRotate.current = controls.autoRotate;
+                controls.autoRotate = false;
+            }
+            const target = focus.cameraTarget ? new Vector3(...focus.cameraTarget) : home.current.target.clone();
+            const position = focus.cameraPosition
+                ? new Vector3(...focus.cameraPosition)
+                : home.current.position.clone().sub(home.current.target).divideScalar(focus.zoomLevel).add(target);
+            transition.current = { from: current, to: { position, target }, elapsed: 0 };
+        } else if (home.current) {
+            transition.current = { from: current, to: home.current, elapsed: 0 };
+        }
+    }, [focus, camera, controls]);
+
+    useFrame((_, delta) => {
+        const move = transition.current;
+        if (!move) return;
+
+        // Fixed duration, so controls that keep moving the camera can't hold it back
+        const duration = FOCUS_TRANSITION_MS / 1000;
+        move.elapsed = Math.min(move.elapsed + delta, duration);
+        const t = 1 - Math.pow(1 - move.elapsed / duration, 3);
+
+        camera.position.lerpVectors(move.from.position, move.to.position, t);
+        const target = new Vector3().lerpVectors(move.from.target, move.to.target, t);
+        if (controls) {
+            controls.target.copy(target);
+            controls.update();
+        } else {
+            camera.lookAt(target);
+        }
+
+        if (move.elapsed < duration) return;
+        transition.current = null;
+        if (move.to === home.current) {
+            home.current = null;
+            if (controls && autoRotate.current !== null) controls.autoRotate = autoRotate.current;
+            autoRotate.current = null;
+        }
+    });
+
+    return null;
+};
+
 export const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     children,
     height = 400,
@@ -21,10 +90,19 @@ export const ThreeCanvas: React.FC<ThreeCanvasProps> = ({
     shadows = true,
     autoRotate = false
 }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const focus = useFocusView(containerRef);
+
     return (
-        <div style={{ height, width: '100%', borderRadius: '0.5rem', overflow: 'hidden' }} className={className}>
+        <div
+            ref={containerRef}
+            data-focus-zoom
+            style={{ height, width: '100%', borderRadius: '0.5rem', overflow: 'hidden' }}
+            className={className}
+        >
             <Canvas shadows dpr={[1, 2]}>
                 <PerspectiveCamera makeDefault position={cameraPosition} fov={50} />
+                <FocusCamera focus={focus} />
                 <Suspense fallback={null}>
                     <ambientLight intensity={0.5} />
                     <spotLight position={[10, 10, 10]} angle={0.15} penumbra={1} shadow-mapSize={[512, 512]} castShadow />
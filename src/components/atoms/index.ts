@@ -49,10 +49,13 @@ export * from "./ui/use-toast";
 // Basic Atoms
 export { Spacer } from "./Spacer";
 export { ModeIndicator } from "./ModeIndicator";
+export { ShareLinkButton } from "./ShareLinkButton";
+export { ResetLessonButton } from "./ResetLessonButton";
 export { InfoTooltip } from "./InfoTooltip";
 export { InlineDropdown } from "./InlineDropdown";
 export { InlineTextInput } from "./InlineTextInput";
 export { InlineScrubbleNumber } from "./InlineScrubbleNumber";
+export { InlineExpression } from "./InlineExpression";
 export {
     EditableH1,
     EditableH2,
@@ -1,5 +1,5 @@
 import React, { useRef, useCallback, useEffect, useState } from 'react';
-import { useEditing } from '@/contexts/EditingContext';
+import { useEditing, type TextEdit } from '@/contexts/EditingContext';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { cn } from '@/lib/utils';
 
@@ -29,12 +29,17 @@ export const EditableText: React.FC<EditableTextProps> = ({
     as: Component = 'span',
 }) => {
     const { isEditor } = useAppMode();
-    const { addTextEdit } = useEditing();
+    const { addTextEdit, pendingEdits } = useEditing();
     const containerRef = useRef<HTMLElement>(null);
     const [isContentEditable, setIsContentEditable] = useState(false);
     const originalTextRef = useRef<string>('');
     const originalHtmlRef = useRef<string>('');
 
+    // Undo/redo support: the DOM is edited in place, so when the history
+    // changes our edit we either re-apply its HTML or remount from props
+    const [contentVersion, setContentVersion] = useState(0);
+    const appliedEditIdRef = useRef<string | null>(null);
+
     // Generate a unique path for this element based on its position in the DOM
     const getElementPath = useCallback(() => {
         if (!containerRef.current) return '';
@@ -125,6 +130,36 @@ export const EditableText: React.FC<EditableTextProps> = ({
         }
     }, []);
 
+    // Keep the DOM in sync with our pending edit after undo/redo
+    useEffect(() => {
+        if (isContentEditable || !containerRef.current) return;
+
+        const elementPath = getElementPath();
+        const textEdits = pendingEdits.filter((e): e is TextEdit => e.type === 'text' && e.sectionId === sectionId);
+        // Match by path, or by the edit we showed last (the path changes when blocks move)
+        const edit = [...textEdits].reverse().find(e => e.elementPath === elementPath)
+            ?? textEdits.find(e => e.id === appliedEditIdRef.current);
+
+        if (edit) {
+            appliedEditIdRef.current = edit.id;
+            if (!edit.newHtml) return;
+
+            const template = document.createElement('template');
+            template.innerHTML = edit.newHtml;
+            const editedHtml = template.content.firstElementChild?.innerHTML;
+            if (editedHtml !== undefined && containerRef.current.innerHTML !== editedHtml) {
+                containerRef.current.innerHTML = editedHtml;
+            }
+            return;
+        }
+
+        if (appliedEditIdRef.current) {
+            // Our edit was undone: re-render the original children
+            appliedEditIdRef.current = null;
+            setContentVersion(v => v + 1);
+        }
+    }, [pendingEdits, sectionId, isContentEditable, getElementPath]);
+
     // Disable editing when mode changes
     useEffect(() => {
         if (!isEditor) {
@@ -142,6 +177,7 @@ export const EditableText: React.FC<EditableTextProps> = ({
             {React.createElement(
                 Component,
                 {
+                    key: contentVersion,
                     id,
                     ref: containerRef,
                     className: cn(
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { Circle, Copy, Download, Square, X } from 'lucide-react';
+import { Button } from '@/components/atoms/ui/button';
+import { VariableReplay } from '@/components/molecules/VariableReplay';
+import {
+    exportVariableTimeline,
+    startVariableRecording,
+    type VariableRecorder,
+    type VariableTimeline,
+} from '@/lib/variable-timeline';
+
+const downloadJson = (json: string, filename: string) => {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * TimelineRecorder records variable changes while exploring the lesson, for
+ * demos and guided replays. The recording can be previewed, downloaded or
+ * copied as JSON and embedded with `<VariableReplay timeline={...} />`.
+ */
+export const TimelineRecorder = () => {
+    const recorderRef = useRef<VariableRecorder | null>(null);
+    const [recording, setRecording] = useState(false);
+    const [eventCount, setEventCount] = useState(0);
+    const [timeline, setTimeline] = useState<VariableTimeline | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    // Show the number of recorded changes while recording
+    useEffect(() => {
+        if (!recording) return;
+        const intervalId = setInterval(() => setEventCount(recorderRef.current?.getEventCount() ?? 0), 250);
+        return () => clearInterval(intervalId);
+    }, [recording]);
+
+    // Stop recording if the recorder goes away
+    useEffect(() => () => {
+        recorderRef.current?.stop();
+    }, []);
+
+    const startRecording = () => {
+        setTimeline(null);
+        setEventCount(0);
+        recorderRef.current = startVariableRecording();
+        setRecording(true);
+    };
+
+    const stopRecording = () => {
+        setTimeline(recorderRef.current?.stop() ?? null);
+        recorderRef.current = null;
+        setRecording(false);
+    };
+
+    const copyJson = async () => {
+        if (!timeline) return;
+        try {
+            await navigator.clipboard.writeText(exportVariableTimeline(timeline));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.warn('Failed to copy recording:', error);
+        }
+    };
+
+    return (
+        <div className="fixed bottom-4 left-4 z-50 flex flex-col items-start gap-2">
+            {timeline && (
+                <div className="w-[420px] rounded-lg border bg-background p-2 shadow-lg">
+                    <div className="flex items-center justify-between px-1 text-xs text-muted-foreground">
+                        <span>
+                            {timeline.events.length} {timeline.events.length === 1 ? 'change' : 'changes'} recorded
+                        </span>
+                        <div className="flex gap-1">
+                            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={copyJson}>
+                                <Copy /> {copied ? 'Copied' : 'Copy JSON'}
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 px-2"
+                                onClick={() => downloadJson(exportVariableTimeline(timeline), `recording-${timeline.recordedAt ?? Date.now()}.json`)}
+                            >
+                                <Download /> Download
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-7 px-2" aria-label="Discard recording" onClick={() => setTimeline(null)}>
+                                <X />
+                            </Button>
+                        </div>
+                    </div>
+                    <VariableReplay timeline={timeline} title="" className="my-1" />
+                </div>
+            )}
+
+            {recording ? (
+                <Button variant="destructive" size="sm" className="shadow-md" onClick={stopRecording}>
+                    <Square /> Stop recording ({eventCount})
+                </Button>
+            ) : (
+                <Button variant="secondary" size="sm" className="shadow-md" onClick={startRecording}>
+                    <Circle className="text-red-500" /> Record variables
+                </Button>
+            )}
+        </div>
+    );
+};
+
+export default TimelineRecorder;
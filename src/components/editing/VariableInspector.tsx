@@ -0,0 +1,331 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Eye, Plus, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/atoms/ui/button';
+import { Input } from '@/components/atoms/ui/input';
+import { Slider } from '@/components/atoms/ui/slider';
+import { Switch } from '@/components/atoms/ui/switch';
+import { Textarea } from '@/components/atoms/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/atoms/ui/select';
+import type { VariableDefinition } from '@/data/variables';
+import { getVariableKind } from '@/lib/variable-constraints';
+import { getVariableReaders, onVariableReadersChange, type VariableReaderSummary } from '@/lib/variable-readers';
+import { SCOPE_SEPARATOR } from '@/lib/variable-scope';
+import { useVariableStore, type VarValue } from '@/stores';
+
+// Outline drawn around the blocks that read the hovered variable
+const HIGHLIGHT_CLASSES = ['ring-2', 'ring-amber-400', 'ring-offset-2', 'rounded-lg'];
+
+const NO_READERS: VariableReaderSummary = { count: 0, blockIds: [] };
+
+const findBlocks = (blockIds: string[]): HTMLElement[] =>
+    blockIds.flatMap(id => Array.from(document.querySelectorAll<HTMLElement>(`[data-block-id="${CSS.escape(id)}"]`)));
+
+const formatValue = (value: VarValue | undefined): string => {
+    if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(4)));
+    if (typeof value === 'string' || typeof value === 'boolean') return String(value);
+    return JSON.stringify(value);
+};
+
+interface VariableControlProps {
+    definition: VariableDefinition;
+    value: VarValue | undefined;
+    onChange: (value: VarValue) => void;
+}
+
+const NumberControl = ({ definition, value, onChange }: VariableControlProps) => {
+    const current = typeof value === 'number' ? value : Number(definition.defaultValue);
+    const { min, max, step } = definition;
+
+    if (min !== undefined && max !== undefined) {
+        return (
+            <div className="flex items-center gap-3">
+                <Slider
+                    min={min}
+                    max={max}
+                    step={step ?? (max - min) / 100}
+                    value={[current]}
+                    onValueChange={([next]) => onChange(next)}
+                />
+                <span className="w-16 shrink-0 text-right font-mono text-xs tabular-nums">
+                    {formatValue(current)}{definition.unit ? ` ${definition.unit}` : ''}
+                </span>
+            </div>
+        );
+    }
+
+    return (
+        <Input
+            type="number"
+            className="h-8"
+            value={current}
+            min={min}
+            max={max}
+            step={step}
+            onChange={(e) => {
+                const next = e.target.valueAsNumber;
+                if (Number.isFinite(next)) onChange(next);
+            }}
+        />
+    );
+};
+
+const ArrayControl = ({ definition, value, onChange }: VariableControlProps) => {
+    const items = Array.isArray(value) ? value : [];
+    const fallback = Array.isArray(definition.defaultValue) ? definition.defaultValue[0] ?? 0 : 0;
+
+    return (
+        <div className="flex flex-wrap items-center gap-1">
+            {items.map((item, index) => (
+                <div key={index} className="flex items-center">
+                    <Input
+                        type="number"
+                        className="h-7 w-16 rounded-r-none px-2 text-xs"
+                        value={item}
+                        onChange={(e) => {
+                            const next = e.target.valueAsNumber;
+                            if (!Number.isFinite(next)) return;
+                            onChange(items.map((existing, i) => (i === index ? next : existing)));
+                        }}
+                    />
+                    <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-6 rounded-l-none border-l-0"
+                        aria-label={`Remove item ${index + 1}`}
+                        onClick={() => onChange(items.filter((_, i) => i !== index))}
+                    >
+                        <X className="h-3 w-3" />
+                    </Button>
+                </div>
+            ))}
+            <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => onChange([...items, items[items.length - 1] ?? fallback])}
+            >
+                <Plus className="h-3 w-3" /> Add
+            </Button>
+        </div>
+    );
+};
+
+const ObjectControl = ({ value, onChange }: VariableControlProps) => {
+    // Edits are kept as text until they parse, then applied on blur
+    const [draft, setDraft] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const apply = () => {
+        if (draft === null) return;
+        try {
+            const parsed = JSON.parse(draft);
+            if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+                setError('Expected a JSON object');
+                return;
+            }
+            onChange(parsed);
+            setDraft(null);
+            setError(null);
+        } catch (parseError) {
+            setError(parseError instanceof Error ? parseError.message : 'Invalid JSON');
+        }
+    };
+
+    return (
+        <div className="space-y-1">
+            <Textarea
+                className="min-h-[72px] font-mono text-xs"
+                spellCheck={false}
+                value={draft ?? JSON.stringify(value ?? {}, null, 2)}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={apply}
+            />
+            {error && <div className="text-xs text-destructive">{error}</div>}
+        </div>
+    );
+};
+
+const VariableControl = (props: VariableControlProps) => {
+    const { definition, value, onChange } = props;
+
+    if (definition.derive) {
+        return (
+            <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-mono tabular-nums">
+                    {formatValue(value)}{definition.unit ? ` ${definition.unit}` : ''}
+                </span>
+                <span className="truncate text-muted-foreground">
+                    {definition.derive.expression ? `= ${definition.derive.expression}` : 'computed'}
+                </span>
+            </div>
+        );
+    }
+
+    switch (getVariableKind(definition)) {
+        case 'number':
+            return <NumberControl {...props} />;
+        case 'select':
+            return (
+                <Select value={String(value ?? '')} onValueChange={onChange}>
+                    <SelectTrigger className="h-8">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(definition.options ?? []).map(option => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            );
+        case 'boolean':
+            return <Switch checked={value === true} onCheckedChange={onChange} />;
+        case 'array':
+            return <ArrayControl {...props} />;
+        case 'object':
+            return <ObjectControl {...props} />;
+        default:
+            return (
+                <Input
+                    className="h-8"
+                    value={String(value ?? '')}
+                    placeholder={definition.placeholder}
+                    onChange={(e) => onChange(e.target.value)}
+                />
+            );
+    }
+};
+
+export interface VariableInspectorProps {
+    className?: string;
+}
+
+/**
+ * VariableInspector lists every defined variable with its current value and
+ * a control to change it, plus how many mounted components read it. Hovering
+ * a variable outlines the blocks that read it; clicking a block id scrolls to it.
+ */
+export const VariableInspector = ({ className = '' }: VariableInspectorProps) => {
+    const definitions = useVariableStore((state) => state.definitions);
+    const variables = useVariableStore((state) => state.variables);
+    const setVariable = useVariableStore((state) => state.setVariable);
+    const reset = useVariableStore((state) => state.reset);
+    const [readers, setReaders] = useState(getVariableReaders);
+    const [filter, setFilter] = useState('');
+    const [hovered, setHovered] = useState<string | null>(null);
+
+    useEffect(() => onVariableReadersChange(() => setReaders(getVariableReaders())), []);
+
+    // Global variables first, then scoped ones grouped by scope
+    const names = useMemo(() => {
+        const query = filter.trim().toLowerCase();
+        return Object.keys(definitions)
+            .filter(name => {
+                if (!query) return true;
+                const label = definitions[name].label?.toLowerCase() ?? '';
+                return name.toLowerCase().includes(query) || label.includes(query);
+            })
+            .sort((a, b) => Number(a.includes(SCOPE_SEPARATOR)) - Number(b.includes(SCOPE_SEPARATOR)));
+    }, [definitions, filter]);
+
+    const hoveredBlockIds = hovered ? readers[hovered]?.blockIds.join('\n') ?? '' : '';
+
+    useEffect(() => {
+        if (!hoveredBlockIds) return;
+        const elements = findBlocks(hoveredBlockIds.split('\n'));
+        elements.forEach(element => element.classList.add(...HIGHLIGHT_CLASSES));
+        return () => elements.forEach(element => element.classList.remove(...HIGHLIGHT_CLASSES));
+    }, [hoveredBlockIds]);
+
+    return (
+        <div className={`flex max-h-[70vh] w-96 flex-col rounded-lg border bg-background shadow-xl ${className}`}>
+            <div className="flex items-center gap-2 border-b p-2">
+                <Input
+                    className="h-8"
+                    placeholder={`Filter ${Object.keys(definitions).length} variables...`}
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                />
+                <Button variant="ghost" size="sm" className="h-8 shrink-0 px-2" onClick={reset}>
+                    <RotateCcw /> Reset
+                </Button>
+            </div>
+
+            <div className="flex-1 overflow-auto">
+                {names.length === 0 && (
+                    <div className="p-4 text-center text-sm text-muted-foreground">No variables</div>
+                )}
+                {names.map(name => {
+                    const definition = definitions[name];
+                    const summary = readers[name] ?? NO_READERS;
+                    const separator = name.lastIndexOf(SCOPE_SEPARATOR);
+
+                    return (
+                        <div
+                            key={name}
+                            className={`space-y-2 border-b px-3 py-2 last:border-b-0 ${hovered === name ? 'bg-muted/50' : ''}`}
+                            onMouseEnter={() => setHovered(name)}
+                            onMouseLeave={() => setHovered(null)}
+                        >
+                            <div className="flex items-start justify-between gap-2">
+                                <div className="min-w-0">
+                                    <div className="truncate text-sm font-medium">
+                                        {definition.label ?? name}
+                                        {definition.unit && (
+                                            <span className="ml-1 font-normal text-muted-foreground">({definition.unit})</span>
+                                        )}
+                                    </div>
+                                    <div className="truncate font-mono text-xs text-muted-foreground">
+                                        {separator === -1 ? name : (
+                                            <>
+                                                {name.slice(separator + 1)}
+                                                <span className="ml-1 rounded bg-muted px-1">in {name.slice(0, separator)}</span>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                                <span
+                                    className={`flex shrink-0 items-center gap-1 text-xs tabular-nums ${summary.count > 0 ? 'text-foreground' : 'text-muted-foreground'}`}
+                                    title={`${summary.count} mounted ${summary.count === 1 ? 'reader' : 'readers'}`}
+                                >
+                                    <Eye className="h-3 w-3" /> {summary.count}
+                                </span>
+                            </div>
+
+                            {definition.description && (
+                                <div className="text-xs text-muted-foreground">{definition.description}</div>
+                            )}
+
+                            <VariableControl
+                                definition={definition}
+                                value={variables[name]}
+                                onChange={(value) => setVariable(name, value)}
+                            />
+
+                            {summary.blockIds.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                    {summary.blockIds.map(blockId => (
+                                        <button
+                                            key={blockId}
+                                            className="rounded bg-amber-100 px-1.5 py-0.5 font-mono text-[10px] text-amber-900 hover:bg-amber-200"
+                                            onClick={() => findBlocks([blockId])[0]?.scrollIntoView({ behavior: 'smooth', block: 'center' })}
+                                        >
+                                            {blockId}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default VariableInspector;
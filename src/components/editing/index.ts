@@ -1,3 +1,5 @@
 export { EditableText, withEditableText } from './EditableText';
 export { EquationEditorModal } from './EquationEditorModal';
 export { ScrubbleNumberEditorModal } from './ScrubbleNumberEditorModal';
+export { TimelineRecorder } from './TimelineRecorder';
+export { VariableInspector } from './VariableInspector';
@@ -0,0 +1,45 @@
+import { type ReactNode } from "react";
+import { AlertTriangle, BookOpen, Info, Lightbulb, Sigma, type LucideIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { type CalloutVariant } from "@/lib/rich-blocks";
+
+const VARIANTS: Record<CalloutVariant, { label: string; icon?: LucideIcon; className: string }> = {
+    info: { label: "Note", icon: Info, className: "border-blue-400 bg-blue-50 text-blue-900" },
+    warning: { label: "Warning", icon: AlertTriangle, className: "border-amber-400 bg-amber-50 text-amber-900" },
+    tip: { label: "Tip", icon: Lightbulb, className: "border-emerald-400 bg-emerald-50 text-emerald-900" },
+    definition: { label: "Definition", icon: BookOpen, className: "border-purple-400 bg-purple-50 text-purple-900" },
+    theorem: { label: "Theorem", icon: Sigma, className: "border-[#0D7377] bg-[#D4EDE5]/60 text-gray-900" },
+    proof: { label: "Proof", className: "border-gray-300 bg-transparent text-gray-800" },
+};
+
+export interface CalloutProps {
+    children: ReactNode;
+    /** Kind of callout, which sets its color, icon and label (default: "info") */
+    variant?: CalloutVariant;
+    /** Label shown above the text (default: the variant's name, e.g. "Warning") */
+    title?: string;
+    className?: string;
+}
+
+/**
+ * Callout component for notes, warnings, tips and mathematical statements
+ * set apart from the main text. Proofs end with a ∎.
+ */
+export const Callout = ({ children, variant = "info", title, className = "" }: CalloutProps) => {
+    const { label, icon: Icon, className: variantClassName } = VARIANTS[variant] ?? VARIANTS.info;
+
+    return (
+        <aside className={cn("my-2 rounded-r-lg border-l-4 px-4 py-3", variantClassName, className)} data-callout={variant}>
+            <div className={cn("mb-1 flex items-center gap-2 text-sm font-semibold", variant === "proof" && "italic")}>
+                {Icon && <Icon className="h-4 w-4" />}
+                {title ?? label}
+            </div>
+            <div className="text-base leading-relaxed">
+                {children}
+                {variant === "proof" && <span className="float-right">∎</span>}
+            </div>
+        </aside>
+    );
+};
+
+export default Callout;
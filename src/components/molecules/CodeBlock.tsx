@@ -0,0 +1,45 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { highlightCode, type CodeTokenType } from "@/lib/code-highlight";
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+    keyword: "text-purple-300",
+    string: "text-emerald-300",
+    comment: "italic text-gray-400",
+    number: "text-amber-300",
+    plain: "",
+};
+
+export interface CodeBlockProps {
+    /** The code to show */
+    code: string;
+    /** Language used for highlighting, e.g. "python" or "ts" (default: none) */
+    language?: string;
+    className?: string;
+}
+
+/**
+ * CodeBlock component for code snippets with syntax highlighting.
+ */
+export const CodeBlock = ({ code, language = "", className = "" }: CodeBlockProps) => {
+    const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+    return (
+        <div className={cn("relative my-2 overflow-hidden rounded-lg bg-gray-900", className)}>
+            {language && language !== "plain" && (
+                <span className="absolute right-3 top-2 text-xs uppercase tracking-wider text-gray-400">
+                    {language}
+                </span>
+            )}
+            <pre className="overflow-x-auto p-4 text-sm leading-relaxed text-gray-100">
+                <code>
+                    {tokens.map((token, index) => (
+                        <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                    ))}
+                </code>
+            </pre>
+        </div>
+    );
+};
+
+export default CodeBlock;
@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { ImageOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface FigureProps {
+    /** Image URL */
+    src: string;
+    /** Text alternative for screen readers, also shown if the image fails to load */
+    alt?: string;
+    /** Caption shown below the image */
+    caption?: string;
+    className?: string;
+}
+
+/**
+ * Figure component for an image with an optional caption.
+ */
+export const Figure = ({ src, alt = "", caption, className = "" }: FigureProps) => {
+    const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+    return (
+        <figure className={cn("my-4", className)}>
+            {failedSrc === src ? (
+                <div className="mx-auto flex h-40 max-w-md flex-col items-center justify-center gap-2 rounded-lg border border-dashed text-sm text-muted-foreground">
+                    <ImageOff className="h-6 w-6" />
+                    {alt || "Image could not be loaded"}
+                </div>
+            ) : (
+                <img
+                    src={src}
+                    alt={alt}
+                    loading="lazy"
+                    className="mx-auto max-h-[480px] rounded-lg"
+                    onError={() => setFailedSrc(src)}
+                />
+            )}
+            {caption && (
+                <figcaption className="mt-2 text-center text-sm text-muted-foreground">
+                    {caption}
+                </figcaption>
+            )}
+        </figure>
+    );
+};
+
+export default Figure;
@@ -0,0 +1,37 @@
+import { cn } from "@/lib/utils";
+
+export interface SimpleTableProps {
+    /** Column headers */
+    headers: string[];
+    /** Body rows; missing cells are left empty */
+    rows: string[][];
+    className?: string;
+}
+
+/**
+ * SimpleTable component for small tables of text.
+ */
+export const SimpleTable = ({ headers, rows, className = "" }: SimpleTableProps) => (
+    <div className={cn("my-2 overflow-x-auto", className)}>
+        <table className="w-full border-collapse text-left text-base">
+            <thead>
+                <tr className="border-b-2 border-gray-300">
+                    {headers.map((header, index) => (
+                        <th key={index} className="px-3 py-2 font-semibold text-gray-900">{header}</th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-b border-gray-200">
+                        {headers.map((_, index) => (
+                            <td key={index} className="px-3 py-2 text-gray-800">{row[index] ?? ""}</td>
+                        ))}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+export default SimpleTable;
@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useState } from "react";
+import { Pause, Play, RotateCcw } from "lucide-react";
+import { Button } from "@/components/atoms/ui/button";
+import { Slider } from "@/components/atoms/ui/slider";
+import {
+    createTimelinePlayer,
+    parseVariableTimeline,
+    type TimelinePlayer,
+    type TimelinePlayerState,
+} from "@/lib/variable-timeline";
+
+export interface VariableReplayProps {
+    /** A recorded variable timeline, e.g. an imported JSON file (see `@/lib/variable-timeline`) */
+    timeline: unknown;
+    /** Heading shown above the controls */
+    title?: string;
+    /** Playback speeds to offer */
+    speeds?: number[];
+    className?: string;
+}
+
+const formatTime = (ms: number): string => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/**
+ * VariableReplay plays a recorded exploration of the lesson ("watch how this
+ * works"). It drives the lesson's variables, so the inline numbers and
+ * visuals on the page move exactly as they did while recording.
+ *
+ * @example
+ * ```tsx
+ * import recording from "./recordings/wave-intro.json";
+ *
+ * <VariableReplay timeline={recording} title="Watch how amplitude changes the wave" />
+ * ```
+ */
+export const VariableReplay = ({
+    timeline,
+    title = "Watch how this works",
+    speeds = [0.5, 1, 1.5, 2],
+    className = "",
+}: VariableReplayProps) => {
+    const parsed = useMemo(() => {
+        try {
+            return { timeline: parseVariableTimeline(timeline), error: null };
+        } catch (error) {
+            console.warn("VariableReplay:", error);
+            return { timeline: null, error: error instanceof Error ? error.message : String(error) };
+        }
+    }, [timeline]);
+
+    const [player, setPlayer] = useState<TimelinePlayer | null>(null);
+    const [state, setState] = useState<TimelinePlayerState | null>(null);
+
+    useEffect(() => {
+        if (!parsed.timeline) return;
+        const created = createTimelinePlayer(parsed.timeline);
+        setPlayer(created);
+        setState(created.getState());
+        const unsubscribe = created.subscribe(setState);
+
+        return () => {
+            unsubscribe();
+            created.dispose();
+        };
+    }, [parsed.timeline]);
+
+    if (parsed.error) {
+        return (
+            <div className={`my-4 rounded-lg border border-dashed p-3 text-sm text-muted-foreground ${className}`}>
+                This replay can't be played: {parsed.error}
+            </div>
+        );
+    }
+
+    if (!player || !state) return null;
+
+    const finished = !state.playing && state.time >= state.duration;
+
+    return (
+        <div className={`my-4 rounded-lg border bg-muted/40 p-3 ${className}`}>
+            {title && <div className="mb-2 text-sm font-medium">{title}</div>}
+            <div className="flex items-center gap-3">
+                <Button
+                    variant="secondary"
+                    size="icon"
+                    aria-label={state.playing ? "Pause" : finished ? "Replay" : "Play"}
+                    onClick={() => (state.playing ? player.pause() : player.play())}
+                >
+                    {state.playing ? <Pause /> : finished ? <RotateCcw /> : <Play />}
+                </Button>
+
+                <Slider
+                    className="flex-1"
+                    min={0}
+                    max={Math.max(state.duration, 1)}
+                    step={10}
+                    value={[state.time]}
+                    onValueChange={([time]) => player.seek(time)}
+                    aria-label="Seek"
+                />
+
+                <span className="w-20 text-right text-xs tabular-nums text-muted-foreground">
+                    {formatTime(state.time)} / {formatTime(state.duration)}
+                </span>
+
+                <div className="flex gap-1">
+                    {speeds.map(speed => (
+                        <Button
+                            key={speed}
+                            variant={state.speed === speed ? "default" : "ghost"}
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => player.setSpeed(speed)}
+                        >
+                            {speed}×
+                        </Button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default VariableReplay;
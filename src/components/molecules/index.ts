@@ -2,8 +2,13 @@
 export { Heading } from "./Heading";
 export { Paragraph } from "./Paragraph";
 export { MathBlock } from "./MathBlock";
+export { Callout } from "./Callout";
+export { CodeBlock } from "./CodeBlock";
+export { Figure } from "./Figure";
+export { SimpleTable } from "./SimpleTable";
 
 // Interactive Components
 export { InteractiveTerm } from "./InteractiveTerm";
 export { InteractiveEquation } from "./InteractiveEquation";
 export { InteractiveParagraph } from "./InteractiveParagraph";
+export { VariableReplay } from "./VariableReplay";
@@ -17,10 +17,11 @@ import {
     Pause,
     Palette
 } from "lucide-react";
+import { ANIMATION_VARIANTS, DEFAULT_ANIMATION_VARIANTS, type AnimationType } from "./animation-variants";
 
 export interface InteractiveAnimationProps {
     /** Animation type */
-    type?: "background" | "shapes" | "particles" | "graph";
+    type?: AnimationType;
     /** Initial variant */
     initialVariant?: string;
     /** Show controls */
@@ -75,22 +76,7 @@ export const InteractiveAnimation = ({
     const [showAxes, setShowAxes] = useState(true);
     const [showGrid, setShowGrid] = useState(false);
 
-    // Variant selection
-    const variants = {
-        background: ["waves", "particles", "grid", "aurora", "constellation"],
-        shapes: ["circle-to-square", "polygon-morph", "flower", "spiral", "geometric"],
-        particles: ["fireworks", "galaxy", "fluid", "magnetic", "trail"],
-        graph: ["sine-wave", "parametric", "pendulum", "fourier", "lissajous"],
-    };
-
-    const defaultVariants = {
-        background: "waves",
-        shapes: "flower",
-        particles: "magnetic",
-        graph: "sine-wave",
-    };
-
-    const [variant, setVariant] = useState(initialVariant || defaultVariants[type]);
+    const [variant, setVariant] = useState(initialVariant || DEFAULT_ANIMATION_VARIANTS[type]);
 
     // Color presets
     const colorPresets = [
@@ -110,7 +96,7 @@ export const InteractiveAnimation = ({
         setShowAxes(true);
         setShowGrid(false);
         setIsPlaying(true);
-        setVariant(defaultVariants[type]);
+        setVariant(DEFAULT_ANIMATION_VARIANTS[type]);
     };
 
     const renderAnimation = () => {
@@ -393,7 +379,7 @@ export const InteractiveAnimation = ({
                             {/* Variants Tab */}
                             <TabsContent value="variants" className="space-y-4">
                                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                                    {variants[type].map((v) => (
+                                    {ANIMATION_VARIANTS[type].map((v) => (
                                         <Button
                                             key={v}
                                             variant={variant === v ? "default" : "outline"}
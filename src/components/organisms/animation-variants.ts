@@ -0,0 +1,18 @@
+/** Kinds of Two.js animation shown by InteractiveAnimation */
+export type AnimationType = "background" | "shapes" | "particles" | "graph";
+
+/** Variants each animation type can switch between */
+export const ANIMATION_VARIANTS: Record<AnimationType, string[]> = {
+    background: ["waves", "particles", "grid", "aurora", "constellation"],
+    shapes: ["circle-to-square", "polygon-morph", "flower", "spiral", "geometric"],
+    particles: ["fireworks", "galaxy", "fluid", "magnetic", "trail"],
+    graph: ["sine-wave", "parametric", "pendulum", "fourier", "lissajous"],
+};
+
+/** Variant shown when no initial variant is given */
+export const DEFAULT_ANIMATION_VARIANTS: Record<AnimationType, string> = {
+    background: "waves",
+    shapes: "flower",
+    particles: "magnetic",
+    graph: "sine-wave",
+};
@@ -10,6 +10,9 @@ import {
 import { GripVertical, Plus, Send, Pencil } from "lucide-react";
 import { AnnotationOverlay } from "@/components/atoms/AnnotationOverlay";
 import { useBlockContext } from "@/contexts/BlockContext";
+import { sendToHost } from "@/lib/host-protocol";
+import type { VariableDefinition } from "@/data/variables";
+import { VariableScope } from "./VariableScope";
 
 export interface BlockProps {
     /** Unique identifier for the block */
@@ -20,6 +23,8 @@ export interface BlockProps {
     className?: string;
     /** Optional padding override */
     padding?: "none" | "sm" | "md" | "lg";
+    /** Variables local to this block (see VariableScope); requires an id */
+    variables?: Record<string, VariableDefinition>;
     /** Whether in preview mode */
     isPreview?: boolean;
     /** Callback to send instruction to AI */
@@ -61,6 +66,7 @@ export const Block = ({
     children,
     className = "",
     padding = "md",
+    variables,
     isPreview = false,
     onEditBlock,
     onAddBlock,
@@ -114,11 +120,11 @@ export const Block = ({
 
         if (id) {
             // Send message to parent window with annotated image
-            window.parent.postMessage({
+            sendToHost({
                 type: 'add-annotation-to-chat',
                 blockId: id,
                 imageDataUrl: imageDataUrl,
-            }, '*');
+            });
 
             // Also call the callback if provided
             if (handleEdit) {
@@ -136,10 +142,10 @@ export const Block = ({
             }
 
             // Send message to parent window to highlight in hierarchy
-            window.parent.postMessage({
+            sendToHost({
                 type: 'block-selected',
                 blockId: id,
-            }, '*');
+            });
         }
     };
 
@@ -222,10 +228,10 @@ export const Block = ({
                                     onClick={() => {
                                         if (id) {
                                             // Send message to parent window with block context
-                                            window.parent.postMessage({
+                                            sendToHost({
                                                 type: 'add-to-chat',
                                                 blockId: id,
-                                            }, '*');
+                                            });
 
                                             // Also call the callback if provided (for backwards compatibility)
                                             if (handleEdit) {
@@ -261,7 +267,9 @@ export const Block = ({
                 )}
 
                 <div className="flex-1 min-w-0">
-                    {children}
+                    {variables && id ? (
+                        <VariableScope id={id} variables={variables}>{children}</VariableScope>
+                    ) : children}
                 </div>
             </div>
         </>
@@ -0,0 +1,266 @@
+import { useState, type KeyboardEvent, type ReactNode } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/atoms/ui/button";
+import { Input } from "@/components/atoms/ui/input";
+import { Switch } from "@/components/atoms/ui/switch";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/atoms/ui/select";
+import { parseExpression } from "@/lib/expression";
+import { parseMarkerList, serializeMarkerList, type InlineMarkerType } from "@/lib/inline-markers";
+import { useVariableStore } from "@/stores";
+
+const TITLES: Record<InlineMarkerType, string> = {
+    inlineScrubbleNumber: "Scrubble Number",
+    inlineDropdown: "Dropdown",
+    inlineTextInput: "Text Input",
+    inlineExpression: "Formula",
+};
+
+/**
+ * Why the props can't be used as they are, if anything is wrong
+ */
+const getInlinePropsError = (type: InlineMarkerType, props: Record<string, string>): string | null => {
+    switch (type) {
+        case "inlineExpression":
+            if (!props.expression?.trim()) return "Enter an expression";
+            try {
+                parseExpression(props.expression);
+                return null;
+            } catch (error) {
+                return error instanceof Error ? error.message : String(error);
+            }
+        case "inlineDropdown":
+            return parseMarkerList(props.options).length === 0 ? "Add at least one option" : null;
+        case "inlineScrubbleNumber":
+            return Number(props.min) > Number(props.max) ? "Min is greater than max" : null;
+        default:
+            return null;
+    }
+};
+
+const Field = ({ label, children, className = "" }: { label: string; children: ReactNode; className?: string }) => (
+    <label className={`block space-y-1 ${className}`}>
+        <span className="text-xs font-medium text-muted-foreground">{label}</span>
+        {children}
+    </label>
+);
+
+interface InlineComponentPopoverProps {
+    type: InlineMarkerType;
+    /** Unique id of the component, used for the default variable name */
+    componentId: string;
+    props: Record<string, string>;
+    onChange: (props: Record<string, string>) => void;
+    onDone: () => void;
+    onRemove: () => void;
+}
+
+/**
+ * Property form for an inline component inserted in a SectionInput; the props
+ * end up in the component's marker (see `@/lib/inline-markers`)
+ */
+export const InlineComponentPopover = ({
+    type,
+    componentId,
+    props,
+    onChange,
+    onDone,
+    onRemove,
+}: InlineComponentPopoverProps) => {
+    // The options field keeps what was typed (e.g. a trailing comma) until it is parsed
+    const [optionsText, setOptionsText] = useState(() => parseMarkerList(props.options).join(", "));
+    const definitions = useVariableStore((state) => state.definitions);
+    const error = getInlinePropsError(type, props);
+
+    const set = (key: string, value: string) => onChange({ ...props, [key]: value });
+
+    // Enter confirms valid props; Escape also drops a component whose props are unusable
+    const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+        // Already handled, e.g. by an open select
+        if (e.defaultPrevented) return;
+        if (e.key === "Enter") {
+            e.preventDefault();
+            if (!error) onDone();
+        } else if (e.key === "Escape") {
+            e.preventDefault();
+            if (error) onRemove();
+            else onDone();
+        }
+    };
+
+    let fields: ReactNode;
+    switch (type) {
+        case "inlineScrubbleNumber": {
+            const numberVariables = Object.keys(definitions).filter(name => typeof definitions[name].defaultValue === "number");
+            fields = (
+                <>
+                    <Field label="Variable">
+                        <Input
+                            autoFocus
+                            className="h-8 font-mono text-sm"
+                            list={`${componentId}-variables`}
+                            placeholder={`var_${componentId}`}
+                            value={props.var ?? ""}
+                            onChange={(e) => set("var", e.target.value.trim())}
+                        />
+                        <datalist id={`${componentId}-variables`}>
+                            {numberVariables.map(name => <option key={name} value={name} />)}
+                        </datalist>
+                    </Field>
+                    <div className="grid grid-cols-4 gap-2">
+                        {(["value", "min", "max", "step"] as const).map(key => (
+                            <Field key={key} label={key === "value" ? "Default" : key[0].toUpperCase() + key.slice(1)}>
+                                <Input
+                                    type="number"
+                                    className="h-8 px-2 text-sm"
+                                    value={props[key] ?? ""}
+                                    onChange={(e) => set(key, e.target.value)}
+                                />
+                            </Field>
+                        ))}
+                    </div>
+                </>
+            );
+            break;
+        }
+        case "inlineDropdown": {
+            const options = parseMarkerList(props.options);
+            fields = (
+                <>
+                    <Field label="Options (comma separated)">
+                        <Input
+                            autoFocus
+                            className="h-8 text-sm"
+                            value={optionsText}
+                            onChange={(e) => {
+                                const nextOptions = e.target.value.split(",").map(option => option.trim()).filter(Boolean);
+                                setOptionsText(e.target.value);
+                                onChange({
+                                    ...props,
+                                    options: serializeMarkerList(nextOptions),
+                                    answer: nextOptions.includes(props.answer) ? props.answer : nextOptions[0] ?? "",
+                                });
+                            }}
+                        />
+                    </Field>
+                    <Field label="Correct answer">
+                        <Select value={props.answer || undefined} onValueChange={(value) => set("answer", value)}>
+                            <SelectTrigger className="h-8 text-sm">
+                                <SelectValue placeholder="Choose an option" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {options.map(option => (
+                                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </Field>
+                </>
+            );
+            break;
+        }
+        case "inlineTextInput":
+            fields = (
+                <>
+                    <Field label="Correct answer">
+                        <Input
+                            autoFocus
+                            className="h-8 text-sm"
+                            value={props.answer ?? ""}
+                            onChange={(e) => set("answer", e.target.value)}
+                        />
+                    </Field>
+                    <Field label="Placeholder">
+                        <Input
+                            className="h-8 text-sm"
+                            value={props.placeholder ?? ""}
+                            onChange={(e) => set("placeholder", e.target.value)}
+                        />
+                    </Field>
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs font-medium text-muted-foreground">Case sensitive</span>
+                        <Switch
+                            checked={props.caseSensitive === "true"}
+                            onCheckedChange={(checked) => set("caseSensitive", checked ? "true" : "")}
+                        />
+                    </div>
+                </>
+            );
+            break;
+        case "inlineExpression":
+            fields = (
+                <>
+                    <Field label="Expression">
+                        <Input
+                            autoFocus
+                            className="h-8 font-mono text-sm"
+                            placeholder="pi * radius^2"
+                            value={props.expression ?? ""}
+                            onChange={(e) => set("expression", e.target.value)}
+                        />
+                    </Field>
+                    <div className="flex gap-2">
+                        <Field label="Decimals" className="w-20">
+                            <Input
+                                type="number"
+                                min={0}
+                                max={20}
+                                className="h-8 px-2 text-sm"
+                                value={props.precision ?? ""}
+                                onChange={(e) => set("precision", e.target.value)}
+                            />
+                        </Field>
+                        <Field label="Unit" className="flex-1">
+                            <Input
+                                className="h-8 text-sm"
+                                placeholder="From variable"
+                                value={props.unit ?? ""}
+                                onChange={(e) => set("unit", e.target.value)}
+                            />
+                        </Field>
+                        <Field label="Notation" className="w-28">
+                            <Select value={props.notation || "auto"} onValueChange={(value) => set("notation", value === "auto" ? "" : value)}>
+                                <SelectTrigger className="h-8 text-sm">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="auto">Auto</SelectItem>
+                                    <SelectItem value="standard">Standard</SelectItem>
+                                    <SelectItem value="scientific">Scientific</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </Field>
+                    </div>
+                </>
+            );
+            break;
+    }
+
+    return (
+        <div
+            className="absolute left-0 top-full z-50 mt-1 w-[360px] space-y-2 rounded-lg border border-border bg-white p-3 shadow-lg"
+            onKeyDown={handleKeyDown}
+        >
+            <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                {TITLES[type]}
+            </div>
+            {fields}
+            {error && <div className="text-xs text-destructive">{error}</div>}
+            <div className="flex justify-between gap-2 pt-1">
+                <Button variant="ghost" size="sm" className="text-destructive" onClick={onRemove}>
+                    <Trash2 /> Remove
+                </Button>
+                <Button size="sm" disabled={!!error} onClick={onDone}>
+                    Done
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default InlineComponentPopover;
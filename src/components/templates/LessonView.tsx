@@ -1,4 +1,4 @@
-import { useEffect, useState, type ReactElement, isValidElement, Children, type ReactNode, cloneElement } from "react";
+import { useCallback, useEffect, useRef, useState, type ReactElement, isValidElement, Children, type ReactNode, cloneElement } from "react";
 import { Block } from "./Block";
 import { SectionInput } from "./SectionInput";
 import { type SlashCommandType } from "./SlashCommandMenu";
@@ -8,9 +8,12 @@ import {
     EditableH3,
     EditableParagraph,
     InlineScrubbleNumber,
+    InlineExpression,
     InlineDropdown,
-    InlineTextInput
+    InlineTextInput,
+    Equation
 } from "@/components/atoms";
+import { Callout, CodeBlock, Figure, SimpleTable } from "@/components/molecules";
 import { EditableText } from "@/components/editing/EditableText";
 import { FullWidthLayout } from "@/components/layouts";
 import { WelcomeScreen } from "./WelcomeScreen";
@@ -20,87 +23,238 @@ import { loadSections, createSectionsWatcher } from "@/lib/section-loader";
 import sectionLoaderConfig from "@/config/sections-loader.config";
 import { useAppMode } from "@/contexts/AppModeContext";
 import { LoadingScreen } from "@/components/atoms/LoadingScreen";
-import { useOptionalEditing } from "@/contexts/EditingContext";
+import { ShareLinkButton } from "@/components/atoms/ShareLinkButton";
+import { ResetLessonButton } from "@/components/atoms/ResetLessonButton";
+import { LearnerProgressPersistence } from "@/components/LearnerProgressPersistence";
+import { TimelineRecorder } from "@/components/editing/TimelineRecorder";
+import { useOptionalEditing, type PendingEdit } from "@/contexts/EditingContext";
+import { onHostMessage, sendToHost } from "@/lib/host-protocol";
+import {
+    getMarkerBoolean,
+    getMarkerNotation,
+    getMarkerNumber,
+    getMarkerProp,
+    hasInlineMarkers,
+    parseMarkerList,
+    splitInlineMarkers,
+    type InlineMarker,
+} from "@/lib/inline-markers";
+import {
+    parseCallout,
+    parseCodeBlock,
+    parseEquation,
+    parseImage,
+    parseList,
+    parseTable,
+} from "@/lib/rich-blocks";
+import { useLessonTreeStore } from "@/stores";
+import type { LessonElementNode } from "@/lib/lesson-schema";
 
 /**
- * Parse content that may contain inline component markers and convert to React elements
- * Markers are in format: {{componentType:uniqueId}}
- * Example: "Text with {{inlineScrubbleNumber:123}} inline component"
+ * Create the inline component for a marker (see `@/lib/inline-markers`);
+ * props missing from the marker get the defaults new components start with
  */
-const parseContentWithInlineComponents = (content: string): React.ReactNode[] => {
-    // Regex to match inline component markers
-    const markerRegex = /\{\{(inlineScrubbleNumber|inlineDropdown|inlineTextInput):([^}]+)\}\}/g;
-
-    const parts: React.ReactNode[] = [];
-    let lastIndex = 0;
-    let match;
-
-    while ((match = markerRegex.exec(content)) !== null) {
-        // Add text before the marker
-        if (match.index > lastIndex) {
-            parts.push(content.slice(lastIndex, match.index));
-        }
-
-        const [, componentType, uniqueId] = match;
-
-        // Create the appropriate inline component
-        switch (componentType) {
-            case "inlineScrubbleNumber":
-                parts.push(
-                    <InlineScrubbleNumber
-                        key={uniqueId}
-                        varName={`var_${uniqueId}`}
-                        defaultValue={10}
-                        min={0}
-                        max={100}
-                    />
-                );
-                break;
-            case "inlineDropdown":
-                parts.push(
-                    <InlineDropdown
-                        key={uniqueId}
-                        correctAnswer="Option 1"
-                        options={["Option 1", "Option 2", "Option 3"]}
-                    />
-                );
-                break;
-            case "inlineTextInput":
-                parts.push(
-                    <InlineTextInput
-                        key={uniqueId}
-                        correctAnswer="answer"
-                        placeholder="Type answer..."
-                    />
-                );
-                break;
-            default:
-                // If unknown, just keep the text
-                parts.push(match[0]);
+const renderInlineMarker = (marker: InlineMarker): React.ReactNode => {
+    const { type, id: uniqueId } = marker;
+
+    switch (type) {
+        case "inlineScrubbleNumber":
+            return (
+                <InlineScrubbleNumber
+                    key={uniqueId}
+                    varName={getMarkerProp(marker, "var") || `var_${uniqueId}`}
+                    defaultValue={getMarkerNumber(marker, "value", getMarkerNumber(marker, "min", 0))}
+                    min={getMarkerNumber(marker, "min", 0)}
+                    max={getMarkerNumber(marker, "max", 100)}
+                    step={getMarkerNumber(marker, "step", 1)}
+                />
+            );
+        case "inlineDropdown": {
+            const options = parseMarkerList(getMarkerProp(marker, "options"));
+            return (
+                <InlineDropdown
+                    key={uniqueId}
+                    id={`dropdown-${uniqueId}`}
+                    correctAnswer={getMarkerProp(marker, "answer") ?? options[0] ?? ""}
+                    options={options}
+                    placeholder={getMarkerProp(marker, "placeholder")}
+                />
+            );
         }
-
-        lastIndex = match.index + match[0].length;
+        case "inlineTextInput":
+            return (
+                <InlineTextInput
+                    key={uniqueId}
+                    id={`text-input-${uniqueId}`}
+                    correctAnswer={getMarkerProp(marker, "answer") ?? ""}
+                    placeholder={getMarkerProp(marker, "placeholder")}
+                    caseSensitive={getMarkerBoolean(marker, "caseSensitive")}
+                />
+            );
+        case "inlineExpression":
+            return (
+                <InlineExpression
+                    key={uniqueId}
+                    expression={getMarkerProp(marker, "expression") ?? ""}
+                    precision={getMarkerNumber(marker, "precision", 2)}
+                    fixed={getMarkerBoolean(marker, "fixed")}
+                    thousands={getMarkerBoolean(marker, "thousands", true)}
+                    notation={getMarkerNotation(marker)}
+                    unit={getMarkerProp(marker, "unit")}
+                />
+            );
     }
+};
 
-    // Add any remaining text after the last marker
-    if (lastIndex < content.length) {
-        parts.push(content.slice(lastIndex));
-    }
+/**
+ * Parse content that may contain inline component markers and convert to React elements
+ * Markers are in format: {{componentType:uniqueId}} or {{componentType:uniqueId|key=value|...}}
+ * Example: "Pick {{inlineDropdown:123|options=a,b,c|answer=b}} inline component"
+ */
+const parseContentWithInlineComponents = (content: string): React.ReactNode[] =>
+    splitInlineMarkers(content).map(part => (typeof part === "string" ? part : renderInlineMarker(part)));
 
-    // If no markers were found, return the original content
-    if (parts.length === 0) {
-        return [content];
+const renderInlineContent = (content: string): React.ReactNode =>
+    hasInlineMarkers(content) ? parseContentWithInlineComponents(content) : content;
+
+/**
+ * Render the content of a committed block based on its block type
+ */
+const renderCommittedContent = (sectionId: string, content: string, blockType?: string): React.ReactNode => {
+    let contentElement: React.ReactNode;
+
+    // Parse content for inline components
+    const parsedContent = renderInlineContent(content);
+
+    switch (blockType) {
+        case "h1":
+            contentElement = (
+                <EditableH1 sectionId={sectionId}>
+                    {parsedContent}
+                </EditableH1>
+            );
+            break;
+        case "h2":
+            contentElement = (
+                <EditableH2 sectionId={sectionId}>
+                    {parsedContent}
+                </EditableH2>
+            );
+            break;
+        case "h3":
+            contentElement = (
+                <EditableH3 sectionId={sectionId}>
+                    {parsedContent}
+                </EditableH3>
+            );
+            break;
+        case "quote":
+            contentElement = (
+                <blockquote className="border-l-4 border-gray-300 pl-4 py-2">
+                    <EditableText
+                        sectionId={sectionId}
+                        as="p"
+                        className="text-lg italic text-gray-600"
+                    >
+                        {parsedContent}
+                    </EditableText>
+                </blockquote>
+            );
+            break;
+        case "divider":
+            contentElement = (
+                <hr className="my-6 border-t border-gray-200" />
+            );
+            break;
+        case "equation": {
+            const { latex, colorMap } = parseEquation(content);
+            contentElement = (
+                <div className="my-4 flex justify-center text-2xl">
+                    <Equation latex={latex} colorMap={colorMap} />
+                </div>
+            );
+            break;
+        }
+        case "callout": {
+            const { variant, text } = parseCallout(content);
+            contentElement = (
+                <Callout variant={variant}>
+                    <EditableText sectionId={sectionId} as="p">
+                        {renderInlineContent(text)}
+                    </EditableText>
+                </Callout>
+            );
+            break;
+        }
+        case "bulletList":
+        case "numberedList": {
+            const List = blockType === "numberedList" ? "ol" : "ul";
+            contentElement = (
+                <List className={`${blockType === "numberedList" ? "list-decimal" : "list-disc"} space-y-1 pl-6 text-lg text-gray-800`}>
+                    {parseList(content).map((item, index) => (
+                        <EditableText key={index} sectionId={sectionId} as="li">
+                            {renderInlineContent(item)}
+                        </EditableText>
+                    ))}
+                </List>
+            );
+            break;
+        }
+        case "code": {
+            const { code, language } = parseCodeBlock(content);
+            contentElement = (
+                <CodeBlock code={code} language={language} />
+            );
+            break;
+        }
+        case "image": {
+            const { src, alt, caption } = parseImage(content);
+            contentElement = (
+                <Figure src={src} alt={alt} caption={caption || undefined} />
+            );
+            break;
+        }
+        case "table": {
+            const [headers = [], ...rows] = parseTable(content);
+            contentElement = (
+                <SimpleTable headers={headers} rows={rows} />
+            );
+            break;
+        }
+        case "paragraph":
+        default:
+            contentElement = (
+                <EditableParagraph sectionId={sectionId}>
+                    {parsedContent}
+                </EditableParagraph>
+            );
+            break;
     }
 
-    return parts;
+    return contentElement;
 };
 
 /**
- * Check if content contains inline component markers
+ * Create an empty block that shows the slash-command input
  */
-const hasInlineComponents = (content: string): boolean => {
-    return /\{\{(inlineScrubbleNumber|inlineDropdown|inlineTextInput):[^}]+\}\}/.test(content);
-};
+const createPlaceholderBlock = (
+    blockId: string,
+    onCommit: (sectionId: string, content: string, blockType?: SlashCommandType, node?: LessonElementNode) => void
+): ReactElement => (
+    <FullWidthLayout key={`layout-${blockId}`} maxWidth="xl">
+        <Block id={blockId} padding="sm">
+            <SectionInput
+                id={blockId}
+                onCommit={onCommit}
+                placeholder="Type '/' for commands"
+            />
+        </Block>
+    </FullWidthLayout>
+);
+
+// Content pushed by the host is built from lesson nodes; loaded lazily with the component registry
+type HostContent = typeof import("@/lib/host-content");
+const loadHostContent = (): Promise<HostContent> => import("@/lib/host-content");
 
 interface LessonViewProps {
     onEditSection?: (instruction: string) => void;
@@ -148,74 +302,196 @@ const replaceSectionContent = (element: ReactElement, targetId: string, newConte
     return element;
 };
 
+/**
+ * Helper to merge props into the element with given ID
+ */
+const updateElementProps = (element: ReactElement, targetId: string, props: Record<string, unknown>): ReactElement => {
+    if (!isValidElement(element)) return element;
+
+    if ((element as ReactElement).props.id === targetId) {
+        return cloneElement(element as ReactElement, props);
+    }
+
+    if ((element as ReactElement).props.children) {
+        const children = Children.map((element as ReactElement).props.children, (child) => {
+            return updateElementProps(child as ReactElement, targetId, props);
+        });
+
+        return cloneElement(element as ReactElement, {}, children);
+    }
+
+    return element;
+};
+
+/**
+ * Block id of a top-level section, from its `layout-` key or its first Block
+ */
+const getTopLevelBlockId = (section: ReactElement): string | undefined => {
+    if (typeof section.key === 'string' && section.key.startsWith('layout-')) {
+        return section.key.slice('layout-'.length);
+    }
+
+    const findBlock = (element: ReactNode): string | undefined => {
+        if (!isValidElement(element)) return undefined;
+        const el = element as ReactElement<{ id?: string; children?: ReactNode }>;
+        if (el.type === Block && el.props.id) return el.props.id;
+
+        let found: string | undefined;
+        Children.forEach(el.props.children, (child) => {
+            if (!found) found = findBlock(child);
+        });
+        return found;
+    };
+    return findBlock(section);
+};
+
+/**
+ * Check whether a top-level section is the one referred to by a block id
+ * (reorder edits may carry the `layout-` key suffix instead of the Block id)
+ */
+const matchesSectionId = (section: ReactElement, sectionId: string): boolean => {
+    return section.key === `layout-${sectionId}` || hasElementId(section, sectionId);
+};
+
+/**
+ * Replay structure edits (add, delete, reorder and host content changes) onto
+ * a list of sections. Used to rebuild the block tree when restoring persisted edits.
+ */
+const applyStructureEdits = (
+    sections: ReactElement[],
+    edits: PendingEdit[],
+    onCommit: (sectionId: string, content: string, blockType?: SlashCommandType, node?: LessonElementNode) => void,
+    hostContent: HostContent
+): ReactElement[] => {
+    return edits.reduce<ReactElement[]>((current, edit) => {
+        if (edit.type !== 'structure') return current;
+
+        switch (edit.action) {
+            case 'add': {
+                if (!edit.sectionId || current.some(section => hasElementId(section, edit.sectionId))) {
+                    return current;
+                }
+
+                let block: ReactElement;
+                if (edit.node) {
+                    block = hostContent.renderSection(edit.node);
+                } else {
+                    block = createPlaceholderBlock(edit.sectionId, onCommit);
+                    if (edit.blockType && edit.blockType !== 'placeholder') {
+                        block = replaceSectionContent(
+                            block,
+                            edit.sectionId,
+                            renderCommittedContent(edit.sectionId, edit.content ?? '', edit.blockType)
+                        );
+                    }
+                }
+
+                const index = edit.afterSectionId
+                    ? current.findIndex(section => hasElementId(section, edit.afterSectionId))
+                    : -1;
+                return index === -1
+                    ? [...current, block]
+                    : [...current.slice(0, index + 1), block, ...current.slice(index + 1)];
+            }
+            case 'delete':
+                return edit.sectionId
+                    ? current.filter(section => !hasElementId(section, edit.sectionId))
+                    : current;
+            case 'reorder': {
+                const ordered = (edit.sectionIds ?? [])
+                    .map(id => current.find(section => matchesSectionId(section, id)))
+                    .filter((section, index, all): section is ReactElement => !!section && all.indexOf(section) === index);
+                // Sections missing from the recorded order keep their relative position at the end
+                return [...ordered, ...current.filter(section => !ordered.includes(section))];
+            }
+            case 'replace': {
+                if (!edit.sectionId || !edit.children) return current;
+                const children = hostContent.renderBlockChildren(edit.sectionId, edit.children);
+                return current.map(section => replaceSectionContent(section, edit.sectionId, children));
+            }
+            case 'update-props': {
+                if (!edit.componentId || !edit.props) return current;
+                const props = hostContent.resolvePropsPatch(edit.componentId, edit.props);
+                return current.map(section => hasElementId(section, edit.componentId)
+                    ? updateElementProps(section, edit.componentId, props)
+                    : section);
+            }
+            default:
+                return current;
+        }
+    }, sections);
+};
+
 export const LessonView = ({ onEditSection }: LessonViewProps) => {
     const [initialSections, setInitialSections] = useState<ReactElement[]>([]);
     const [loadingSections, setLoadingSections] = useState(true);
     const { isPreview } = useAppMode();
     const editing = useOptionalEditing();
 
-    const handleCommitSection = (sectionId: string, content: string, blockType?: SlashCommandType) => {
+    // Keep a ref of the current sections for message listeners to avoid stale closures
+    const sectionsRef = useRef(initialSections);
+
+    useEffect(() => {
+        sectionsRef.current = initialSections;
+        // Share the tree with the outline reporter
+        useLessonTreeStore.getState().setSections(initialSections);
+    }, [initialSections]);
+
+    // Let undo/redo restore the block tree together with the pending edits
+    const registerHistorySource = editing?.registerHistorySource;
+
+    useEffect(() => {
+        if (!registerHistorySource) return;
+        return registerHistorySource('lesson-sections', {
+            capture: () => sectionsRef.current,
+            restore: (state) => setInitialSections(state as ReactElement[]),
+        });
+    }, [registerHistorySource]);
+
+    const commitNodeSection = async (sectionId: string, node: LessonElementNode, blockType?: SlashCommandType) => {
+        const hostContent = await loadHostContent();
+        let section: LessonElementNode;
+        try {
+            ({ section } = hostContent.prepareInsertedSection({
+                type: 'Block',
+                props: { id: sectionId, padding: 'sm' },
+                children: [node],
+            }));
+        } catch (error) {
+            console.warn("Could not insert visualization:", error);
+            return;
+        }
+
+        const rendered = hostContent.renderBlockChildren(sectionId, [node]);
+        setInitialSections(prev => prev.map(existing => replaceSectionContent(existing, sectionId, rendered)));
+
+        if (editing) {
+            // Merges with the placeholder's add edit, which keeps its position
+            editing.addStructureEdit({
+                action: 'add',
+                sectionId,
+                node: section,
+                blockType,
+                content: ''
+            });
+        } else {
+            console.warn("Editing context not found, cannot batch save section add");
+        }
+    };
+
+    const handleCommitSection = (sectionId: string, content: string, blockType?: SlashCommandType, node?: LessonElementNode) => {
         console.log("Committing section:", { sectionId, content, blockType, hasEditing: !!editing });
 
+        // Visualizations arrive as a lesson node and are recorded like host-inserted content
+        if (node) {
+            commitNodeSection(sectionId, node, blockType)
+                .catch(error => console.warn("Could not insert visualization:", error));
+            return;
+        }
+
         setInitialSections(prevSections => {
             return prevSections.map(section => {
-                // Create the appropriate element based on block type
-                let contentElement: React.ReactNode;
-
-                // Parse content for inline components
-                const parsedContent = hasInlineComponents(content)
-                    ? parseContentWithInlineComponents(content)
-                    : content;
-
-                switch (blockType) {
-                    case "h1":
-                        contentElement = (
-                            <EditableH1 sectionId={sectionId}>
-                                {parsedContent}
-                            </EditableH1>
-                        );
-                        break;
-                    case "h2":
-                        contentElement = (
-                            <EditableH2 sectionId={sectionId}>
-                                {parsedContent}
-                            </EditableH2>
-                        );
-                        break;
-                    case "h3":
-                        contentElement = (
-                            <EditableH3 sectionId={sectionId}>
-                                {parsedContent}
-                            </EditableH3>
-                        );
-                        break;
-                    case "quote":
-                        contentElement = (
-                            <blockquote className="border-l-4 border-gray-300 pl-4 py-2">
-                                <EditableText
-                                    sectionId={sectionId}
-                                    as="p"
-                                    className="text-lg italic text-gray-600"
-                                >
-                                    {parsedContent}
-                                </EditableText>
-                            </blockquote>
-                        );
-                        break;
-                    case "divider":
-                        contentElement = (
-                            <hr className="my-6 border-t border-gray-200" />
-                        );
-                        break;
-                    case "paragraph":
-                    default:
-                        contentElement = (
-                            <EditableParagraph sectionId={sectionId}>
-                                {parsedContent}
-                            </EditableParagraph>
-                        );
-                        break;
-                }
+                const contentElement = renderCommittedContent(sectionId, content, blockType);
 
                 // Replace the Block's children (SectionInput) with the new content
                 // The Block wrapper already exists, so we just replace its content
@@ -237,6 +513,34 @@ export const LessonView = ({ onEditSection }: LessonViewProps) => {
         }
     };
 
+    // Stable entry point for blocks created outside of render (e.g. replayed edits)
+    const commitSectionRef = useRef(handleCommitSection);
+
+    useEffect(() => {
+        commitSectionRef.current = handleCommitSection;
+    });
+
+    const commitSection = useCallback((sectionId: string, content: string, blockType?: SlashCommandType, node?: LessonElementNode) => {
+        commitSectionRef.current(sectionId, content, blockType, node);
+    }, []);
+
+    // Replay structure edits restored from a previous session
+    const pendingReplayRef = useRef<PendingEdit[] | null>(null);
+    const sectionsLoadedRef = useRef(false);
+    const onEditsRestored = editing?.onEditsRestored;
+
+    useEffect(() => {
+        if (!onEditsRestored) return;
+        return onEditsRestored(async (edits) => {
+            if (!sectionsLoadedRef.current) {
+                pendingReplayRef.current = [...(pendingReplayRef.current ?? []), ...edits];
+                return;
+            }
+            const hostContent = await loadHostContent();
+            setInitialSections(prev => applyStructureEdits(prev, edits, commitSection, hostContent));
+        });
+    }, [onEditsRestored, commitSection]);
+
     const handleAddSection = (targetId: string) => {
         console.log("handleAddSection called with targetId:", targetId);
         // Find index of element containing targetId
@@ -246,23 +550,14 @@ export const LessonView = ({ onEditSection }: LessonViewProps) => {
         if (index !== -1) {
             // Create new Block directly (no Section wrapper needed)
             const newId = `block-${Date.now()}`;
-            const newBlock = (
-                <FullWidthLayout key={`layout-${newId}`} maxWidth="xl">
-                    <Block id={newId} padding="sm">
-                        <SectionInput
-                            id={newId}
-                            onCommit={handleCommitSection}
-                            placeholder="Type '/' for commands"
-                        />
-                    </Block>
-                </FullWidthLayout>
-            );
+            const newBlock = createPlaceholderBlock(newId, handleCommitSection);
 
             // Track the addition of the new block placeholder immediately
             if (editing) {
                 editing.addStructureEdit({
                     action: 'add',
                     sectionId: newId,
+                    afterSectionId: targetId,
                     blockType: 'placeholder',
                     content: ''
                 });
@@ -289,8 +584,15 @@ export const LessonView = ({ onEditSection }: LessonViewProps) => {
             // Load sections using the configured strategy
             const secs = await loadSections(sectionLoaderConfig);
             if (cancelled) return;
-            setInitialSections(Array.isArray(secs) ? secs : []);
-            setInitialSections(Array.isArray(secs) ? secs : []);
+            const loaded = Array.isArray(secs) ? secs : [];
+
+            // Edits restored while we were still loading are replayed now
+            const replay = pendingReplayRef.current;
+            const hostContent = replay ? await loadHostContent() : null;
+            if (cancelled) return;
+            pendingReplayRef.current = null;
+            sectionsLoadedRef.current = true;
+            setInitialSections(replay ? applyStructureEdits(loaded, replay, commitSection, hostContent) : loaded);
             setLoadingSections(false);
 
             // Set up watcher for automatic updates in dev mode
@@ -310,8 +612,106 @@ export const LessonView = ({ onEditSection }: LessonViewProps) => {
             cancelled = true;
             if (cleanup) cleanup();
         };
+    }, [commitSection]);
+
+    // Answer snapshot requests from the host
+    useEffect(() => {
+        return onHostMessage('request-lesson-document', async () => {
+            // Loaded lazily so the module strategy does not pull in the component registry
+            const { serializeLessonSections } = await import("@/lib/lesson-serializer");
+            const variables = import.meta.env.VITE_SHOW_EXAMPLES === 'true'
+                ? (await import("@/data/exampleVariables")).exampleVariableDefinitions
+                : (await import("@/data/variables")).variableDefinitions;
+
+            const { document, warnings } = serializeLessonSections(sectionsRef.current, { variables });
+            if (warnings.length > 0) {
+                console.warn("Lesson snapshot is incomplete:", warnings);
+            }
+
+            return { type: 'lesson-document', document, warnings };
+        });
     }, []);
 
+    // Apply content pushed by the host; each change is recorded as a structure edit
+    const addStructureEdit = editing?.addStructureEdit;
+
+    useEffect(() => {
+        const assertEditable = () => {
+            if (isPreview) throw new Error("Lesson is read-only in preview mode");
+        };
+
+        const unsubscribers = [
+            onHostMessage('insert-block', async (message) => {
+                assertEditable();
+                const hostContent = await loadHostContent();
+                const { section, blockId } = hostContent.prepareInsertedSection(message.node);
+
+                const current = sectionsRef.current;
+                if (current.some(existing => hasElementId(existing, blockId))) {
+                    throw new Error(`A block with id "${blockId}" already exists`);
+                }
+
+                // Without a target the block goes to the end of the lesson
+                const index = message.afterBlockId
+                    ? current.findIndex(existing => hasElementId(existing, message.afterBlockId))
+                    : current.length - 1;
+                if (message.afterBlockId && index === -1) {
+                    throw new Error(`No block with id "${message.afterBlockId}"`);
+                }
+
+                addStructureEdit?.({
+                    action: 'add',
+                    sectionId: blockId,
+                    afterSectionId: message.afterBlockId ?? (index >= 0 ? getTopLevelBlockId(current[index]) : undefined),
+                    node: section,
+                });
+
+                const element = hostContent.renderSection(section);
+                setInitialSections(prev => {
+                    const at = message.afterBlockId
+                        ? prev.findIndex(existing => hasElementId(existing, message.afterBlockId))
+                        : prev.length - 1;
+                    return [...prev.slice(0, at + 1), element, ...prev.slice(at + 1)];
+                });
+                return { type: 'block-inserted', blockId };
+            }),
+
+            onHostMessage('replace-block', async (message) => {
+                assertEditable();
+                const hostContent = await loadHostContent();
+                const children = hostContent.prepareBlockChildren(message.children);
+
+                if (!sectionsRef.current.some(section => hasElementId(section, message.blockId))) {
+                    throw new Error(`No block with id "${message.blockId}"`);
+                }
+
+                addStructureEdit?.({ action: 'replace', sectionId: message.blockId, children });
+
+                const rendered = hostContent.renderBlockChildren(message.blockId, children);
+                setInitialSections(prev => prev.map(section => replaceSectionContent(section, message.blockId, rendered)));
+            }),
+
+            onHostMessage('update-props', async (message) => {
+                assertEditable();
+                const hostContent = await loadHostContent();
+                const props = hostContent.preparePropsPatch(message.props);
+
+                if (!sectionsRef.current.some(section => hasElementId(section, message.componentId))) {
+                    throw new Error(`No component with id "${message.componentId}"`);
+                }
+
+                addStructureEdit?.({ action: 'update-props', componentId: message.componentId, props });
+
+                const resolved = hostContent.resolvePropsPatch(message.componentId, props);
+                setInitialSections(prev => prev.map(section => hasElementId(section, message.componentId)
+                    ? updateElementProps(section, message.componentId, resolved)
+                    : section));
+            }),
+        ];
+
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [isPreview, addStructureEdit]);
+
     // Show loading screen at top level
     if (loadingSections) {
         return <LoadingScreen />;
@@ -363,10 +763,10 @@ export const LessonView = ({ onEditSection }: LessonViewProps) => {
         }
 
         // Also notify parent (for legacy support)
-        window.parent.postMessage({
+        sendToHost({
             type: 'commit-section-reorder',
             sectionIds: blockIds
-        }, '*');
+        });
     };
 
     const handleDeleteSection = (sectionId: string) => {
@@ -384,10 +784,10 @@ export const LessonView = ({ onEditSection }: LessonViewProps) => {
         }
 
         // Also notify parent (for legacy support)
-        window.parent.postMessage({
+        sendToHost({
             type: 'commit-section-delete',
             sectionId
-        }, '*');
+        });
     };
 
     return (
@@ -407,6 +807,16 @@ export const LessonView = ({ onEditSection }: LessonViewProps) => {
                 ) : (
                     <WelcomeScreen />
                 )}
+                {isPreview && (
+                    <>
+                        <LearnerProgressPersistence />
+                        <div className="fixed bottom-4 left-4 z-50 flex gap-2">
+                            <ResetLessonButton />
+                            <ShareLinkButton />
+                        </div>
+                    </>
+                )}
+                {!isPreview && <TimelineRecorder />}
             </Card>
         </div>
     );
@@ -1,5 +1,7 @@
 import { type ReactNode } from "react";
 import { cn } from "@/lib/utils";
+import type { VariableDefinition } from "@/data/variables";
+import { VariableScope } from "./VariableScope";
 
 export interface SectionProps {
     /** Unique identifier for the section - used for navigation and grouping */
@@ -10,6 +12,8 @@ export interface SectionProps {
     className?: string;
     /** Optional title for the section (for accessibility and navigation) */
     title?: string;
+    /** Variables local to this section (see VariableScope) */
+    variables?: Record<string, VariableDefinition>;
 }
 
 /**
@@ -42,6 +46,7 @@ export const Section = ({
     children,
     className = "",
     title,
+    variables,
 }: SectionProps) => {
     return (
         <section
@@ -50,7 +55,7 @@ export const Section = ({
             aria-label={title}
             className={cn("w-full", className)}
         >
-            {children}
+            {variables ? <VariableScope id={id} variables={variables}>{children}</VariableScope> : children}
         </section>
     );
 };
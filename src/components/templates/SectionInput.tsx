@@ -1,9 +1,48 @@
-import { type KeyboardEvent, useRef, useEffect, useState, useCallback } from "react";
+import { type KeyboardEvent, type MouseEvent, useRef, useEffect, useState, useCallback } from "react";
 import { cn } from "@/lib/utils";
-import { SlashCommandMenu, type SlashCommandType, isInlineCommand, type BlockCommandType } from "./SlashCommandMenu";
+import { Input } from "@/components/atoms/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/atoms/ui/select";
+import { useOptionalEditing } from "@/contexts/EditingContext";
+import { CODE_LANGUAGES } from "@/lib/code-highlight";
+import {
+    DEFAULT_INLINE_MARKER_PROPS,
+    INLINE_MARKER_TYPES,
+    parseInlineMarkerBody,
+    serializeInlineMarkerProps,
+    type InlineMarkerType,
+} from "@/lib/inline-markers";
+import type { LessonElementNode } from "@/lib/lesson-schema";
+import {
+    SlashCommandMenu,
+    type SlashCommandType,
+    isInlineCommand,
+    type BlockCommandType,
+    type VisualizationCommandType,
+} from "./SlashCommandMenu";
+import {
+    CALLOUT_VARIANTS,
+    parseList,
+    parseTable,
+    serializeCallout,
+    serializeCodeBlock,
+    serializeEquation,
+    serializeImage,
+    serializeList,
+    serializeTable,
+    type CalloutVariant,
+} from "@/lib/rich-blocks";
+import { InlineComponentPopover } from "./InlineComponentPopover";
+import { VisualizationDialog } from "./VisualizationDialog";
 
 /**
  * Extract content from contentEditable element, converting inline component elements to markers
+ * (untrimmed, so code keeps its indentation)
  */
 const extractContentWithMarkers = (element: HTMLElement): string => {
     let result = '';
@@ -13,12 +52,21 @@ const extractContentWithMarkers = (element: HTMLElement): string => {
             result += node.textContent || '';
         } else if (node.nodeType === Node.ELEMENT_NODE) {
             const el = node as HTMLElement;
+            // Line breaks of multi-line blocks (lists, code, tables)
+            if (el.tagName === 'BR') {
+                result += '\n';
+                return;
+            }
+            if ((el.tagName === 'DIV' || el.tagName === 'P') && result && !result.endsWith('\n')) {
+                result += '\n';
+            }
             const componentType = el.getAttribute('data-inline-component');
             const componentId = el.getAttribute('data-component-id');
 
             if (componentType && componentId) {
-                // This is an inline component - convert to marker format
-                result += `{{${componentType}:${componentId}}}`;
+                // This is an inline component - convert to marker format (with its props, if any)
+                const componentProps = el.getAttribute('data-component-props');
+                result += `{{${componentType}:${componentId}${componentProps ? `|${componentProps}` : ''}}}`;
             } else {
                 // Regular element - process children
                 node.childNodes.forEach(processNode);
@@ -27,12 +75,192 @@ const extractContentWithMarkers = (element: HTMLElement): string => {
     };
 
     element.childNodes.forEach(processNode);
-    return result.trim();
+    return result;
+};
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Move the caret to the end of the element and insert an inline component there
+ */
+const insertInlineComponentHTML = (element: HTMLElement, componentHTML: string) => {
+    const selection = window.getSelection();
+    const range = document.createRange();
+
+    // Move to end of current content
+    if (element.childNodes.length > 0) {
+        range.selectNodeContents(element);
+        range.collapse(false);
+    } else {
+        range.setStart(element, 0);
+        range.collapse(true);
+    }
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+
+    // Insert the HTML
+    document.execCommand('insertHTML', false, componentHTML);
+
+    // Add a space after the component for easier typing
+    document.execCommand('insertText', false, ' ');
+};
+
+const CHIP_STYLES: Record<InlineMarkerType, string> = {
+    inlineScrubbleNumber: "display: inline-flex; align-items: center; background: rgba(216, 27, 96, 0.9); color: white; border-radius: 4px; padding: 0 2px; font-weight: 500; margin: 0 2px; user-select: none; cursor: pointer;",
+    inlineDropdown: "display: inline-flex; align-items: center; background: rgba(59, 130, 246, 0.35); color: #3B82F6; border-radius: 4px; padding: 0 6px; font-weight: 500; margin: 0 2px; user-select: none; cursor: pointer;",
+    inlineTextInput: "display: inline-flex; align-items: center; background: rgba(59, 130, 246, 0.35); color: #3B82F6; border-radius: 4px; padding: 0 6px; font-weight: 500; margin: 0 2px; user-select: none; cursor: pointer;",
+    inlineExpression: "display: inline-flex; align-items: center; background: rgba(13, 115, 119, 0.15); color: #0D7377; border-radius: 4px; padding: 0 6px; font-weight: 500; margin: 0 2px; user-select: none; cursor: pointer;",
+};
+
+/**
+ * What an inline component chip shows in the editor, given its props
+ */
+const getChipInnerHTML = (type: InlineMarkerType, props: Record<string, string>): string => {
+    switch (type) {
+        case "inlineScrubbleNumber":
+            return `<span style="padding: 0 2px;">◀</span><span style="min-width: 20px; text-align: center;">${escapeHtml(props.value || "0")}</span><span style="padding: 0 2px;">▶</span>`;
+        case "inlineDropdown":
+            return "??? ▾";
+        case "inlineTextInput":
+            return "???";
+        case "inlineExpression":
+            return `= ${escapeHtml(props.expression || "…")}`;
+    }
+};
+
+const getChipTitle = (type: InlineMarkerType, props: Record<string, string>): string => {
+    switch (type) {
+        case "inlineScrubbleNumber":
+            return props.var ? `Variable: ${props.var}` : "Scrubble number";
+        case "inlineDropdown":
+        case "inlineTextInput":
+            return props.answer ? `Answer: ${props.answer}` : "No answer set";
+        case "inlineExpression":
+            return props.expression || "Formula";
+    }
+};
+
+const inlineComponentHTML = (type: InlineMarkerType, id: string, props: Record<string, string>): string =>
+    `<span contenteditable="false" data-inline-component="${type}" data-component-id="${escapeHtml(id)}" data-component-props="${escapeHtml(serializeInlineMarkerProps(props))}" title="${escapeHtml(getChipTitle(type, props))}" style="${CHIP_STYLES[type]}">${getChipInnerHTML(type, props)}</span>`;
+
+/**
+ * Write changed props back to a chip already in the editor
+ */
+const updateInlineComponentChip = (chip: HTMLElement, type: InlineMarkerType, props: Record<string, string>) => {
+    chip.setAttribute("data-component-props", serializeInlineMarkerProps(props));
+    chip.title = getChipTitle(type, props);
+    chip.innerHTML = getChipInnerHTML(type, props);
+};
+
+/**
+ * Place the caret at the end of the element
+ */
+const moveCaretToEnd = (element: HTMLElement) => {
+    const range = document.createRange();
+    const selection = window.getSelection();
+    range.selectNodeContents(element);
+    range.collapse(false);
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+};
+
+/**
+ * Remove the last "/" and the query typed after it, leaving other nodes in place
+ */
+const removeSlashCommandText = (element: HTMLElement) => {
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    let slashNode: Text | null = null;
+    while (walker.nextNode()) {
+        const node = walker.currentNode as Text;
+        if (node.data.includes("/")) slashNode = node;
+    }
+    if (slashNode) slashNode.data = slashNode.data.substring(0, slashNode.data.lastIndexOf("/"));
 };
 
+// Blocks that take several lines; Enter starts a new line and Ctrl/Cmd+Enter commits
+const MULTILINE_BLOCK_TYPES: BlockCommandType[] = ["bulletList", "numberedList", "code", "table"];
+
+// Blocks whose text may contain "/" without opening the slash menu
+const NO_SLASH_MENU_BLOCK_TYPES: BlockCommandType[] = ["equation", "code"];
+
+const BLOCK_PLACEHOLDERS: Record<BlockCommandType, string> = {
+    h1: "Heading 1",
+    h2: "Heading 2",
+    h3: "Heading 3",
+    paragraph: "Start writing...",
+    quote: "Enter your quote...",
+    divider: "",
+    equation: "LaTeX, e.g. E = mc^2",
+    callout: "Callout text...",
+    bulletList: "One item per line (Ctrl+Enter to finish)",
+    numberedList: "One item per line (Ctrl+Enter to finish)",
+    code: "Code (Ctrl+Enter to finish)",
+    image: "Caption (optional)",
+    table: "Header 1 | Header 2, then one row per line (Ctrl+Enter to finish)",
+};
+
+const hasBlockSettingsRow = (blockType: BlockCommandType): boolean =>
+    blockType === "callout" || blockType === "code" || blockType === "image";
+
+// Visualizations are configured in a dialog and committed as a lesson node
+const VISUALIZATION_COMMANDS: SlashCommandType[] = ["desmos", "geogebra", "mermaid", "mafs", "three", "d3Chart", "animation"];
+
+interface BlockSettings {
+    calloutVariant: CalloutVariant;
+    codeLanguage: string;
+    imageSrc: string;
+    imageAlt: string;
+}
+
+const DEFAULT_BLOCK_SETTINGS: BlockSettings = {
+    calloutVariant: "info",
+    codeLanguage: "plain",
+    imageSrc: "",
+    imageAlt: "",
+};
+
+/**
+ * Content of a committed block (see `@/lib/rich-blocks`), or "" if there is nothing to commit
+ */
+const getBlockContent = (blockType: BlockCommandType | null, text: string, settings: BlockSettings): string => {
+    switch (blockType) {
+        case "equation":
+            return text.trim() ? serializeEquation(text) : "";
+        case "callout":
+            return text.trim() ? serializeCallout(settings.calloutVariant, text) : "";
+        case "bulletList":
+        case "numberedList": {
+            const items = parseList(text);
+            return items.length > 0 ? serializeList(items, blockType === "numberedList") : "";
+        }
+        case "code": {
+            const code = text.replace(/^\n+|\s+$/g, "");
+            return code ? serializeCodeBlock(code, settings.codeLanguage === "plain" ? "" : settings.codeLanguage) : "";
+        }
+        case "image":
+            return settings.imageSrc.trim()
+                ? serializeImage({ src: settings.imageSrc, alt: settings.imageAlt, caption: text })
+                : "";
+        case "table": {
+            const rows = parseTable(text);
+            return rows.length > 0 ? serializeTable(rows) : "";
+        }
+        default:
+            return text.trim();
+    }
+};
+
+interface EditingComponent {
+    id: string;
+    type: InlineMarkerType;
+    props: Record<string, string>;
+}
+
 interface SectionInputProps {
     id: string;
-    onCommit: (id: string, value: string, blockType?: SlashCommandType) => void;
+    /** `node` is set for visualizations, which have no text content */
+    onCommit: (id: string, value: string, blockType?: SlashCommandType, node?: LessonElementNode) => void;
     placeholder?: string;
 }
 
@@ -43,6 +271,13 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
     const [slashQuery, setSlashQuery] = useState("");
     const [selectedBlockType, setSelectedBlockType] = useState<BlockCommandType | null>(null);
     const [menuPosition, setMenuPosition] = useState({ top: 0, left: 0 });
+    // Inline component whose props are being edited in the popover
+    const [editingComponent, setEditingComponent] = useState<EditingComponent | null>(null);
+    // Settings of rich blocks that aren't part of the typed text
+    const [blockSettings, setBlockSettings] = useState<BlockSettings>(DEFAULT_BLOCK_SETTINGS);
+    // Visualization being configured in the dialog
+    const [visualizationCommand, setVisualizationCommand] = useState<VisualizationCommandType | null>(null);
+    const editing = useOptionalEditing();
     // Track the position in the text where the slash was typed
     const slashPositionRef = useRef<number>(-1);
 
@@ -68,12 +303,12 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
         // Trim trailing newlines which browsers might add
         text = text.replace(/[\n\r]+$/, "");
 
-        // If text is effectively empty, reset state
+        // If text is effectively empty, reset state (blocks with a settings row keep their type)
         if (!text) {
             setShowSlashMenu(false);
             setSlashQuery("");
             slashPositionRef.current = -1;
-            if (selectedBlockType) {
+            if (selectedBlockType && !hasBlockSettingsRow(selectedBlockType)) {
                 setSelectedBlockType(null);
                 if (contentRef.current) {
                     contentRef.current.dataset.placeholder = placeholder;
@@ -83,7 +318,9 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
         }
 
         // Find the last "/" in the text to trigger slash menu
-        const lastSlashIndex = text.lastIndexOf("/");
+        const lastSlashIndex = selectedBlockType && NO_SLASH_MENU_BLOCK_TYPES.includes(selectedBlockType)
+            ? -1
+            : text.lastIndexOf("/");
 
         if (lastSlashIndex !== -1) {
             // Get the text after the last "/"
@@ -107,6 +344,15 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
         }
     }, [selectedBlockType, placeholder]);
 
+    const commitContent = () => {
+        if (!contentRef.current) return;
+        // Extract content with inline component markers
+        const content = getBlockContent(selectedBlockType, extractContentWithMarkers(contentRef.current), blockSettings);
+        if (content) {
+            onCommit(id, content, selectedBlockType || undefined);
+        }
+    };
+
     const handleKeyDown = (e: KeyboardEvent<HTMLParagraphElement>) => {
         // Don't interfere if slash menu is handling navigation
         if (showSlashMenu && ["ArrowDown", "ArrowUp", "Escape"].includes(e.key)) {
@@ -123,13 +369,17 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
             }
 
             e.preventDefault();
-            if (contentRef.current) {
-                // Extract content with inline component markers
-                const content = extractContentWithMarkers(contentRef.current);
-                if (content.trim()) {
-                    onCommit(id, content, selectedBlockType || undefined);
-                }
+            if (selectedBlockType && MULTILINE_BLOCK_TYPES.includes(selectedBlockType) && !e.ctrlKey && !e.metaKey) {
+                document.execCommand("insertLineBreak");
+                return;
             }
+            commitContent();
+        }
+
+        // Indent code with spaces instead of leaving the field
+        if (e.key === "Tab" && selectedBlockType === "code") {
+            e.preventDefault();
+            document.execCommand("insertText", false, "    ");
         }
 
         // Close menu on Escape
@@ -174,64 +424,23 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
             // For inline components, insert an actual HTML element that represents the component
             const uniqueId = `${commandType}-${Date.now()}`;
 
-            // Get text before the slash command
-            const textBeforeSlash = lastSlashIndex > 0 ? currentText.substring(0, lastSlashIndex) : "";
-
-            // First, update the text to remove the slash command
-            contentRef.current.innerHTML = textBeforeSlash;
+            // First, remove the slash command (keeping components inserted earlier)
+            removeSlashCommandText(contentRef.current);
 
-            // Now insert the component HTML at the end using Selection API
-            const selection = window.getSelection();
-            const range = document.createRange();
+            // Insert with the default props, then open the popover to configure it
+            const type = commandType as InlineMarkerType;
+            const props = { ...DEFAULT_INLINE_MARKER_PROPS[type] };
+            insertInlineComponentHTML(contentRef.current, inlineComponentHTML(type, uniqueId, props));
+            setEditingComponent({ id: uniqueId, type, props });
 
-            // Move to end of current content
-            if (contentRef.current.childNodes.length > 0) {
-                range.selectNodeContents(contentRef.current);
-                range.collapse(false);
-            } else {
-                range.setStart(contentRef.current, 0);
-                range.collapse(true);
-            }
-            selection?.removeAllRanges();
-            selection?.addRange(range);
-
-            // Create the inline component placeholder HTML
-            let componentHTML = '';
-            switch (commandType) {
-                case 'inlineScrubbleNumber':
-                    componentHTML = `<span 
-                        contenteditable="false" 
-                        data-inline-component="${commandType}" 
-                        data-component-id="${uniqueId}"
-                        style="display: inline-flex; align-items: center; background: rgba(216, 27, 96, 0.9); color: white; border-radius: 4px; padding: 0 2px; font-weight: 500; margin: 0 2px; user-select: none; cursor: default;"
-                    ><span style="padding: 0 2px;">◀</span><span style="min-width: 20px; text-align: center;">10</span><span style="padding: 0 2px;">▶</span></span>`;
-                    break;
-                case 'inlineDropdown':
-                    componentHTML = `<span 
-                        contenteditable="false" 
-                        data-inline-component="${commandType}" 
-                        data-component-id="${uniqueId}"
-                        style="display: inline-flex; align-items: center; background: rgba(59, 130, 246, 0.35); color: #3B82F6; border-radius: 4px; padding: 0 6px; font-weight: 500; margin: 0 2px; user-select: none; cursor: pointer;"
-                    >??? ▾</span>`;
-                    break;
-                case 'inlineTextInput':
-                    componentHTML = `<span 
-                        contenteditable="false" 
-                        data-inline-component="${commandType}" 
-                        data-component-id="${uniqueId}"
-                        style="display: inline-flex; align-items: center; background: rgba(59, 130, 246, 0.35); color: #3B82F6; border-radius: 4px; padding: 0 6px; font-weight: 500; margin: 0 2px; user-select: none; cursor: text;"
-                    >???</span>`;
-                    break;
-            }
-
-            // Insert the HTML
-            document.execCommand('insertHTML', false, componentHTML);
-
-            // Add a space after the component for easier typing
-            document.execCommand('insertText', false, ' ');
+            slashPositionRef.current = -1;
+            return;
+        }
 
+        if (VISUALIZATION_COMMANDS.includes(commandType)) {
+            removeSlashCommandText(contentRef.current);
+            setVisualizationCommand(commandType as VisualizationCommandType);
             slashPositionRef.current = -1;
-            contentRef.current.focus();
             return;
         }
 
@@ -258,16 +467,6 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
 
         slashPositionRef.current = -1;
 
-        // Update the placeholder based on selected type
-        const placeholders: Record<BlockCommandType, string> = {
-            h1: "Heading 1",
-            h2: "Heading 2",
-            h3: "Heading 3",
-            paragraph: "Start writing...",
-            quote: "Enter your quote...",
-            divider: "",
-        };
-
         // If it's a divider, commit immediately
         if (commandType === "divider") {
             onCommit(id, "---", commandType);
@@ -276,9 +475,66 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
 
         // Update placeholder (only shows when empty)
         if (contentRef.current) {
-            contentRef.current.setAttribute("data-placeholder", placeholders[commandType as BlockCommandType]);
+            contentRef.current.setAttribute("data-placeholder", BLOCK_PLACEHOLDERS[commandType as BlockCommandType]);
         }
-    }, [id, onCommit]);
+
+        // Equations are written in the equation editor; the LaTeX can also be typed here
+        if (commandType === "equation" && editing) {
+            editing.openEquationEditor("", undefined, id, `equation-${id}`, (latex, colorMap) => {
+                if (latex.trim()) onCommit(id, serializeEquation(latex, colorMap), "equation");
+            });
+        }
+    }, [id, onCommit, editing]);
+
+    const findChip = (componentId: string): HTMLElement | null =>
+        Array.from(contentRef.current?.querySelectorAll<HTMLElement>("[data-component-id]") ?? [])
+            .find(el => el.getAttribute("data-component-id") === componentId) ?? null;
+
+    const handleComponentPropsChange = (props: Record<string, string>) => {
+        if (!editingComponent) return;
+        const chip = findChip(editingComponent.id);
+        if (chip) updateInlineComponentChip(chip, editingComponent.type, props);
+        setEditingComponent({ ...editingComponent, props });
+    };
+
+    const closeComponentPopover = () => {
+        setEditingComponent(null);
+        if (contentRef.current) {
+            contentRef.current.focus();
+            moveCaretToEnd(contentRef.current);
+        }
+    };
+
+    const removeEditingComponent = () => {
+        if (editingComponent) findChip(editingComponent.id)?.remove();
+        closeComponentPopover();
+    };
+
+    // Clicking a chip reopens its popover
+    const handleContentClick = (e: MouseEvent<HTMLParagraphElement>) => {
+        const chip = (e.target as HTMLElement).closest<HTMLElement>("[data-inline-component]");
+        const type = chip?.getAttribute("data-inline-component") as InlineMarkerType | null;
+        const componentId = chip?.getAttribute("data-component-id");
+        if (!chip || !componentId || !INLINE_MARKER_TYPES.includes(type)) return;
+
+        const componentProps = chip.getAttribute("data-component-props");
+        const { props } = parseInlineMarkerBody(type, componentProps ? `${componentId}|${componentProps}` : componentId);
+        setEditingComponent({ id: componentId, type, props });
+    };
+
+    const handleVisualizationInsert = (node: LessonElementNode) => {
+        if (!visualizationCommand) return;
+        setVisualizationCommand(null);
+        onCommit(id, "", visualizationCommand, node);
+    };
+
+    const handleVisualizationCancel = () => {
+        setVisualizationCommand(null);
+        if (contentRef.current) {
+            contentRef.current.focus();
+            moveCaretToEnd(contentRef.current);
+        }
+    };
 
     const handleCloseSlashMenu = useCallback(() => {
         setShowSlashMenu(false);
@@ -296,6 +552,16 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
                 return "text-2xl font-semibold text-gray-900";
             case "quote":
                 return "text-lg italic text-gray-600 border-l-4 border-gray-300 pl-4";
+            case "equation":
+                return "font-mono text-base text-gray-800";
+            case "code":
+                return "font-mono text-sm whitespace-pre-wrap rounded-lg bg-gray-900 p-4 text-gray-100";
+            case "callout":
+                return "text-lg text-gray-800 border-l-4 border-blue-400 pl-4";
+            case "bulletList":
+            case "numberedList":
+            case "table":
+                return "text-lg text-gray-800 whitespace-pre-wrap";
             default:
                 return "text-lg text-gray-800";
         }
@@ -308,6 +574,7 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
                 contentEditable
                 onKeyDown={handleKeyDown}
                 onInput={handleInput}
+                onClick={handleContentClick}
                 className={cn(
                     "w-full outline-none leading-relaxed cursor-text min-h-[1.5em]",
                     "empty:before:content-[attr(data-placeholder)] empty:before:text-muted-foreground/50",
@@ -316,6 +583,82 @@ export const SectionInput = ({ id, onCommit, placeholder = "Type '/' for command
                 data-placeholder={placeholder}
             />
 
+            {selectedBlockType && hasBlockSettingsRow(selectedBlockType) && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                    {selectedBlockType === "callout" && CALLOUT_VARIANTS.map(variant => (
+                        <button
+                            key={variant}
+                            onClick={() => {
+                                setBlockSettings({ ...blockSettings, calloutVariant: variant });
+                                contentRef.current?.focus();
+                            }}
+                            className={cn(
+                                "rounded-md px-2 py-1 capitalize transition-colors",
+                                blockSettings.calloutVariant === variant
+                                    ? "bg-[#D4EDE5] text-[#0D7377]"
+                                    : "text-muted-foreground hover:bg-gray-100"
+                            )}
+                        >
+                            {variant}
+                        </button>
+                    ))}
+                    {selectedBlockType === "code" && (
+                        <Select
+                            value={blockSettings.codeLanguage}
+                            onValueChange={(codeLanguage) => setBlockSettings({ ...blockSettings, codeLanguage })}
+                        >
+                            <SelectTrigger className="h-8 w-36 text-sm">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {CODE_LANGUAGES.map(language => (
+                                    <SelectItem key={language} value={language} className="capitalize">{language}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    )}
+                    {selectedBlockType === "image" && (
+                        <>
+                            <Input
+                                autoFocus
+                                className="h-8 min-w-[240px] flex-1 text-sm"
+                                placeholder="Image URL"
+                                value={blockSettings.imageSrc}
+                                onChange={(e) => setBlockSettings({ ...blockSettings, imageSrc: e.target.value })}
+                                onKeyDown={(e) => e.key === "Enter" && commitContent()}
+                            />
+                            <Input
+                                className="h-8 min-w-[180px] flex-1 text-sm"
+                                placeholder="Alt text"
+                                value={blockSettings.imageAlt}
+                                onChange={(e) => setBlockSettings({ ...blockSettings, imageAlt: e.target.value })}
+                                onKeyDown={(e) => e.key === "Enter" && commitContent()}
+                            />
+                        </>
+                    )}
+                </div>
+            )}
+
+            {editingComponent && (
+                <InlineComponentPopover
+                    key={editingComponent.id}
+                    type={editingComponent.type}
+                    componentId={editingComponent.id}
+                    props={editingComponent.props}
+                    onChange={handleComponentPropsChange}
+                    onDone={closeComponentPopover}
+                    onRemove={removeEditingComponent}
+                />
+            )}
+
+            {visualizationCommand && (
+                <VisualizationDialog
+                    type={visualizationCommand}
+                    onInsert={handleVisualizationInsert}
+                    onCancel={handleVisualizationCancel}
+                />
+            )}
+
             <SlashCommandMenu
                 isOpen={showSlashMenu}
                 searchQuery={slashQuery}
@@ -150,7 +150,7 @@ export const SectionRenderer = ({
   };
 
   return (
-    <div ref={containerRef} style={containerStyles} className="pointer-events-auto">
+    <div ref={containerRef} style={containerStyles} className="pointer-events-auto" data-lesson-scroll-container>
       <div
         ref={stackRef}
         className="min-h-full z-30 flex flex-col gap-6 pt-8 pb-16 px-8 md:px-16 lg:px-24"
@@ -10,6 +10,20 @@ import {
     Hash,
     ChevronDown,
     TextCursor,
+    Sigma,
+    Radical,
+    MessageSquareWarning,
+    List,
+    ListOrdered,
+    Code2,
+    ImageIcon,
+    Table,
+    LineChart,
+    Shapes,
+    Workflow,
+    Box,
+    BarChart3,
+    Clapperboard,
 } from "lucide-react";
 
 // Block-level command types (replace the entire block)
@@ -19,20 +33,38 @@ export type BlockCommandType =
     | "h3"
     | "paragraph"
     | "quote"
-    | "divider";
+    | "divider"
+    | "equation"
+    | "callout"
+    | "bulletList"
+    | "numberedList"
+    | "code"
+    | "image"
+    | "table";
 
 // Inline component command types (insert within text)
 export type InlineCommandType =
     | "inlineScrubbleNumber"
     | "inlineDropdown"
-    | "inlineTextInput";
+    | "inlineTextInput"
+    | "inlineExpression";
+
+// Visualization command types (insert a configured visualization as the block)
+export type VisualizationCommandType =
+    | "desmos"
+    | "geogebra"
+    | "mermaid"
+    | "mafs"
+    | "three"
+    | "d3Chart"
+    | "animation";
 
 // Combined type for all slash commands
-export type SlashCommandType = BlockCommandType | InlineCommandType;
+export type SlashCommandType = BlockCommandType | InlineCommandType | VisualizationCommandType;
 
 // Helper to check if a command is inline
 export const isInlineCommand = (type: SlashCommandType): type is InlineCommandType => {
-    return ["inlineScrubbleNumber", "inlineDropdown", "inlineTextInput"].includes(type);
+    return ["inlineScrubbleNumber", "inlineDropdown", "inlineTextInput", "inlineExpression"].includes(type);
 };
 
 interface SlashCommand {
@@ -41,9 +73,36 @@ interface SlashCommand {
     description: string;
     icon: React.ReactNode;
     keywords: string[];
-    category: "block" | "inline";
+    category: SlashCommandCategory;
 }
 
+type SlashCommandCategory = "block" | "inline" | "visualization";
+
+// Menu sections, in order, with their highlight colors
+const categories: { id: SlashCommandCategory; label: string; hover: string; selected: string; iconBackground: string }[] = [
+    {
+        id: "block",
+        label: "Blocks",
+        hover: "hover:bg-[#D4EDE5] hover:text-[#0D7377]",
+        selected: "bg-[#D4EDE5] text-[#0D7377]",
+        iconBackground: "bg-gray-100",
+    },
+    {
+        id: "inline",
+        label: "Inline Components",
+        hover: "hover:bg-[#E8D5F0] hover:text-[#7B2D8E]",
+        selected: "bg-[#E8D5F0] text-[#7B2D8E]",
+        iconBackground: "bg-purple-100",
+    },
+    {
+        id: "visualization",
+        label: "Visualizations",
+        hover: "hover:bg-[#DBEAFE] hover:text-[#1D4ED8]",
+        selected: "bg-[#DBEAFE] text-[#1D4ED8]",
+        iconBackground: "bg-blue-100",
+    },
+];
+
 const slashCommands: SlashCommand[] = [
     // Block-level commands
     {
@@ -94,6 +153,62 @@ const slashCommands: SlashCommand[] = [
         keywords: ["divider", "separator", "hr", "line"],
         category: "block",
     },
+    {
+        id: "equation",
+        label: "Equation",
+        description: "Display equation in LaTeX",
+        icon: <Radical className="h-4 w-4" />,
+        keywords: ["equation", "math", "latex", "formula", "tex"],
+        category: "block",
+    },
+    {
+        id: "callout",
+        label: "Callout",
+        description: "Info, warning, tip, definition, theorem or proof",
+        icon: <MessageSquareWarning className="h-4 w-4" />,
+        keywords: ["callout", "admonition", "note", "info", "warning", "tip", "definition", "theorem", "proof"],
+        category: "block",
+    },
+    {
+        id: "bulletList",
+        label: "Bulleted List",
+        description: "List with bullet points",
+        icon: <List className="h-4 w-4" />,
+        keywords: ["list", "bullet", "unordered", "ul"],
+        category: "block",
+    },
+    {
+        id: "numberedList",
+        label: "Numbered List",
+        description: "List with numbers",
+        icon: <ListOrdered className="h-4 w-4" />,
+        keywords: ["list", "numbered", "ordered", "ol"],
+        category: "block",
+    },
+    {
+        id: "code",
+        label: "Code",
+        description: "Code block with syntax highlighting",
+        icon: <Code2 className="h-4 w-4" />,
+        keywords: ["code", "snippet", "program", "pre"],
+        category: "block",
+    },
+    {
+        id: "image",
+        label: "Image",
+        description: "Image with caption and alt text",
+        icon: <ImageIcon className="h-4 w-4" />,
+        keywords: ["image", "picture", "figure", "photo", "img"],
+        category: "block",
+    },
+    {
+        id: "table",
+        label: "Table",
+        description: "Simple table with a header row",
+        icon: <Table className="h-4 w-4" />,
+        keywords: ["table", "grid", "rows", "columns"],
+        category: "block",
+    },
     // Inline component commands
     {
         id: "inlineScrubbleNumber",
@@ -119,6 +234,71 @@ const slashCommands: SlashCommand[] = [
         keywords: ["input", "text", "inline", "field", "type"],
         category: "inline",
     },
+    {
+        id: "inlineExpression",
+        label: "Formula",
+        description: "Live value computed from variables",
+        icon: <Sigma className="h-4 w-4" />,
+        keywords: ["formula", "expression", "computed", "calculate", "math", "inline", "variable"],
+        category: "inline",
+    },
+    // Visualization commands
+    {
+        id: "desmos",
+        label: "Desmos Graph",
+        description: "Graph of one or more expressions",
+        icon: <LineChart className="h-4 w-4" />,
+        keywords: ["desmos", "graph", "plot", "function", "calculator", "visualization"],
+        category: "visualization",
+    },
+    {
+        id: "geogebra",
+        label: "GeoGebra",
+        description: "GeoGebra applet from a material or commands",
+        icon: <Shapes className="h-4 w-4" />,
+        keywords: ["geogebra", "geometry", "applet", "construction", "visualization"],
+        category: "visualization",
+    },
+    {
+        id: "mermaid",
+        label: "Mermaid Diagram",
+        description: "Flowchart or diagram from a definition",
+        icon: <Workflow className="h-4 w-4" />,
+        keywords: ["mermaid", "diagram", "flowchart", "sequence", "chart", "visualization"],
+        category: "visualization",
+    },
+    {
+        id: "mafs",
+        label: "Mafs Plot",
+        description: "Coordinate plane with interactive plots",
+        icon: <LineChart className="h-4 w-4" />,
+        keywords: ["mafs", "plot", "coordinate", "sine", "graph", "visualization"],
+        category: "visualization",
+    },
+    {
+        id: "three",
+        label: "3D Scene",
+        description: "Three.js scene",
+        icon: <Box className="h-4 w-4" />,
+        keywords: ["three", "3d", "scene", "cube", "sphere", "webgl", "visualization"],
+        category: "visualization",
+    },
+    {
+        id: "d3Chart",
+        label: "Bar Chart",
+        description: "D3 bar chart from a list of values",
+        icon: <BarChart3 className="h-4 w-4" />,
+        keywords: ["d3", "chart", "bar", "data", "visualization"],
+        category: "visualization",
+    },
+    {
+        id: "animation",
+        label: "Animation",
+        description: "Interactive animation with controls",
+        icon: <Clapperboard className="h-4 w-4" />,
+        keywords: ["animation", "two", "particles", "shapes", "wave", "visualization"],
+        category: "visualization",
+    },
 ];
 
 interface SlashCommandMenuProps {
@@ -224,52 +404,18 @@ export const SlashCommandMenu = ({
                         No commands found
                     </div>
                 ) : (
-                    <>
-                        {/* Block-level commands section */}
-                        {filteredCommands.some(cmd => cmd.category === "block") && (
-                            <>
-                                <div className="px-3 py-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                                    Blocks
-                                </div>
-                                {filteredCommands
-                                    .filter(cmd => cmd.category === "block")
-                                    .map((cmd) => {
-                                        const globalIndex = filteredCommands.findIndex(c => c.id === cmd.id);
-                                        return (
-                                            <button
-                                                key={cmd.id}
-                                                data-index={globalIndex}
-                                                onClick={() => onSelect(cmd.id)}
-                                                className={cn(
-                                                    "w-full flex items-center gap-3 px-3 py-2 rounded-md text-left",
-                                                    "transition-colors duration-150",
-                                                    "hover:bg-[#D4EDE5] hover:text-[#0D7377]",
-                                                    globalIndex === selectedIndex && "bg-[#D4EDE5] text-[#0D7377]"
-                                                )}
-                                            >
-                                                <div className="flex items-center justify-center w-8 h-8 rounded-md bg-gray-100">
-                                                    {cmd.icon}
-                                                </div>
-                                                <div className="flex-1 min-w-0">
-                                                    <div className="text-sm font-medium">{cmd.label}</div>
-                                                    <div className="text-xs text-muted-foreground truncate">
-                                                        {cmd.description}
-                                                    </div>
-                                                </div>
-                                            </button>
-                                        );
-                                    })}
-                            </>
-                        )}
-
-                        {/* Inline components section */}
-                        {filteredCommands.some(cmd => cmd.category === "inline") && (
-                            <>
-                                <div className="px-3 py-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider mt-2">
-                                    Inline Components
+                    categories
+                        .filter(category => filteredCommands.some(cmd => cmd.category === category.id))
+                        .map((category, categoryIndex) => (
+                            <div key={category.id}>
+                                <div className={cn(
+                                    "px-3 py-1.5 text-xs font-semibold text-muted-foreground uppercase tracking-wider",
+                                    categoryIndex > 0 && "mt-2"
+                                )}>
+                                    {category.label}
                                 </div>
                                 {filteredCommands
-                                    .filter(cmd => cmd.category === "inline")
+                                    .filter(cmd => cmd.category === category.id)
                                     .map((cmd) => {
                                         const globalIndex = filteredCommands.findIndex(c => c.id === cmd.id);
                                         return (
@@ -280,11 +426,11 @@ export const SlashCommandMenu = ({
                                                 className={cn(
                                                     "w-full flex items-center gap-3 px-3 py-2 rounded-md text-left",
                                                     "transition-colors duration-150",
-                                                    "hover:bg-[#E8D5F0] hover:text-[#7B2D8E]",
-                                                    globalIndex === selectedIndex && "bg-[#E8D5F0] text-[#7B2D8E]"
+                                                    category.hover,
+                                                    globalIndex === selectedIndex && category.selected
                                                 )}
                                             >
-                                                <div className="flex items-center justify-center w-8 h-8 rounded-md bg-purple-100">
+                                                <div className={cn("flex items-center justify-center w-8 h-8 rounded-md", category.iconBackground)}>
                                                     {cmd.icon}
                                                 </div>
                                                 <div className="flex-1 min-w-0">
@@ -296,9 +442,8 @@ export const SlashCommandMenu = ({
                                             </button>
                                         );
                                     })}
-                            </>
-                        )}
-                    </>
+                            </div>
+                        ))
                 )}
             </div>
         </div>
@@ -0,0 +1,56 @@
+import { useLayoutEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { VariableScopeContext, useVariableScope } from "@/contexts/VariableScopeContext";
+import type { VariableDefinition } from "@/data/variables";
+import { qualifyVariableDefinitions } from "@/lib/variable-scope";
+import { useVariableStore } from "@/stores";
+
+export interface VariableScopeProps {
+    /** Scope id, unique in the lesson (a Block or Section id works well) */
+    id: string;
+    /** Variables local to the scope, defined like those in variables.ts */
+    variables: Record<string, VariableDefinition>;
+    children: ReactNode;
+}
+
+/**
+ * VariableScope gives its children their own variables. `useVar` and
+ * `useSetVar` inside it use the scope's variables first and fall back to
+ * global ones; `$name` always refers to the global variable.
+ *
+ * @example
+ * ```tsx
+ * <VariableScope id="demo-a" variables={{ amplitude: { defaultValue: 1, min: 0, max: 5 } }}>
+ *   <StoreDemo />
+ * </VariableScope>
+ * ```
+ */
+export const VariableScope = ({ id, variables, children }: VariableScopeProps) => {
+    const parent = useVariableScope();
+    const names = Object.keys(variables).join(",");
+    const scope = useMemo(
+        () => ({ id, names: new Set(names ? names.split(",") : []), parent }),
+        [id, names, parent]
+    );
+
+    // Definitions are read when the declared names change, not on every new object literal
+    const variablesRef = useRef(variables);
+    variablesRef.current = variables;
+    const [registeredScope, setRegisteredScope] = useState<typeof scope | null>(null);
+
+    // Register before the children mount, so they never see the variables undefined
+    useLayoutEffect(() => {
+        const qualified = qualifyVariableDefinitions(scope, variablesRef.current);
+        useVariableStore.getState().defineVariables(qualified);
+        setRegisteredScope(scope);
+    }, [scope]);
+
+    if (registeredScope !== scope) return null;
+
+    return (
+        <VariableScopeContext.Provider value={scope}>
+            {children}
+        </VariableScopeContext.Provider>
+    );
+};
+
+export default VariableScope;
@@ -0,0 +1,414 @@
+import { useEffect, useState, type ReactNode } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/atoms/ui/dialog";
+import { Button } from "@/components/atoms/ui/button";
+import { Input } from "@/components/atoms/ui/input";
+import { Switch } from "@/components/atoms/ui/switch";
+import { Textarea } from "@/components/atoms/ui/textarea";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/atoms/ui/select";
+import MermaidRenderer from "@/components/organisms/MermaidRenderer";
+import {
+    ANIMATION_VARIANTS,
+    DEFAULT_ANIMATION_VARIANTS,
+    type AnimationType,
+} from "@/components/organisms/animation-variants";
+import type { LessonElementNode } from "@/lib/lesson-schema";
+import type { VisualizationCommandType } from "./SlashCommandMenu";
+
+const TITLES: Record<VisualizationCommandType, { title: string; description: string }> = {
+    desmos: { title: "Desmos Graph", description: "Graph expressions with the Desmos calculator." },
+    geogebra: { title: "GeoGebra", description: "Load a GeoGebra material or build a construction from commands." },
+    mermaid: { title: "Mermaid Diagram", description: "Describe a flowchart or diagram in Mermaid syntax." },
+    mafs: { title: "Mafs Plot", description: "A coordinate plane rendered with Mafs." },
+    three: { title: "3D Scene", description: "A Three.js scene learners can rotate and zoom." },
+    d3Chart: { title: "Bar Chart", description: "A D3 bar chart of labelled values." },
+    animation: { title: "Animation", description: "A Two.js animation with speed, color and variant controls." },
+};
+
+const GEOGEBRA_APPS = ["graphing", "geometry", "classic", "3d", "cas"] as const;
+
+const MAFS_PLOTS = [
+    { value: "MafsBasic", label: "Coordinate plane" },
+    { value: "MafsInteractive", label: "Draggable sine wave" },
+];
+
+const THREE_SCENES = [
+    { value: "RotatingCube", label: "Rotating cube", colored: true },
+    { value: "PulsingSphere", label: "Pulsing sphere", colored: true },
+    { value: "GeometricCollection", label: "Geometric collection", colored: false },
+    { value: "AtomicStructure", label: "Atomic structure", colored: false },
+    { value: "ThreeCoordinateSystem", label: "3D coordinate system", colored: false },
+];
+
+interface VisualizationConfig {
+    height: string;
+    /** Desmos: one LaTeX expression per line */
+    expressions: string;
+    /** GeoGebra */
+    app: typeof GEOGEBRA_APPS[number];
+    materialId: string;
+    /** GeoGebra: one command per line */
+    commands: string;
+    /** Mermaid */
+    definition: string;
+    mafsPlot: string;
+    threeScene: string;
+    color: string;
+    autoRotate: boolean;
+    /** D3: one `label: value` per line */
+    data: string;
+    animationType: AnimationType;
+    variant: string;
+    title: string;
+    showControls: boolean;
+}
+
+const DEFAULT_CONFIG: VisualizationConfig = {
+    height: "400",
+    expressions: "y = x^2\ny = \\sin(x)",
+    app: "graphing",
+    materialId: "",
+    commands: "A = (1, 2)\nB = (4, 3)\nSegment(A, B)",
+    definition: "graph TD\n    A[Start] --> B{Is it working?}\n    B -->|Yes| C[Great]\n    B -->|No| D[Try again]",
+    mafsPlot: "MafsBasic",
+    threeScene: "RotatingCube",
+    color: "#4F46E5",
+    autoRotate: false,
+    data: "A: 30\nB: 80\nC: 45",
+    animationType: "graph",
+    variant: DEFAULT_ANIMATION_VARIANTS.graph,
+    title: "",
+    showControls: true,
+};
+
+const lines = (text: string): string[] => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+const parseChartData = (text: string): { label: string; value: number }[] =>
+    lines(text)
+        .map(line => {
+            const separator = Math.max(line.lastIndexOf(":"), line.lastIndexOf(","));
+            return { label: line.slice(0, separator).trim(), value: Number(line.slice(separator + 1)) };
+        })
+        .filter(point => point.label && Number.isFinite(point.value));
+
+/**
+ * Why the configuration can't be inserted yet, if anything is missing
+ */
+const getConfigError = (type: VisualizationCommandType, config: VisualizationConfig): string | null => {
+    switch (type) {
+        case "desmos":
+            return lines(config.expressions).length === 0 ? "Add at least one expression" : null;
+        case "geogebra":
+            return !config.materialId.trim() && lines(config.commands).length === 0
+                ? "Enter a material id or at least one command"
+                : null;
+        case "mermaid":
+            return !config.definition.trim() ? "Enter a diagram definition" : null;
+        case "d3Chart":
+            return parseChartData(config.data).length === 0 ? "Add at least one `label: value` line" : null;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Lesson node for the configured visualization (see `@/lib/lesson-schema`)
+ */
+const buildVisualizationNode = (type: VisualizationCommandType, config: VisualizationConfig): LessonElementNode => {
+    const height = Number(config.height) > 0 ? Number(config.height) : 400;
+
+    switch (type) {
+        case "desmos":
+            return {
+                type: "DesmosGraph",
+                props: { expressions: lines(config.expressions).map(latex => ({ latex })), height },
+            };
+        case "geogebra": {
+            const commands = lines(config.commands);
+            return {
+                type: "GeoGebraGraph",
+                props: {
+                    app: config.app,
+                    ...(config.materialId.trim() ? { materialId: config.materialId.trim() } : {}),
+                    ...(commands.length > 0 ? { commands } : {}),
+                    height,
+                },
+            };
+        }
+        case "mermaid":
+            return { type: "MermaidRenderer", props: { definition: config.definition.trim() } };
+        case "mafs":
+            return { type: config.mafsPlot };
+        case "three": {
+            const colored = THREE_SCENES.find(scene => scene.value === config.threeScene)?.colored;
+            return {
+                type: "ThreeCanvas",
+                props: { height, ...(config.autoRotate ? { autoRotate: true } : {}) },
+                children: [{ type: config.threeScene, ...(colored ? { props: { color: config.color } } : {}) }],
+            };
+        }
+        case "d3Chart":
+            return { type: "D3BarChart", props: { data: parseChartData(config.data), color: config.color, height } };
+        case "animation":
+            return {
+                type: "InteractiveAnimation",
+                props: {
+                    type: config.animationType,
+                    initialVariant: config.variant,
+                    showControls: config.showControls,
+                    ...(config.title.trim() ? { title: config.title.trim() } : {}),
+                },
+            };
+    }
+};
+
+const Field = ({ label, children, className = "" }: { label: string; children: ReactNode; className?: string }) => (
+    <label className={`block space-y-1 ${className}`}>
+        <span className="text-sm font-medium">{label}</span>
+        {children}
+    </label>
+);
+
+interface VisualizationDialogProps {
+    type: VisualizationCommandType;
+    /** Receives the lesson node of the configured visualization */
+    onInsert: (node: LessonElementNode) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Configuration dialog for a visualization inserted from the slash menu
+ */
+export const VisualizationDialog = ({ type, onInsert, onCancel }: VisualizationDialogProps) => {
+    const [config, setConfig] = useState<VisualizationConfig>(DEFAULT_CONFIG);
+    // The Mermaid preview follows the definition after a short pause in typing
+    const [previewDefinition, setPreviewDefinition] = useState(DEFAULT_CONFIG.definition);
+    const error = getConfigError(type, config);
+
+    useEffect(() => {
+        if (type !== "mermaid") return;
+        const timer = setTimeout(() => setPreviewDefinition(config.definition), 400);
+        return () => clearTimeout(timer);
+    }, [type, config.definition]);
+
+    const set = <K extends keyof VisualizationConfig>(key: K, value: VisualizationConfig[K]) =>
+        setConfig(prev => ({ ...prev, [key]: value }));
+
+    const heightField = (
+        <Field label="Height (px)" className="w-32">
+            <Input type="number" min={100} value={config.height} onChange={(e) => set("height", e.target.value)} />
+        </Field>
+    );
+    const colorField = (
+        <Field label="Color" className="w-24">
+            <Input type="color" className="h-10 p-1" value={config.color} onChange={(e) => set("color", e.target.value)} />
+        </Field>
+    );
+
+    let fields: ReactNode;
+    switch (type) {
+        case "desmos":
+            fields = (
+                <>
+                    <Field label="Expressions (one LaTeX expression per line)">
+                        <Textarea
+                            autoFocus
+                            rows={5}
+                            className="font-mono text-sm"
+                            value={config.expressions}
+                            onChange={(e) => set("expressions", e.target.value)}
+                        />
+                    </Field>
+                    {heightField}
+                </>
+            );
+            break;
+        case "geogebra":
+            fields = (
+                <>
+                    <div className="flex gap-3">
+                        <Field label="App" className="w-36">
+                            <Select value={config.app} onValueChange={(value) => set("app", value as VisualizationConfig["app"])}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {GEOGEBRA_APPS.map(app => <SelectItem key={app} value={app}>{app}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </Field>
+                        <Field label="Material id (optional)" className="flex-1">
+                            <Input
+                                autoFocus
+                                placeholder="e.g. RHYH3UQ8"
+                                value={config.materialId}
+                                onChange={(e) => set("materialId", e.target.value)}
+                            />
+                        </Field>
+                    </div>
+                    <Field label="Commands (one per line)">
+                        <Textarea
+                            rows={5}
+                            className="font-mono text-sm"
+                            value={config.commands}
+                            onChange={(e) => set("commands", e.target.value)}
+                        />
+                    </Field>
+                    {heightField}
+                </>
+            );
+            break;
+        case "mermaid":
+            fields = (
+                <div className="grid gap-3 md:grid-cols-2">
+                    <Field label="Definition">
+                        <Textarea
+                            autoFocus
+                            rows={10}
+                            className="font-mono text-sm"
+                            value={config.definition}
+                            onChange={(e) => set("definition", e.target.value)}
+                        />
+                    </Field>
+                    <div className="space-y-1">
+                        <span className="text-sm font-medium">Preview</span>
+                        <div className="flex min-h-[220px] items-center justify-center overflow-auto rounded-md border bg-muted/20 p-2">
+                            {previewDefinition.trim()
+                                ? <MermaidRenderer definition={previewDefinition} />
+                                : <span className="text-sm text-muted-foreground">Nothing to preview</span>}
+                        </div>
+                    </div>
+                </div>
+            );
+            break;
+        case "mafs":
+            fields = (
+                <Field label="Plot">
+                    <Select value={config.mafsPlot} onValueChange={(value) => set("mafsPlot", value)}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {MAFS_PLOTS.map(plot => <SelectItem key={plot.value} value={plot.value}>{plot.label}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
+                </Field>
+            );
+            break;
+        case "three": {
+            const colored = THREE_SCENES.find(scene => scene.value === config.threeScene)?.colored;
+            fields = (
+                <>
+                    <Field label="Scene">
+                        <Select value={config.threeScene} onValueChange={(value) => set("threeScene", value)}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {THREE_SCENES.map(scene => <SelectItem key={scene.value} value={scene.value}>{scene.label}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </Field>
+                    <div className="flex items-end gap-3">
+                        {heightField}
+                        {colored && colorField}
+                        <label className="flex h-10 items-center gap-2 text-sm font-medium">
+                            <Switch checked={config.autoRotate} onCheckedChange={(checked) => set("autoRotate", checked)} />
+                            Rotate automatically
+                        </label>
+                    </div>
+                </>
+            );
+            break;
+        }
+        case "d3Chart":
+            fields = (
+                <>
+                    <Field label="Data (one `label: value` per line)">
+                        <Textarea
+                            autoFocus
+                            rows={5}
+                            className="font-mono text-sm"
+                            value={config.data}
+                            onChange={(e) => set("data", e.target.value)}
+                        />
+                    </Field>
+                    <div className="flex gap-3">
+                        {heightField}
+                        {colorField}
+                    </div>
+                </>
+            );
+            break;
+        case "animation":
+            fields = (
+                <>
+                    <div className="flex gap-3">
+                        <Field label="Type" className="flex-1">
+                            <Select
+                                value={config.animationType}
+                                onValueChange={(value) => {
+                                    const animationType = value as AnimationType;
+                                    setConfig(prev => ({ ...prev, animationType, variant: DEFAULT_ANIMATION_VARIANTS[animationType] }));
+                                }}
+                            >
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(ANIMATION_VARIANTS) as AnimationType[]).map(animationType => (
+                                        <SelectItem key={animationType} value={animationType} className="capitalize">{animationType}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </Field>
+                        <Field label="Variant" className="flex-1">
+                            <Select value={config.variant} onValueChange={(value) => set("variant", value)}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {ANIMATION_VARIANTS[config.animationType].map(variant => (
+                                        <SelectItem key={variant} value={variant}>{variant}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </Field>
+                    </div>
+                    <Field label="Title (optional)">
+                        <Input value={config.title} placeholder="Interactive Animation" onChange={(e) => set("title", e.target.value)} />
+                    </Field>
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                        <Switch checked={config.showControls} onCheckedChange={(checked) => set("showControls", checked)} />
+                        Show controls
+                    </label>
+                </>
+            );
+            break;
+    }
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onCancel()}>
+            <DialogContent className={type === "mermaid" ? "max-w-3xl" : "max-w-lg"}>
+                <DialogHeader>
+                    <DialogTitle>{TITLES[type].title}</DialogTitle>
+                    <DialogDescription>{TITLES[type].description}</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-3">
+                    {fields}
+                    {error && <div className="text-sm text-destructive">{error}</div>}
+                </div>
+                <DialogFooter>
+                    <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+                    <Button disabled={!!error} onClick={() => onInsert(buildVisualizationNode(type, config))}>
+                        Insert
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default VisualizationDialog;
@@ -1,12 +1,12 @@
 
 import { Button } from "@/components/atoms/ui/button";
 import { MessageSquare, ArrowRight } from "lucide-react";
+import { sendToHost } from "@/lib/host-protocol";
 
 export const WelcomeScreen = () => {
     const handleFocusChat = () => {
-        // Post message to parent to focus chat
-        // We try multiple known message types to ensure compatibility
-        window.parent.postMessage({ type: 'focus-chat' }, '*');
+        // Ask the host to focus its chat input
+        sendToHost({ type: 'focus-chat' });
     };
 
     return (
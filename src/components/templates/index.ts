@@ -1,5 +1,6 @@
 // Layout Templates
 export { Section } from "./Section";
 export { Block } from "./Block";
+export { VariableScope } from "./VariableScope";
 export { default as SectionRenderer } from "./SectionRenderer";
 export { LessonView } from "./LessonView";
@@ -47,6 +47,12 @@ export const sectionLoaderConfigs: Record<string, SectionLoaderConfig> = {
  * Get configuration based on current environment
  */
 export function getSectionLoaderConfig(): SectionLoaderConfig {
+    // Explicit override, e.g. VITE_SECTION_LOADER=developmentJson
+    const override = import.meta.env.VITE_SECTION_LOADER;
+    if (override && sectionLoaderConfigs[override]) {
+        return sectionLoaderConfigs[override];
+    }
+
     const mode = import.meta.env.MODE || 'development';
 
     // You can customize this logic based on your needs
@@ -1,5 +1,27 @@
 import { createContext, useContext, useState, useCallback, useMemo, useRef, useEffect, type ReactNode } from 'react';
 import { useAppMode } from './AppModeContext';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/atoms/ui/alert-dialog';
+import { Button } from '@/components/atoms/ui/button';
+import {
+    EDIT_SESSION_ID,
+    deleteEditLog,
+    getLessonStorageId,
+    loadRecoverableEditLogs,
+    saveEditLog,
+    type PersistedEditLog,
+} from '@/lib/edit-persistence';
+import { onHostMessage, sendToHost } from '@/lib/host-protocol';
+import { VariableInspector } from '@/components/editing/VariableInspector';
+import type { LessonElementNode, LessonNode, LessonPropValue } from '@/lib/lesson-schema';
 
 // Edit types
 export interface TextEdit {
@@ -46,21 +68,72 @@ export interface ScrubbleNumberProps {
 export interface StructureEdit {
     id: string;
     type: 'structure';
-    action: 'reorder' | 'delete' | 'add';
+    action: 'reorder' | 'delete' | 'add' | 'replace' | 'update-props';
     sectionId?: string;
     sectionIds?: string[];
+    /** For 'add': the block the new block was inserted after */
+    afterSectionId?: string;
     content?: string;
     blockType?: string;
+    /** For 'add' from the host: the inserted top-level section */
+    node?: LessonElementNode;
+    /** For 'replace': the new children of the block */
+    children?: LessonNode[];
+    /** For 'update-props': id of the patched component and the props to merge (null removes a prop) */
+    componentId?: string;
+    props?: Record<string, LessonPropValue>;
     timestamp: number;
 }
 
 export type PendingEdit = TextEdit | EquationEdit | ScrubbleNumberEdit | StructureEdit;
 
+// Result of writing edits back to the lesson sources (see plugins/lesson-edits-plugin.ts)
+export interface SaveEditsResult {
+    applied: string[];
+    unplaced: { id: string; type: PendingEdit['type']; reason: string }[];
+    files: string[];
+}
+
+// Extra editor state (e.g. the LessonView block tree) that undo/redo should restore
+export interface HistorySource {
+    capture: () => unknown;
+    restore: (state: unknown) => void;
+}
+
+interface HistoryEntry {
+    edits: PendingEdit[];
+    states: Record<string, unknown>;
+}
+
+const MAX_HISTORY = 100;
+
+// Changes with the same coalesce key within this window form one undo step
+const HISTORY_COALESCE_MS = 1000;
+
+// Dev-server endpoint that applies edits to src/data (only available under `vite` dev)
+const SAVE_EDITS_ENDPOINT = '/__lesson-edits';
+
+// Delay before the edit log is written to IndexedDB (flushed early when the page is hidden)
+const PERSIST_DEBOUNCE_MS = 300;
+
+// "3 unsaved edits from <date>"
+const describeEditLog = (log: PersistedEditLog): string =>
+    `${log.edits.length} unsaved ${log.edits.length === 1 ? 'edit' : 'edits'} from ${new Date(log.updatedAt).toLocaleString()}`;
+
+interface EditingEquation {
+    latex: string;
+    colorMap?: Record<string, string>;
+    sectionId: string;
+    elementPath: string;
+    /** Receives the result instead of it being recorded as an equation edit */
+    onSave?: (latex: string, colorMap?: Record<string, string>) => void;
+}
+
 interface EditingContextType {
     // State
     isEditing: boolean;
     pendingEdits: PendingEdit[];
-    editingEquation: { latex: string; colorMap?: Record<string, string>; sectionId: string; elementPath: string } | null;
+    editingEquation: EditingEquation | null;
     editingScrubbleNumber: (ScrubbleNumberProps & { sectionId: string; elementPath: string }) | null;
 
     // Actions
@@ -72,7 +145,26 @@ interface EditingContextType {
     addStructureEdit: (edit: Omit<StructureEdit, 'id' | 'type' | 'timestamp'>) => void;
     removeEdit: (id: string) => void;
     clearAllEdits: () => void;
-    openEquationEditor: (latex: string, colorMap: Record<string, string> | undefined, sectionId: string, elementPath: string) => void;
+    saveEditsToSource: () => Promise<SaveEditsResult | null>;
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    registerHistorySource: (key: string, source: HistorySource) => () => void;
+    /** Edit logs of earlier sessions that are no longer open, most recent first */
+    recoverableEditLogs: PersistedEditLog[];
+    /** Restore one of them (the most recent by default) */
+    restoreRecoveredEdits: (key?: string) => void;
+    /** Discard one of them (all by default) */
+    discardRecoveredEdits: (key?: string) => void;
+    onEditsRestored: (listener: (edits: PendingEdit[]) => void) => () => void;
+    openEquationEditor: (
+        latex: string,
+        colorMap: Record<string, string> | undefined,
+        sectionId: string,
+        elementPath: string,
+        onSave?: EditingEquation['onSave']
+    ) => void;
     closeEquationEditor: () => void;
     saveEquationEdit: (newLatex: string, newColorMap?: Record<string, string>) => void;
     openScrubbleNumberEditor: (props: ScrubbleNumberProps, sectionId: string, elementPath: string) => void;
@@ -91,12 +183,7 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
 
     const [isEditing, setIsEditing] = useState(false);
     const [pendingEdits, setPendingEdits] = useState<PendingEdit[]>([]);
-    const [editingEquation, setEditingEquation] = useState<{
-        latex: string;
-        colorMap?: Record<string, string>;
-        sectionId: string;
-        elementPath: string;
-    } | null>(null);
+    const [editingEquation, setEditingEquation] = useState<EditingEquation | null>(null);
     const [editingScrubbleNumber, setEditingScrubbleNumber] = useState<(ScrubbleNumberProps & {
         sectionId: string;
         elementPath: string;
@@ -105,29 +192,203 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
     // Keep a ref of pending edits for event listeners to avoid stale closures
     const pendingEditsRef = useRef(pendingEdits);
 
-    useEffect(() => {
-        pendingEditsRef.current = pendingEdits;
-    }, [pendingEdits]);
+    // Updates the ref right away, so edits recorded in the same tick see each other (and undo snapshots them)
+    const updatePendingEdits = useCallback((update: (prev: PendingEdit[]) => PendingEdit[]) => {
+        const next = update(pendingEditsRef.current);
+        pendingEditsRef.current = next;
+        setPendingEdits(next);
+    }, []);
 
     // Generate unique ID for edits
     const generateId = useCallback(() => {
         return `edit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     }, []);
 
+    // Undo/redo history: snapshots of the edits plus every registered source
+    const pastRef = useRef<HistoryEntry[]>([]);
+    const futureRef = useRef<HistoryEntry[]>([]);
+    const historySourcesRef = useRef<Map<string, HistorySource>>(new Map());
+    const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+
+    const syncHistoryState = useCallback(() => {
+        setHistoryState({
+            canUndo: pastRef.current.length > 0,
+            canRedo: futureRef.current.length > 0,
+        });
+    }, []);
+
+    const captureSnapshot = useCallback((): HistoryEntry => {
+        const states: Record<string, unknown> = {};
+        historySourcesRef.current.forEach((source, key) => {
+            states[key] = source.capture();
+        });
+        return { edits: pendingEditsRef.current, states };
+    }, []);
+
+    const restoreSnapshot = useCallback((entry: HistoryEntry) => {
+        pendingEditsRef.current = entry.edits;
+        setPendingEdits(entry.edits);
+        historySourcesRef.current.forEach((source, key) => {
+            if (key in entry.states) source.restore(entry.states[key]);
+        });
+    }, []);
+
+    const lastRecordRef = useRef<{ key: string; time: number } | null>(null);
+
+    // Call before every undoable change. Continuous gestures (a drag fires a
+    // reorder for every swap) pass a coalesce key so they undo in one step.
+    const recordHistory = useCallback((coalesceKey?: string) => {
+        const now = Date.now();
+        const last = lastRecordRef.current;
+        lastRecordRef.current = coalesceKey ? { key: coalesceKey, time: now } : null;
+        if (coalesceKey && last?.key === coalesceKey && now - last.time < HISTORY_COALESCE_MS) return;
+
+        pastRef.current = [...pastRef.current, captureSnapshot()].slice(-MAX_HISTORY);
+        futureRef.current = [];
+        syncHistoryState();
+    }, [captureSnapshot, syncHistoryState]);
+
+    const resetHistory = useCallback(() => {
+        lastRecordRef.current = null;
+        pastRef.current = [];
+        futureRef.current = [];
+        syncHistoryState();
+    }, [syncHistoryState]);
+
+    const undo = useCallback(() => {
+        const entry = pastRef.current[pastRef.current.length - 1];
+        if (!entry) return;
+        lastRecordRef.current = null;
+        pastRef.current = pastRef.current.slice(0, -1);
+        futureRef.current = [...futureRef.current, captureSnapshot()];
+        restoreSnapshot(entry);
+        syncHistoryState();
+    }, [captureSnapshot, restoreSnapshot, syncHistoryState]);
+
+    const redo = useCallback(() => {
+        const entry = futureRef.current[futureRef.current.length - 1];
+        if (!entry) return;
+        lastRecordRef.current = null;
+        futureRef.current = futureRef.current.slice(0, -1);
+        pastRef.current = [...pastRef.current, captureSnapshot()];
+        restoreSnapshot(entry);
+        syncHistoryState();
+    }, [captureSnapshot, restoreSnapshot, syncHistoryState]);
+
+    const registerHistorySource = useCallback((key: string, source: HistorySource) => {
+        historySourcesRef.current.set(key, source);
+        return () => {
+            if (historySourcesRef.current.get(key) === source) {
+                historySourcesRef.current.delete(key);
+            }
+        };
+    }, []);
+
+    // Crash recovery: edits left in IndexedDB by an earlier session of this lesson
+    const lessonStorageId = useMemo(() => getLessonStorageId(), []);
+    const [recoverableEditLogs, setRecoverableEditLogs] = useState<PersistedEditLog[]>([]);
+    const [recoveryChecked, setRecoveryChecked] = useState(false);
+    const restoreListenersRef = useRef<Set<(edits: PendingEdit[]) => void>>(new Set());
+
+    const onEditsRestored = useCallback((listener: (edits: PendingEdit[]) => void) => {
+        restoreListenersRef.current.add(listener);
+        return () => {
+            restoreListenersRef.current.delete(listener);
+        };
+    }, []);
+
+    const restoreRecoveredEdits = useCallback((key?: string) => {
+        const log = key ? recoverableEditLogs.find(entry => entry.key === key) : recoverableEditLogs[0];
+        if (!log) return;
+
+        const restored = [...log.edits, ...pendingEditsRef.current];
+        pendingEditsRef.current = restored;
+        setPendingEdits(restored);
+        resetHistory();
+
+        // Let LessonView replay structure edits (added, deleted and reordered blocks)
+        restoreListenersRef.current.forEach(listener => listener(log.edits));
+
+        // The edits now belong to this session's log
+        deleteEditLog(log.key);
+        setRecoverableEditLogs(prev => prev.filter(entry => entry.key !== log.key));
+        sendToHost({ type: 'recovered-edits-restored', count: log.edits.length });
+    }, [recoverableEditLogs, resetHistory]);
+
+    const discardRecoveredEdits = useCallback((key?: string) => {
+        const discarded = key ? recoverableEditLogs.filter(entry => entry.key === key) : recoverableEditLogs;
+        if (discarded.length === 0) return;
+        discarded.forEach(log => deleteEditLog(log.key));
+        setRecoverableEditLogs(prev => prev.filter(entry => !discarded.includes(entry)));
+        sendToHost({ type: 'recovered-edits-discarded' });
+    }, [recoverableEditLogs]);
+
+    // Look for unsaved edits on startup
+    useEffect(() => {
+        const isStandalone = typeof window !== 'undefined' && window.self === window.top;
+        if (!isEditor && !isStandalone) return;
+
+        let cancelled = false;
+        loadRecoverableEditLogs(lessonStorageId, EDIT_SESSION_ID).then(logs => {
+            if (cancelled) return;
+            setRecoveryChecked(true);
+            if (logs.length === 0) return;
+
+            setRecoverableEditLogs(logs);
+            sendToHost({
+                type: 'recoverable-edits-found',
+                count: logs[0].edits.length,
+                updatedAt: logs[0].updatedAt,
+                logs: logs.map(log => ({ key: log.key, count: log.edits.length, updatedAt: log.updatedAt })),
+            });
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isEditor, lessonStorageId]);
+
+    // Persist the edit log for this session
+    useEffect(() => {
+        if (!recoveryChecked) return;
+
+        let saved = false;
+        const save = () => {
+            if (saved) return;
+            saved = true;
+            clearTimeout(timeout);
+            saveEditLog(lessonStorageId, EDIT_SESSION_ID, pendingEdits);
+        };
+        const timeout = setTimeout(save, PERSIST_DEBOUNCE_MS);
+
+        // Closing or hiding the tab may not leave time for the debounce
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'hidden') save();
+        };
+        window.addEventListener('pagehide', save);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+
+        return () => {
+            clearTimeout(timeout);
+            window.removeEventListener('pagehide', save);
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [pendingEdits, recoveryChecked, lessonStorageId]);
+
     const enableEditing = useCallback(() => {
         // Allow enabling in editor mode OR in standalone mode for testing
         const isStandalone = typeof window !== 'undefined' && window.self === window.top;
         if (isEditor || isStandalone) {
             setIsEditing(true);
             // Notify parent that editing mode is enabled
-            window.parent.postMessage({ type: 'editing-mode-changed', isEditing: true }, '*');
+            sendToHost({ type: 'editing-mode-changed', isEditing: true });
         }
     }, [isEditor]);
 
     const disableEditing = useCallback(() => {
         setIsEditing(false);
         // Notify parent that editing mode is disabled
-        window.parent.postMessage({ type: 'editing-mode-changed', isEditing: false }, '*');
+        sendToHost({ type: 'editing-mode-changed', isEditing: false });
     }, []);
 
     const addTextEdit = useCallback((edit: Omit<TextEdit, 'id' | 'type' | 'timestamp'>) => {
@@ -138,7 +399,8 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
             timestamp: Date.now(),
         };
 
-        setPendingEdits(prev => {
+        recordHistory();
+        updatePendingEdits(prev => {
             // 1. Check if there is a pending STRUCTURE edit with action 'add' for this section
             // If so, we just update the content of that add structure edit
             const structureAddIndex = prev.findIndex(
@@ -195,7 +457,7 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
             // 3. Add new edit
             return [...prev, newEdit];
         });
-    }, [generateId]);
+    }, [generateId, recordHistory, updatePendingEdits]);
 
     const addEquationEdit = useCallback((edit: Omit<EquationEdit, 'id' | 'type' | 'timestamp'>) => {
         const newEdit: EquationEdit = {
@@ -205,7 +467,8 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
             timestamp: Date.now(),
         };
 
-        setPendingEdits(prev => {
+        recordHistory();
+        updatePendingEdits(prev => {
             // Check if there's already an edit for the same equation
             const existingIndex = prev.findIndex(
                 e => e.type === 'equation' &&
@@ -236,10 +499,11 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
 
             return [...prev, newEdit];
         });
-    }, [generateId]);
+    }, [generateId, recordHistory, updatePendingEdits]);
 
     const addStructureEdit = useCallback((edit: Omit<StructureEdit, 'id' | 'type' | 'timestamp'>) => {
-        setPendingEdits(prev => {
+        recordHistory(edit.action === 'reorder' ? 'reorder' : undefined);
+        updatePendingEdits(prev => {
             // Check if there's already an 'add' structure edit for this sectionId
             // This handles the case where we add a placeholder and then commit content to it
             if (edit.action === 'add') {
@@ -263,6 +527,22 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
                 }
             }
 
+            // Consecutive reorders collapse into one; each carries the full order
+            const last = prev[prev.length - 1];
+            if (edit.action === 'reorder' && last?.type === 'structure' && last.action === 'reorder') {
+                return [...prev.slice(0, -1), { ...last, sectionIds: edit.sectionIds, timestamp: Date.now() }];
+            }
+
+            // Consecutive content changes to the same block or component collapse too
+            if (edit.action === 'replace' && last?.type === 'structure' && last.action === 'replace' &&
+                last.sectionId === edit.sectionId) {
+                return [...prev.slice(0, -1), { ...last, children: edit.children, timestamp: Date.now() }];
+            }
+            if (edit.action === 'update-props' && last?.type === 'structure' && last.action === 'update-props' &&
+                last.componentId === edit.componentId) {
+                return [...prev.slice(0, -1), { ...last, props: { ...last.props, ...edit.props }, timestamp: Date.now() }];
+            }
+
             const newEdit: StructureEdit = {
                 ...edit,
                 id: generateId(),
@@ -271,23 +551,63 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
             };
             return [...prev, newEdit];
         });
-    }, [generateId]);
+    }, [generateId, recordHistory, updatePendingEdits]);
 
     const removeEdit = useCallback((id: string) => {
-        setPendingEdits(prev => prev.filter(e => e.id !== id));
-    }, []);
+        recordHistory();
+        updatePendingEdits(prev => prev.filter(e => e.id !== id));
+    }, [recordHistory, updatePendingEdits]);
 
+    // Clearing happens after a save or discard, so the history goes with it
     const clearAllEdits = useCallback(() => {
-        setPendingEdits([]);
-    }, []);
+        updatePendingEdits(() => []);
+        resetHistory();
+    }, [resetHistory, updatePendingEdits]);
+
+    // Write pending edits back to the lesson sources; placed edits are removed
+    const saveEditsToSource = useCallback(async (): Promise<SaveEditsResult | null> => {
+        const edits = pendingEditsRef.current;
+        if (edits.length === 0) return null;
+
+        try {
+            const response = await fetch(SAVE_EDITS_ENDPOINT, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ edits }),
+            });
+            if (!response.ok) {
+                throw new Error(`Saving edits failed: ${response.status} ${response.statusText}`);
+            }
+
+            const result: SaveEditsResult = await response.json();
+            updatePendingEdits(prev => prev.filter(e => !result.applied.includes(e.id)));
+            // Saved edits are now part of the source and can no longer be undone here
+            resetHistory();
+
+            if (result.unplaced.length > 0) {
+                console.warn('Some edits could not be written to the source:', result.unplaced);
+            }
+
+            sendToHost({ type: 'edits-saved', ...result });
+            return result;
+        } catch (error) {
+            console.warn('Failed to save edits to source:', error);
+            sendToHost({
+                type: 'edits-save-failed',
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return null;
+        }
+    }, [resetHistory, updatePendingEdits]);
 
     const openEquationEditor = useCallback((
         latex: string,
         colorMap: Record<string, string> | undefined,
         sectionId: string,
-        elementPath: string
+        elementPath: string,
+        onSave?: EditingEquation['onSave']
     ) => {
-        setEditingEquation({ latex, colorMap, sectionId, elementPath });
+        setEditingEquation({ latex, colorMap, sectionId, elementPath, onSave });
     }, []);
 
     const closeEquationEditor = useCallback(() => {
@@ -297,6 +617,13 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
     const saveEquationEdit = useCallback((newLatex: string, newColorMap?: Record<string, string>) => {
         if (!editingEquation) return;
 
+        // Equations that don't exist yet (e.g. from the slash menu) are handed back instead of recorded as edits
+        if (editingEquation.onSave) {
+            editingEquation.onSave(newLatex, newColorMap);
+            setEditingEquation(null);
+            return;
+        }
+
         // Check if latex or color map changed
         const latexChanged = newLatex !== editingEquation.latex;
         const colorMapChanged = newColorMap && JSON.stringify(newColorMap) !== JSON.stringify(editingEquation.colorMap);
@@ -323,7 +650,8 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
             timestamp: Date.now(),
         };
 
-        setPendingEdits(prev => {
+        recordHistory();
+        updatePendingEdits(prev => {
             // Check if there's already an edit for the same scrubble number
             const existingIndex = prev.findIndex(
                 e => e.type === 'scrubbleNumber' &&
@@ -354,7 +682,7 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
 
             return [...prev, newEdit];
         });
-    }, [generateId]);
+    }, [generateId, recordHistory, updatePendingEdits]);
 
     const openScrubbleNumberEditor = useCallback((
         props: ScrubbleNumberProps,
@@ -390,45 +718,88 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
 
     // Notify parent whenever edits change
     useEffect(() => {
-        window.parent.postMessage({
+        sendToHost({
             type: 'edits-changed',
             edits: pendingEdits,
             count: pendingEdits.length,
-        }, '*');
+        });
     }, [pendingEdits]);
 
     // Listen for messages from parent
     useEffect(() => {
-        const handleMessage = (event: MessageEvent) => {
-            if (!event.data) return;
-
+        const unsubscribers = [
             // Parent requesting to enable/disable editing
-            if (event.data.type === 'set-editing-mode') {
-                if (event.data.enabled) {
+            onHostMessage('set-editing-mode', (message) => {
+                if (message.enabled) {
                     enableEditing();
                 } else {
                     disableEditing();
                 }
-            }
+            }),
 
             // Parent requesting to clear edits (after save or discard)
-            if (event.data.type === 'clear-edits') {
-                clearAllEdits();
-            }
+            onHostMessage('clear-edits', () => clearAllEdits()),
+
+            // Parent requesting to write edits to the lesson sources
+            onHostMessage('save-edits', async () => {
+                await saveEditsToSource();
+            }),
+
+            // Parent answering the crash-recovery prompt
+            onHostMessage('restore-recovered-edits', (message) => restoreRecoveredEdits(message.key)),
+            onHostMessage('discard-recovered-edits', (message) => discardRecoveredEdits(message.key)),
+
+            // Parent requesting undo/redo
+            onHostMessage('undo', () => undo()),
+            onHostMessage('redo', () => redo()),
 
             // Parent requesting current edits
-            if (event.data.type === 'request-edits') {
-                window.parent.postMessage({
-                    type: 'edits-response',
-                    edits: pendingEditsRef.current,
-                    count: pendingEditsRef.current.length,
-                }, '*');
+            onHostMessage('request-edits', () => ({
+                type: 'edits-response',
+                edits: pendingEditsRef.current,
+                count: pendingEditsRef.current.length,
+            })),
+        ];
+
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [enableEditing, disableEditing, clearAllEdits, saveEditsToSource, undo, redo, restoreRecoveredEdits, discardRecoveredEdits]);
+
+    // Notify parent whenever undo/redo availability changes
+    useEffect(() => {
+        sendToHost({
+            type: 'history-changed',
+            canUndo: historyState.canUndo,
+            canRedo: historyState.canRedo,
+        });
+    }, [historyState]);
+
+    // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) to redo
+    useEffect(() => {
+        const isStandalone = typeof window !== 'undefined' && window.self === window.top;
+        if (!isEditor && !isStandalone) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+            // Leave native undo to text fields and the element being edited
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+                return;
+            }
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                undo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                redo();
             }
         };
 
-        window.addEventListener('message', handleMessage);
-        return () => window.removeEventListener('message', handleMessage);
-    }, [enableEditing, disableEditing, clearAllEdits]);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isEditor, undo, redo]);
 
     const value = useMemo(() => ({
         isEditing,
@@ -443,6 +814,16 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
         addStructureEdit,
         removeEdit,
         clearAllEdits,
+        saveEditsToSource,
+        undo,
+        redo,
+        canUndo: historyState.canUndo,
+        canRedo: historyState.canRedo,
+        registerHistorySource,
+        recoverableEditLogs,
+        restoreRecoveredEdits,
+        discardRecoveredEdits,
+        onEditsRestored,
         openEquationEditor,
         closeEquationEditor,
         saveEquationEdit,
@@ -462,6 +843,15 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
         addStructureEdit,
         removeEdit,
         clearAllEdits,
+        saveEditsToSource,
+        undo,
+        redo,
+        historyState,
+        registerHistorySource,
+        recoverableEditLogs,
+        restoreRecoveredEdits,
+        discardRecoveredEdits,
+        onEditsRestored,
         openEquationEditor,
         closeEquationEditor,
         saveEquationEdit,
@@ -475,39 +865,105 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
 
     // State for debug panel visibility
     const [showDebugPanel, setShowDebugPanel] = useState(false);
+    const [showVariableInspector, setShowVariableInspector] = useState(false);
 
     return (
         <EditingContext.Provider value={value}>
             {children}
 
+            {/* Crash recovery prompt */}
+            <AlertDialog open={recoverableEditLogs.length > 0}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Restore unsaved edits?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {recoverableEditLogs.length === 1
+                                ? `Found ${describeEditLog(recoverableEditLogs[0])}.`
+                                : `Unsaved edits from ${recoverableEditLogs.length} earlier sessions were found.`}
+                            {' '}Restore them to continue where you left off, or discard them.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    {recoverableEditLogs.length > 1 && (
+                        <ul className="space-y-2">
+                            {recoverableEditLogs.map(log => (
+                                <li key={log.key} className="flex items-center justify-between gap-2 text-sm">
+                                    <span>{describeEditLog(log)}</span>
+                                    <span className="flex gap-2">
+                                        <Button size="sm" variant="outline" onClick={() => discardRecoveredEdits(log.key)}>
+                                            Discard
+                                        </Button>
+                                        <Button size="sm" onClick={() => restoreRecoveredEdits(log.key)}>
+                                            Restore
+                                        </Button>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <AlertDialogFooter>
+                        <AlertDialogCancel onClick={() => discardRecoveredEdits()}>
+                            {recoverableEditLogs.length > 1 ? 'Discard all' : 'Discard'}
+                        </AlertDialogCancel>
+                        {recoverableEditLogs.length === 1 && (
+                            <AlertDialogAction onClick={() => restoreRecoveredEdits()}>Restore</AlertDialogAction>
+                        )}
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+
             {/* Debug panel for standalone testing */}
             {isStandalone && (
                 <>
-                    {/* Debug toggle button */}
-                    <button
-                        onClick={() => setShowDebugPanel(!showDebugPanel)}
-                        className="fixed bottom-4 right-4 z-50 flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg transition-all duration-200"
-                        style={{
-                            backgroundColor: showDebugPanel ? '#f59e0b' : '#6b7280',
-                            color: 'white',
-                            border: 'none',
-                            cursor: 'pointer',
-                            fontSize: '14px',
-                            fontWeight: 500,
-                        }}
-                    >
-                        <span>🐛 {showDebugPanel ? 'Hide Debug' : 'Show Debug'}</span>
-                        {pendingEdits.length > 0 && (
-                            <span style={{
-                                backgroundColor: '#ef4444',
-                                padding: '2px 6px',
-                                borderRadius: '9999px',
-                                fontSize: '12px',
-                            }}>
-                                {pendingEdits.length}
-                            </span>
+                    <div className="fixed bottom-4 right-4 z-50 flex gap-2">
+                        {/* Variable inspector toggle (editor mode) */}
+                        {isEditor && (
+                            <button
+                                onClick={() => setShowVariableInspector(!showVariableInspector)}
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg transition-all duration-200"
+                                style={{
+                                    backgroundColor: showVariableInspector ? '#0D7377' : '#6b7280',
+                                    color: 'white',
+                                    border: 'none',
+                                    cursor: 'pointer',
+                                    fontSize: '14px',
+                                    fontWeight: 500,
+                                }}
+                            >
+                                <span>🎛️ {showVariableInspector ? 'Hide Variables' : 'Variables'}</span>
+                            </button>
                         )}
-                    </button>
+
+                        {/* Debug toggle button */}
+                        <button
+                            onClick={() => setShowDebugPanel(!showDebugPanel)}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg transition-all duration-200"
+                            style={{
+                                backgroundColor: showDebugPanel ? '#f59e0b' : '#6b7280',
+                                color: 'white',
+                                border: 'none',
+                                cursor: 'pointer',
+                                fontSize: '14px',
+                                fontWeight: 500,
+                            }}
+                        >
+                            <span>🐛 {showDebugPanel ? 'Hide Debug' : 'Show Debug'}</span>
+                            {pendingEdits.length > 0 && (
+                                <span style={{
+                                    backgroundColor: '#ef4444',
+                                    padding: '2px 6px',
+                                    borderRadius: '9999px',
+                                    fontSize: '12px',
+                                }}>
+                                    {pendingEdits.length}
+                                </span>
+                            )}
+                        </button>
+                    </div>
+
+                    {/* Variable inspector, left of the debug panel when both are open */}
+                    {isEditor && showVariableInspector && (
+                        <VariableInspector className={`fixed bottom-16 z-50 ${showDebugPanel ? 'right-[26rem]' : 'right-4'}`} />
+                    )}
 
                     {/* Debug panel */}
                     {showDebugPanel && (
@@ -556,20 +1012,38 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
                             }}>
                                 <span style={{ fontWeight: 600 }}>📝 Pending Edits ({pendingEdits.length})</span>
                                 {pendingEdits.length > 0 && (
-                                    <button
-                                        onClick={clearAllEdits}
-                                        style={{
-                                            fontSize: '12px',
-                                            padding: '4px 8px',
-                                            backgroundColor: '#ef4444',
-                                            color: 'white',
-                                            border: 'none',
-                                            borderRadius: '4px',
-                                            cursor: 'pointer',
-                                        }}
-                                    >
-                                        Clear All
-                                    </button>
+                                    <div style={{ display: 'flex', gap: '6px' }}>
+                                        {import.meta.env.DEV && (
+                                            <button
+                                                onClick={() => saveEditsToSource()}
+                                                style={{
+                                                    fontSize: '12px',
+                                                    padding: '4px 8px',
+                                                    backgroundColor: '#3cc499',
+                                                    color: 'white',
+                                                    border: 'none',
+                                                    borderRadius: '4px',
+                                                    cursor: 'pointer',
+                                                }}
+                                            >
+                                                Save to Source
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={clearAllEdits}
+                                            style={{
+                                                fontSize: '12px',
+                                                padding: '4px 8px',
+                                                backgroundColor: '#ef4444',
+                                                color: 'white',
+                                                border: 'none',
+                                                borderRadius: '4px',
+                                                cursor: 'pointer',
+                                            }}
+                                        >
+                                            Clear All
+                                        </button>
+                                    </div>
                                 )}
                             </div>
                             <div style={{ padding: '8px' }}>
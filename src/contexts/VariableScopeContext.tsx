@@ -0,0 +1,6 @@
+import { createContext, useContext } from 'react';
+import type { VariableScopeInfo } from '@/lib/variable-scope';
+
+export const VariableScopeContext = createContext<VariableScopeInfo | null>(null);
+
+export const useVariableScope = () => useContext(VariableScopeContext);
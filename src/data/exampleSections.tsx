@@ -3,8 +3,8 @@ import { Block } from "@/components/templates";
 
 // Initialize variables from example variable definitions
 import { useVariableStore } from "@/stores";
-import { getExampleDefaultValues } from "./exampleVariables";
-useVariableStore.getState().initialize(getExampleDefaultValues());
+import { getExampleDefaultValues, exampleVariableDefinitions } from "./exampleVariables";
+useVariableStore.getState().initialize(getExampleDefaultValues(), exampleVariableDefinitions);
 
 // Import layout components
 import { FullWidthLayout } from "@/components/layouts";
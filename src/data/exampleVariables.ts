@@ -26,6 +26,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         min: 0.1,
         max: 5,
         step: 0.1,
+        shareable: true,
     },
     frequency: {
         defaultValue: 1,
@@ -36,6 +37,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         min: 0.1,
         max: 10,
         step: 0.1,
+        shareable: true,
     },
     phase: {
         defaultValue: 0,
@@ -46,6 +48,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         min: 0,
         max: 360,
         step: 5,
+        shareable: true,
     },
     wavelength: {
         defaultValue: 1,
@@ -63,6 +66,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         label: 'Wave Type',
         description: 'The type of wave function to use',
         options: ['sine', 'cosine', 'square', 'sawtooth'],
+        shareable: true,
     },
 
     // ========================================
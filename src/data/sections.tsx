@@ -4,8 +4,8 @@ import { type ReactElement } from "react";
 
 // Initialize variables from this file's variable definitions
 import { useVariableStore } from "@/stores";
-import { getDefaultValues } from "./variables";
-useVariableStore.getState().initialize(getDefaultValues());
+import { getDefaultValues, variableDefinitions } from "./variables";
+useVariableStore.getState().initialize(getDefaultValues(), variableDefinitions);
 
 /**
  * ------------------------------------------------------------------
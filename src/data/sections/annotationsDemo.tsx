@@ -7,16 +7,26 @@
 import { useState } from 'react';
 import { Section } from '@/components/templates';
 import { FullWidthLayout } from '@/components/layouts';
+import { MafsBasic } from '@/components/atoms';
+import { useVar } from '@/stores';
 import {
     Hoverable,
     Glossary,
     Whisper,
     Stepper,
     Toggle,
+    Scrubber,
     FillBlank,
     MultiChoice,
+    Sortable,
     Linked,
     Trigger,
+    Focus,
+    DragWordProvider,
+    DragWordReset,
+    DragWord,
+    DropZone,
+    Movable,
 } from '@/components/annotations';
 
 // Demo visualization component for Linked annotations
@@ -124,6 +134,20 @@ export const annotationsDemoSections = [
                         with equal sides. Click to cycle through options!
                     </p>
                 </div>
+
+                {/* Scrubber */}
+                <div className="p-4 bg-fuchsia-50 rounded-lg">
+                    <h4 className="font-medium mb-2">Scrubber (Precision drag)</h4>
+                    <p className="text-lg leading-relaxed">
+                        A tone at{' '}
+                        <Scrubber initialValue={440} min={20} max={20000} scale="log" unit="Hz" />{' '}
+                        is audible (log scale). Heads comes up with probability{' '}
+                        <Scrubber initialValue={0.5} min={0} max={1} step={0.01} />, and a{' '}
+                        <Scrubber values={[4, 6, 8, 10, 12, 20]} initialValue={6} />-sided die
+                        shows each face with probability 1/n.
+                        Drag the numbers; hold Shift for big steps, Alt for small ones.
+                    </p>
+                </div>
             </div>
         </Section>
     </FullWidthLayout>,
@@ -157,6 +181,19 @@ export const annotationsDemoSections = [
                         – except in three dimensions!
                     </p>
                 </div>
+
+                {/* Sortable */}
+                <div className="p-4 bg-blue-50 rounded-lg">
+                    <h4 className="font-medium mb-2">Sortable (Ordering quiz)</h4>
+                    <p className="text-lg leading-relaxed">
+                        Order these numbers from smallest to largest:{' '}
+                        <Sortable inline items={['½', '⅓', '¾', '⅕']} correctOrder={[3, 1, 0, 2]} />
+                    </p>
+                    <p className="text-lg leading-relaxed mt-4">Put the steps of solving 2x + 3 = 11 in order (drag, or use Enter and the arrow keys):</p>
+                    <Sortable
+                        items={['Subtract 3 from both sides', 'Write 2x = 8', 'Divide both sides by 2', 'Conclude x = 4']}
+                    />
+                </div>
             </div>
         </Section>
     </FullWidthLayout>,
@@ -180,6 +217,87 @@ export const annotationsDemoSections = [
                         and watch the magic happen!
                     </p>
                 </div>
+
+                {/* Focus */}
+                <div className="p-4 bg-emerald-50 rounded-lg">
+                    <h4 className="font-medium mb-2">Focus (Click or hover to zoom into a visual)</h4>
+                    <p className="text-lg leading-relaxed mb-4">
+                        The sine wave crosses zero at the{' '}
+                        <Focus target="focus-demo-plot" viewBox={{ x: [-1, 1], y: [-1, 1] }}>
+                            origin
+                        </Focus>{' '}
+                        and peaks at{' '}
+                        <Focus target="focus-demo-plot" origin={{ x: 0.65, y: 0.4 }} zoomLevel={3}>
+                            π/2
+                        </Focus>. Hover over the{' '}
+                        <Focus target="#focus-demo-legend" trigger="hover" zoomLevel={1.2}>
+                            legend
+                        </Focus>{' '}
+                        to spotlight it.
+                    </p>
+                    <div id="focus-demo-plot">
+                        <MafsBasic />
+                    </div>
+                    <p id="focus-demo-legend" className="mt-2 inline-block text-sm text-gray-600">
+                        Blue: y = sin(x)
+                    </p>
+                </div>
+            </div>
+        </Section>
+    </FullWidthLayout>,
+
+    // Draggable Category
+    <FullWidthLayout key="draggable-demo">
+        <Section id="draggable-annotations">
+            <h3 className="text-xl font-semibold mb-4 text-indigo-600">✋ Draggable Annotations</h3>
+
+            <div className="space-y-6">
+                {/* DragWord + DropZone: cloze sentence */}
+                <DragWordProvider>
+                    <div className="p-4 bg-indigo-50 rounded-lg">
+                        <h4 className="font-medium mb-2">DragWord & DropZone (Fill the blanks)</h4>
+                        <p className="text-lg leading-relaxed">
+                            The longest side of a right triangle is the{' '}
+                            <DropZone zoneId="longest-side" correctAnswer="hypotenuse" />, and the two
+                            sides that form the right angle are the{' '}
+                            <DropZone zoneId="other-sides" correctAnswer="legs" />.
+                        </p>
+                        <div className="flex flex-wrap items-center gap-2 mt-4">
+                            <DragWord dragId="hypotenuse">hypotenuse</DragWord>
+                            <DragWord dragId="legs">legs</DragWord>
+                            <DragWord dragId="radius">radius</DragWord>
+                            <DragWordReset className="ml-auto" />
+                        </div>
+                    </div>
+                </DragWordProvider>
+
+                {/* DropZones placed on a diagram */}
+                <DragWordProvider>
+                    <div className="p-4 bg-indigo-50 rounded-lg">
+                        <h4 className="font-medium mb-2">DropZone on a diagram (Label the parts)</h4>
+                        <div className="relative mx-auto h-48 w-64">
+                            <svg viewBox="0 0 200 150" className="h-full w-full">
+                                <circle cx="100" cy="75" r="60" fill="none" stroke="#6366F1" strokeWidth="2" />
+                                <line x1="100" y1="75" x2="160" y2="75" stroke="#6366F1" strokeWidth="2" />
+                                <circle cx="100" cy="75" r="3" fill="#6366F1" />
+                            </svg>
+                            <div className="absolute left-1/2 top-[42%] -translate-x-[110%]">
+                                <DropZone zoneId="center" correctAnswer="center" placeholder="?" />
+                            </div>
+                            <div className="absolute right-[8%] top-[30%]">
+                                <DropZone zoneId="radius" correctAnswer="radius" placeholder="?" />
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 mt-2">
+                            <DragWord dragId="center">center</DragWord>
+                            <DragWord dragId="radius">radius</DragWord>
+                            <DragWord dragId="chord">chord</DragWord>
+                        </div>
+                    </div>
+                </DragWordProvider>
+
+                {/* Movable: point bound to variables */}
+                <MovableDemoSection />
             </div>
         </Section>
     </FullWidthLayout>,
@@ -226,4 +344,42 @@ function LinkedDemoSection() {
     );
 }
 
+// Separate component for Movable demo so the paragraph can read the point's variables
+function MovableDemoSection() {
+    const x = useVar<number>('movablePointX', 2);
+    const y = useVar<number>('movablePointY', 1);
+
+    return (
+        <div className="p-4 bg-indigo-50 rounded-lg">
+            <h4 className="font-medium mb-2">Movable (Drag the point over a plot)</h4>
+            <div className="grid grid-cols-2 gap-4 items-center">
+                <div
+                    className="relative mx-auto h-48 w-48 rounded border border-indigo-200 bg-white"
+                    style={{
+                        backgroundImage: 'linear-gradient(#e0e7ff 1px, transparent 1px), linear-gradient(90deg, #e0e7ff 1px, transparent 1px)',
+                        backgroundSize: '10% 10%',
+                    }}
+                >
+                    <div className="absolute left-1/2 top-0 h-full w-px bg-indigo-300" />
+                    <div className="absolute left-0 top-1/2 h-px w-full bg-indigo-300" />
+                    <Movable
+                        variant="point"
+                        coordinates={{ x: [-5, 5], y: [-5, 5] }}
+                        snap={0.5}
+                        xVar="movablePointX"
+                        yVar="movablePointY"
+                        initialPosition={{ x: 2, y: 1 }}
+                    >
+                        P
+                    </Movable>
+                </div>
+                <p className="text-lg leading-relaxed">
+                    The point P is at ({x}, {y}), so it lies{' '}
+                    {x === 0 || y === 0 ? 'on an axis' : `in quadrant ${x > 0 ? (y > 0 ? 'I' : 'IV') : (y > 0 ? 'II' : 'III')}`}.
+                </p>
+            </div>
+        </div>
+    );
+}
+
 export default annotationsDemoSections;
@@ -41,6 +41,25 @@ export interface VariableDefinition {
     placeholder?: string;
     /** Schema hint for object types (for AI agents) */
     schema?: string;
+    /** Include the value in the page URL and shared links */
+    shareable?: boolean;
+    /** Set to false to keep the variable local when syncing with a presenter */
+    sync?: boolean;
+    /** Compute the value from other variables (read-only; defaultValue is used until it can be computed) */
+    derive?: DerivedVariableDefinition;
+}
+
+/**
+ * How a derived variable is computed: either a safe math expression
+ * (see `@/lib/expression`) or a pure function of its dependencies.
+ */
+export interface DerivedVariableDefinition {
+    /** Expression over other variables, e.g. 'pi * radius^2' */
+    expression?: string;
+    /** Pure function of the dependency values (alternative to expression) */
+    compute?: (values: Record<string, VarValue>) => VarValue;
+    /** Variables the value depends on (required with compute; inferred from the expression otherwise) */
+    deps?: string[];
 }
 
 /**
@@ -67,6 +86,16 @@ export interface VariableDefinition {
  * 
  * 6. OBJECT (complex data):
  *    { defaultValue: { x: 5, y: 10 }, type: 'object', schema: '{ x: number, y: number }' }
+ *
+ * 7. DERIVED (computed from other variables, read-only):
+ *    { defaultValue: 0, type: 'number', derive: { expression: 'pi * radius^2' } }
+ *    { defaultValue: '', derive: { deps: ['radius'], compute: ({ radius }) => `r = ${radius}` } }
+ *
+ * Add `shareable: true` to keep a variable's value in the URL, so links
+ * to the lesson reopen it with the same settings (not for derived variables).
+ *
+ * Add `sync: false` to keep a variable local to each learner when the lesson
+ * follows a presenter (see `@/lib/variable-sync`).
  */
 export const variableDefinitions: Record<string, VariableDefinition> = {
     // ========================================
@@ -146,6 +175,17 @@ export const variableDefinitions: Record<string, VariableDefinition> = {
         description: 'Configuration for the graph display',
         schema: '{ xMin: number, xMax: number, showGrid: boolean }',
     },
+
+    // ─────────────────────────────────────────
+    // DERIVED - Computed from other variables
+    // ─────────────────────────────────────────
+    myValueSquared: {
+        defaultValue: 25,
+        type: 'number',
+        label: 'My Value Squared',
+        description: 'Updates whenever myValue changes; cannot be set directly',
+        derive: { expression: 'myValue^2' },
+    },
     */
 };
 
@@ -170,6 +210,14 @@ export const getVariableInfo = (name: string): VariableDefinition | undefined =>
     return variableDefinitions[name];
 };
 
+/**
+ * Add variable definitions at runtime (e.g. from a JSON lesson document).
+ * Existing definitions with the same name are replaced.
+ */
+export const registerVariableDefinitions = (definitions: Record<string, VariableDefinition>): void => {
+    Object.assign(variableDefinitions, definitions);
+};
+
 /**
  * Get all default values as a record (for initialization)
  */
@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { FOCUS_TRANSITION_MS, useFocusView, type FocusView } from '@/stores';
+
+type ViewBox = { x: [number, number]; y: [number, number] };
+
+const zoomViewBox = (base: ViewBox, focus: FocusView): ViewBox => {
+    if (focus.viewBox) return focus.viewBox;
+    const [xMin, xMax] = base.x;
+    const [yMin, yMax] = base.y;
+    // origin is measured from the top left, plot y points up
+    const cx = xMin + focus.origin.x * (xMax - xMin);
+    const cy = yMax - focus.origin.y * (yMax - yMin);
+    const halfWidth = (xMax - xMin) / 2 / focus.zoomLevel;
+    const halfHeight = (yMax - yMin) / 2 / focus.zoomLevel;
+    return { x: [cx - halfWidth, cx + halfWidth], y: [cy - halfHeight, cy + halfHeight] };
+};
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+/**
+ * The viewBox for a Mafs plot in `ref`: `base`, or the region a Focus
+ * annotation zooms to, with a smooth transition between the two.
+ *
+ * @example
+ * const ref = useRef<HTMLDivElement>(null);
+ * const viewBox = useFocusViewBox(ref, { x: [-5, 5], y: [-5, 5] });
+ * <div ref={ref} data-focus-zoom><Mafs viewBox={viewBox}>...</Mafs></div>
+ */
+export function useFocusViewBox(ref: RefObject<HTMLElement>, base: ViewBox): ViewBox {
+    const focus = useFocusView(ref);
+    const goal = focus ? zoomViewBox(base, focus) : base;
+    const goalKey = [...goal.x, ...goal.y].join(',');
+    const goalRef = useRef(goal);
+    goalRef.current = goal;
+
+    const [viewBox, setViewBox] = useState<ViewBox>(goal);
+    const currentRef = useRef(viewBox);
+
+    useEffect(() => {
+        const from = currentRef.current;
+        const to = goalRef.current;
+        const start = performance.now();
+
+        let frame = requestAnimationFrame(function step(now) {
+            const t = Math.min(1, (now - start) / FOCUS_TRANSITION_MS);
+            const eased = 1 - Math.pow(1 - t, 3);
+            const next: ViewBox = {
+                x: [lerp(from.x[0], to.x[0], eased), lerp(from.x[1], to.x[1], eased)],
+                y: [lerp(from.y[0], to.y[0], eased), lerp(from.y[1], to.y[1], eased)],
+            };
+            currentRef.current = next;
+            setViewBox(next);
+            if (t < 1) frame = requestAnimationFrame(step);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [goalKey]);
+
+    return viewBox;
+}
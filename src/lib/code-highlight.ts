@@ -0,0 +1,119 @@
+/**
+ * Code Highlighting
+ * -----------------
+ * A small tokenizer for the code blocks authors add in the editor. It only
+ * tells keywords, strings, comments and numbers apart, which is enough to
+ * make short snippets readable without shipping a full grammar library.
+ */
+
+export type CodeTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface CodeToken {
+    type: CodeTokenType;
+    text: string;
+}
+
+interface LanguageRules {
+    keywords: string[];
+    comments: string[];
+    strings: string[];
+}
+
+const JS_KEYWORDS = [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+    'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import',
+    'in', 'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this',
+    'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+];
+
+const C_COMMENTS = ['\\/\\/[^\\n]*', '\\/\\*[\\s\\S]*?\\*\\/'];
+const QUOTED = ['"(?:\\\\.|[^"\\\\\\n])*"', "'(?:\\\\.|[^'\\\\\\n])*'"];
+
+const LANGUAGES: Record<string, LanguageRules> = {
+    javascript: {
+        keywords: JS_KEYWORDS,
+        comments: C_COMMENTS,
+        strings: [...QUOTED, '`(?:\\\\.|[^`\\\\])*`'],
+    },
+    typescript: {
+        keywords: [...JS_KEYWORDS, 'as', 'enum', 'implements', 'interface', 'keyof', 'private', 'protected', 'public', 'readonly', 'type'],
+        comments: C_COMMENTS,
+        strings: [...QUOTED, '`(?:\\\\.|[^`\\\\])*`'],
+    },
+    python: {
+        keywords: [
+            'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+            'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+            'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+        ],
+        comments: ['#[^\\n]*'],
+        strings: ['"""[\\s\\S]*?"""', "'''[\\s\\S]*?'''", ...QUOTED],
+    },
+    json: {
+        keywords: ['true', 'false', 'null'],
+        comments: [],
+        strings: [QUOTED[0]],
+    },
+    bash: {
+        keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'then', 'while'],
+        comments: ['#[^\\n]*'],
+        strings: QUOTED,
+    },
+};
+
+const ALIASES: Record<string, string> = {
+    js: 'javascript',
+    jsx: 'javascript',
+    ts: 'typescript',
+    tsx: 'typescript',
+    py: 'python',
+    sh: 'bash',
+    shell: 'bash',
+};
+
+/** Languages offered in the editor */
+export const CODE_LANGUAGES = ['plain', ...Object.keys(LANGUAGES)];
+
+const resolveLanguage = (language: string): LanguageRules | undefined => {
+    const name = language.toLowerCase();
+    return LANGUAGES[ALIASES[name] ?? name];
+};
+
+/**
+ * Split code into tokens; unknown languages come back as a single plain token
+ */
+export const highlightCode = (code: string, language: string): CodeToken[] => {
+    const rules = resolveLanguage(language);
+    if (!rules) return [{ type: 'plain', text: code }];
+
+    const keywords = new Set(rules.keywords);
+    const groups = [
+        rules.comments.length > 0 ? `(${rules.comments.join('|')})` : '(?!)',
+        `(${rules.strings.join('|')})`,
+        '(\\b\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?\\b)',
+        '([A-Za-z_$][\\w$]*)',
+    ];
+    const pattern = new RegExp(groups.join('|'), 'g');
+
+    const tokens: CodeToken[] = [];
+    const push = (type: CodeTokenType, text: string) => {
+        const last = tokens[tokens.length - 1];
+        if (last?.type === type) last.text += text;
+        else tokens.push({ type, text });
+    };
+
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(code)) !== null) {
+        if (match.index > lastIndex) push('plain', code.slice(lastIndex, match.index));
+        const [text, comment, string, number] = match;
+        if (comment) push('comment', text);
+        else if (string) push('string', text);
+        else if (number) push('number', text);
+        else push(keywords.has(text) ? 'keyword' : 'plain', text);
+        lastIndex = match.index + text.length;
+    }
+    if (lastIndex < code.length) push('plain', code.slice(lastIndex));
+
+    return tokens;
+};
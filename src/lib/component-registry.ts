@@ -0,0 +1,238 @@
+import { type ComponentType } from "react";
+import { Block } from "@/components/templates/Block";
+import { Section } from "@/components/templates/Section";
+import {
+    FullWidthLayout,
+    SplitLayout,
+    GridLayout,
+    SidebarLayout,
+    Sidebar,
+    Main,
+} from "@/components/layouts";
+import {
+    EditableH1,
+    EditableH2,
+    EditableH3,
+    EditableH4,
+    EditableH5,
+    EditableH6,
+    EditableParagraph,
+    EditableSpan,
+    Equation,
+    InlineScrubbleNumber,
+    InlineExpression,
+    InlineDropdown,
+    InlineTextInput,
+    InfoTooltip,
+    D3BarChart,
+    AnimatedGraph,
+    AnimatedBackground,
+    CoordinateSystem,
+    MorphingShapes,
+    ParticleSystem,
+    MafsBasic,
+    MafsInteractive,
+    ThreeCanvas,
+    ThreeCoordinateSystem,
+    RotatingCube,
+    PulsingSphere,
+    GeometricCollection,
+    AtomicStructure,
+} from "@/components/atoms";
+import {
+    MathBlock,
+    InteractiveEquation,
+    VariableReplay,
+    Callout,
+    CodeBlock,
+    Figure,
+    SimpleTable,
+} from "@/components/molecules";
+import {
+    Hoverable,
+    Glossary,
+    Whisper,
+    Stepper,
+    Toggle,
+    Scrubber,
+    FillBlank,
+    MultiChoice,
+    Sortable,
+    Linked,
+    DragWordProvider,
+    DragWordReset,
+    DragWord,
+    DropZone,
+    Movable,
+    Focus,
+} from "@/components/annotations";
+import { DesmosGraph } from "@/components/organisms/DesmosGraph";
+import { GeoGebraGraph } from "@/components/organisms/GeoGebraGraph";
+import { InteractiveAnimation } from "@/components/organisms/InteractiveAnimation";
+import MermaidRenderer from "@/components/organisms/MermaidRenderer";
+import { EditableText } from "@/components/editing/EditableText";
+
+/**
+ * Component Registry
+ * ------------------
+ * Maps the component names used in lesson documents (see `@/lib/lesson-schema`)
+ * to the React components that render them, so JSON lessons can be turned
+ * back into the same trees we write by hand in `src/data/sections`.
+ */
+
+/** What role a component plays in a lesson (used for outlines and tooling) */
+export type ComponentCategory =
+    | 'layout'
+    | 'block'
+    | 'heading'
+    | 'paragraph'
+    | 'equation'
+    | 'inline'
+    | 'annotation'
+    | 'quiz'
+    | 'visualization';
+
+export interface ComponentRegistryEntry<P extends object = Record<string, unknown>> {
+    /** The component to render */
+    component: ComponentType<P>;
+    /** Role of the component in the lesson */
+    category: ComponentCategory;
+}
+
+// Components take their own props; lesson documents pass them as plain JSON
+const entry = <P extends object>(component: ComponentType<P>, category: ComponentCategory): ComponentRegistryEntry => ({
+    component: component as ComponentType<Record<string, unknown>>,
+    category,
+});
+
+const registry: Record<string, ComponentRegistryEntry> = {
+    // Layouts
+    FullWidthLayout: entry(FullWidthLayout, 'layout'),
+    SplitLayout: entry(SplitLayout, 'layout'),
+    GridLayout: entry(GridLayout, 'layout'),
+    SidebarLayout: entry(SidebarLayout, 'layout'),
+    Sidebar: entry(Sidebar, 'layout'),
+    Main: entry(Main, 'layout'),
+
+    // Blocks
+    Block: entry(Block, 'block'),
+    Section: entry(Section, 'block'),
+
+    // Editable text
+    EditableH1: entry(EditableH1, 'heading'),
+    EditableH2: entry(EditableH2, 'heading'),
+    EditableH3: entry(EditableH3, 'heading'),
+    EditableH4: entry(EditableH4, 'heading'),
+    EditableH5: entry(EditableH5, 'heading'),
+    EditableH6: entry(EditableH6, 'heading'),
+    EditableParagraph: entry(EditableParagraph, 'paragraph'),
+    EditableSpan: entry(EditableSpan, 'paragraph'),
+    EditableText: entry(EditableText, 'paragraph'),
+
+    // Content blocks
+    Callout: entry(Callout, 'paragraph'),
+    CodeBlock: entry(CodeBlock, 'paragraph'),
+    SimpleTable: entry(SimpleTable, 'paragraph'),
+    Figure: entry(Figure, 'visualization'),
+
+    // Equations
+    Equation: entry(Equation, 'equation'),
+    MathBlock: entry(MathBlock, 'equation'),
+    InteractiveEquation: entry(InteractiveEquation, 'equation'),
+
+    // Inline components
+    InlineScrubbleNumber: entry(InlineScrubbleNumber, 'inline'),
+    InlineExpression: entry(InlineExpression, 'inline'),
+    InlineDropdown: entry(InlineDropdown, 'quiz'),
+    InlineTextInput: entry(InlineTextInput, 'quiz'),
+    InfoTooltip: entry(InfoTooltip, 'inline'),
+
+    // Annotations
+    Hoverable: entry(Hoverable, 'annotation'),
+    Glossary: entry(Glossary, 'annotation'),
+    Whisper: entry(Whisper, 'annotation'),
+    Stepper: entry(Stepper, 'annotation'),
+    Toggle: entry(Toggle, 'annotation'),
+    Scrubber: entry(Scrubber, 'annotation'),
+    Linked: entry(Linked, 'annotation'),
+    Focus: entry(Focus, 'annotation'),
+    DragWordProvider: entry(DragWordProvider, 'annotation'),
+    DragWordReset: entry(DragWordReset, 'annotation'),
+    DragWord: entry(DragWord, 'annotation'),
+    Movable: entry(Movable, 'annotation'),
+    FillBlank: entry(FillBlank, 'quiz'),
+    MultiChoice: entry(MultiChoice, 'quiz'),
+    Sortable: entry(Sortable, 'quiz'),
+    DropZone: entry(DropZone, 'quiz'),
+
+    // Visualizations
+    DesmosGraph: entry(DesmosGraph, 'visualization'),
+    GeoGebraGraph: entry(GeoGebraGraph, 'visualization'),
+    InteractiveAnimation: entry(InteractiveAnimation, 'visualization'),
+    MermaidRenderer: entry(MermaidRenderer, 'visualization'),
+    D3BarChart: entry(D3BarChart, 'visualization'),
+    AnimatedGraph: entry(AnimatedGraph, 'visualization'),
+    AnimatedBackground: entry(AnimatedBackground, 'visualization'),
+    CoordinateSystem: entry(CoordinateSystem, 'visualization'),
+    MorphingShapes: entry(MorphingShapes, 'visualization'),
+    ParticleSystem: entry(ParticleSystem, 'visualization'),
+    MafsBasic: entry(MafsBasic, 'visualization'),
+    MafsInteractive: entry(MafsInteractive, 'visualization'),
+    ThreeCanvas: entry(ThreeCanvas, 'visualization'),
+    ThreeCoordinateSystem: entry(ThreeCoordinateSystem, 'visualization'),
+    RotatingCube: entry(RotatingCube, 'visualization'),
+    PulsingSphere: entry(PulsingSphere, 'visualization'),
+    GeometricCollection: entry(GeometricCollection, 'visualization'),
+    AtomicStructure: entry(AtomicStructure, 'visualization'),
+    VariableReplay: entry(VariableReplay, 'visualization'),
+};
+
+/**
+ * HTML tags that lesson documents may use directly (for simple markup
+ * like lists or emphasis inside a Block).
+ */
+export const ALLOWED_HTML_TAGS = new Set([
+    'div', 'span', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'ul', 'ol', 'li', 'strong', 'em', 'b', 'i', 'u', 'code', 'pre',
+    'blockquote', 'hr', 'br', 'sub', 'sup', 'small', 'a', 'img', 'figure', 'figcaption',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td',
+]);
+
+/**
+ * Props lesson documents may not set: raw HTML and event handlers would run
+ * code from the document.
+ */
+export const isUnsafeHtmlProp = (name: string): boolean =>
+    name === 'dangerouslySetInnerHTML' || /^on/i.test(name);
+
+/**
+ * Register a component so lesson documents can reference it by name.
+ * Use this for lesson-specific components defined in `src/data/sections`.
+ */
+export function registerComponent<P extends object>(name: string, { component, category }: ComponentRegistryEntry<P>): void {
+    registry[name] = entry(component, category);
+}
+
+/**
+ * Look up a registered component by name
+ */
+export function getComponentEntry(name: string): ComponentRegistryEntry | undefined {
+    return registry[name];
+}
+
+/**
+ * Reverse lookup: find the registered name of a component
+ */
+export function getComponentName(component: unknown): string | undefined {
+    for (const [name, entry] of Object.entries(registry)) {
+        if (entry.component === component) return name;
+    }
+    return undefined;
+}
+
+/**
+ * Get all registered component names (for AI agents to discover)
+ */
+export function getRegisteredComponentNames(): string[] {
+    return Object.keys(registry);
+}
@@ -0,0 +1,142 @@
+import type { VariableDefinition } from "@/data/variables";
+import type { VarValue } from "@/stores";
+import { compileExpression } from "./expression";
+
+/**
+ * Derived Variables
+ * -----------------
+ * Variables whose value is computed from other variables, declared with a
+ * `derive` entry in `variableDefinitions`:
+ *
+ * ```ts
+ * area: { defaultValue: 0, derive: { expression: 'pi * radius^2' } },
+ * label: { defaultValue: '', derive: { deps: ['radius'], compute: ({ radius }) => `r = ${radius}` } },
+ * ```
+ *
+ * Expressions use the safe expression language in `./expression` and list
+ * their own dependencies; functions must declare `deps` and only receive
+ * those values. Derived variables are evaluated in dependency order; cycles
+ * are reported and the variables involved keep their default value.
+ */
+
+type Evaluator = (values: Record<string, VarValue>) => VarValue;
+
+export interface DerivedGraph {
+    /** Derived variables in evaluation order (dependencies first) */
+    order: string[];
+    /** Variables each derived variable reads */
+    deps: Record<string, string[]>;
+    evaluators: Record<string, Evaluator>;
+}
+
+export const EMPTY_DERIVED_GRAPH: DerivedGraph = { order: [], deps: {}, evaluators: {} };
+
+export const isDerivedDefinition = (definition: VariableDefinition | undefined): boolean => {
+    return !!definition?.derive;
+};
+
+const pick = (values: Record<string, VarValue>, names: string[]): Record<string, VarValue> => {
+    const picked: Record<string, VarValue> = {};
+    names.forEach(name => {
+        picked[name] = values[name];
+    });
+    return picked;
+};
+
+/**
+ * Compile the derived variables among the definitions and order them.
+ * Invalid expressions, unknown dependencies and cycles are logged.
+ */
+export function buildDerivedGraph(definitions: Record<string, VariableDefinition>): DerivedGraph {
+    const deps: Record<string, string[]> = {};
+    const evaluators: Record<string, Evaluator> = {};
+
+    for (const [name, definition] of Object.entries(definitions)) {
+        const derive = definition.derive;
+        if (!derive) continue;
+
+        try {
+            if (derive.expression !== undefined) {
+                const compiled = compileExpression(derive.expression);
+                const names = derive.deps ?? compiled.variables;
+                deps[name] = names;
+                evaluators[name] = (values) => compiled.evaluate(pick(values, names));
+            } else if (derive.compute && derive.deps) {
+                const { compute, deps: names } = derive;
+                deps[name] = names;
+                evaluators[name] = (values) => compute(pick(values, names));
+            } else {
+                console.warn(`Derived variable "${name}" needs an expression, or a compute function with deps`);
+                continue;
+            }
+        } catch (error) {
+            console.warn(`Invalid expression for derived variable "${name}":`, error);
+            continue;
+        }
+
+        const unknown = deps[name].filter(dep => !(dep in definitions));
+        if (unknown.length > 0) {
+            console.warn(`Derived variable "${name}" depends on undefined variable(s): ${unknown.join(', ')}`);
+        }
+    }
+
+    // Depth-first topological sort; a node seen again while still on the path closes a cycle
+    const order: string[] = [];
+    const state: Record<string, 'visiting' | 'done'> = {};
+    const cyclic = new Set<string>();
+
+    const visit = (name: string, path: string[]) => {
+        if (state[name] === 'done') return;
+        if (state[name] === 'visiting') {
+            const cycle = [...path.slice(path.indexOf(name)), name];
+            console.warn(`Derived variables form a cycle: ${cycle.join(' -> ')}`);
+            cycle.forEach(member => cyclic.add(member));
+            return;
+        }
+
+        state[name] = 'visiting';
+        deps[name].filter(dep => dep in deps).forEach(dep => visit(dep, [...path, name]));
+        state[name] = 'done';
+        order.push(name);
+    };
+    Object.keys(deps).forEach(name => visit(name, []));
+
+    return {
+        order: order.filter(name => !cyclic.has(name)),
+        deps,
+        evaluators,
+    };
+}
+
+/**
+ * Values of the derived variables affected by a change. With no `changed`
+ * list every derived variable is recomputed.
+ */
+export function computeDerivedValues(
+    graph: DerivedGraph,
+    values: Record<string, VarValue>,
+    changed?: string[]
+): Record<string, VarValue> {
+    const dirty = new Set(changed);
+    const current = { ...values };
+    const updates: Record<string, VarValue> = {};
+
+    for (const name of graph.order) {
+        if (changed && !graph.deps[name].some(dep => dirty.has(dep))) continue;
+
+        try {
+            const value = graph.evaluators[name](current);
+            if (typeof value === 'number' && !Number.isFinite(value)) {
+                throw new Error(`result is ${value}`);
+            }
+            current[name] = value;
+            updates[name] = value;
+            dirty.add(name);
+        } catch (error) {
+            // Keep the previous value so one bad input doesn't blank the lesson
+            console.warn(`Could not compute derived variable "${name}":`, error);
+        }
+    }
+
+    return updates;
+}
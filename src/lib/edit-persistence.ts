@@ -0,0 +1,168 @@
+import type { PendingEdit } from "@/contexts/EditingContext";
+
+/**
+ * Edit Persistence
+ * ----------------
+ * Keeps the editor's pending edits in IndexedDB so they survive reloads
+ * (HMR, crashes, accidental navigation).
+ *
+ * Logs are keyed by lesson and by session. Every page load is a new session
+ * that holds a Web Lock while it is open, so on startup the logs of other
+ * sessions of the same lesson that are no longer open (no lock held) hold
+ * unsaved edits that can be offered for recovery. Logs of tabs that are
+ * still open are left alone. Without the Locks API (e.g. plain http on a
+ * LAN address) every other log is offered.
+ *
+ * IndexedDB failures are logged and treated as "nothing stored".
+ */
+
+const DB_NAME = 'mathvibe-editor';
+const DB_VERSION = 1;
+const STORE_NAME = 'pending-edits';
+
+export interface PersistedEditLog {
+    /** `${lessonId}::${sessionId}` */
+    key: string;
+    lessonId: string;
+    sessionId: string;
+    edits: PendingEdit[];
+    updatedAt: number;
+}
+
+/** Session id for this page load */
+export const EDIT_SESSION_ID = `session-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+const SESSION_LOCK_PREFIX = 'mathvibe-editor-session:';
+
+let sessionLockRequested = false;
+
+/**
+ * Hold this session's lock until the page is closed, so other tabs don't
+ * offer its log for recovery
+ */
+const holdSessionLock = (): void => {
+    if (sessionLockRequested || typeof navigator === 'undefined' || !navigator.locks) return;
+    sessionLockRequested = true;
+    navigator.locks
+        .request(`${SESSION_LOCK_PREFIX}${EDIT_SESSION_ID}`, () => new Promise<never>(() => {}))
+        .catch((error) => console.warn('Failed to lock the edit session:', error));
+};
+
+/**
+ * Ids of the sessions that are still open in some tab
+ */
+const openSessionIds = async (): Promise<Set<string>> => {
+    if (typeof navigator === 'undefined' || !navigator.locks) return new Set();
+    try {
+        const { held = [] } = await navigator.locks.query();
+        return new Set(
+            held
+                .map((lock) => lock.name ?? '')
+                .filter((name) => name.startsWith(SESSION_LOCK_PREFIX))
+                .map((name) => name.slice(SESSION_LOCK_PREFIX.length))
+        );
+    } catch (error) {
+        console.warn('Failed to query open edit sessions:', error);
+        return new Set();
+    }
+};
+
+/**
+ * Identify the lesson being edited. Set VITE_LESSON_ID when several lessons
+ * are served from the same origin and path.
+ */
+export const getLessonStorageId = (): string => {
+    if (import.meta.env.VITE_LESSON_ID) return import.meta.env.VITE_LESSON_ID;
+    const content = import.meta.env.VITE_SHOW_EXAMPLES === 'true' ? 'examples' : 'sections';
+    return `${window.location.origin}${window.location.pathname}#${content}`;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex('lessonId', 'lessonId', { unique: false });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => {
+        dbPromise = null;
+    });
+
+    return dbPromise;
+};
+
+const runRequest = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Store the edit log for a session. An empty log removes the entry.
+ */
+export async function saveEditLog(lessonId: string, sessionId: string, edits: PendingEdit[]): Promise<void> {
+    const key = `${lessonId}::${sessionId}`;
+    if (sessionId === EDIT_SESSION_ID) holdSessionLock();
+    try {
+        if (edits.length === 0) {
+            await runRequest('readwrite', (store) => store.delete(key));
+            return;
+        }
+
+        const log: PersistedEditLog = { key, lessonId, sessionId, edits, updatedAt: Date.now() };
+        await runRequest('readwrite', (store) => store.put(log));
+    } catch (error) {
+        console.warn('Failed to persist pending edits:', error);
+    }
+}
+
+/**
+ * Edit logs left by other sessions of a lesson that are no longer open, most recent first
+ */
+export async function loadRecoverableEditLogs(lessonId: string, currentSessionId: string): Promise<PersistedEditLog[]> {
+    try {
+        const [logs, openSessions] = await Promise.all([
+            runRequest<PersistedEditLog[]>('readonly', (store) =>
+                store.index('lessonId').getAll(IDBKeyRange.only(lessonId))
+            ),
+            openSessionIds(),
+        ]);
+        return logs
+            .filter((log) => log.sessionId !== currentSessionId && !openSessions.has(log.sessionId) && log.edits.length > 0)
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+        console.warn('Failed to read persisted edits:', error);
+        return [];
+    }
+}
+
+/**
+ * Remove a stored edit log
+ */
+export async function deleteEditLog(key: string): Promise<void> {
+    try {
+        await runRequest('readwrite', (store) => store.delete(key));
+    } catch (error) {
+        console.warn('Failed to delete persisted edits:', error);
+    }
+}
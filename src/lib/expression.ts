@@ -0,0 +1,346 @@
+/**
+ * Safe Math Expressions
+ * ---------------------
+ * A small expression language for values computed from lesson variables,
+ * e.g. `pi * radius^2` or `waveType == 'sine' ? amplitude : 0`.
+ *
+ * Expressions are parsed into a tree and evaluated against a scope of
+ * variables; nothing is passed to `eval` or `Function`, so only the
+ * operators, constants and functions listed here are available.
+ *
+ * - Numbers, strings ('...' or "..."), `true` / `false`
+ * - Arithmetic: `+ - * / % ^` (`**` is an alias for `^`)
+ * - Comparison and logic: `== != < <= > >= && || !` and `cond ? a : b`
+ * - Constants: `pi`, `e`, `tau`
+ * - Functions: see EXPRESSION_FUNCTIONS
+ */
+
+export type ExpressionValue = number | string | boolean;
+
+export type ExpressionNode =
+    | { kind: 'literal'; value: ExpressionValue }
+    | { kind: 'identifier'; name: string }
+    | { kind: 'unary'; operator: '-' | '+' | '!'; operand: ExpressionNode }
+    | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+    | { kind: 'call'; callee: string; args: ExpressionNode[] };
+
+export const EXPRESSION_CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E,
+    tau: Math.PI * 2,
+};
+
+export const EXPRESSION_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    abs: Math.abs,
+    sqrt: Math.sqrt,
+    cbrt: Math.cbrt,
+    exp: Math.exp,
+    ln: Math.log,
+    log: Math.log10,
+    log2: Math.log2,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    atan2: Math.atan2,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    round: Math.round,
+    sign: Math.sign,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow,
+    hypot: Math.hypot,
+    clamp: (value, min, max) => Math.min(Math.max(value, min), max),
+    deg: (radians) => radians * 180 / Math.PI,
+    rad: (degrees) => degrees * Math.PI / 180,
+};
+
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type Token =
+    | { type: 'number'; value: number; pos: number }
+    | { type: 'string'; value: string; pos: number }
+    | { type: 'name'; value: string; pos: number }
+    | { type: 'op'; value: string; pos: number }
+    | { type: 'end'; pos: number };
+
+const OPERATORS = ['**', '==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '?', ':', '(', ')', ','];
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let pos = 0;
+
+    while (pos < source.length) {
+        const char = source[pos];
+
+        if (/\s/.test(char)) {
+            pos++;
+            continue;
+        }
+
+        const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(pos));
+        if (number) {
+            tokens.push({ type: 'number', value: Number(number[0]), pos });
+            pos += number[0].length;
+            continue;
+        }
+
+        const name = /^[A-Za-z_$][\w$]*/.exec(source.slice(pos));
+        if (name) {
+            tokens.push({ type: 'name', value: name[0], pos });
+            pos += name[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            const end = source.indexOf(char, pos + 1);
+            if (end === -1) throw new Error(`Unterminated string at ${pos}`);
+            tokens.push({ type: 'string', value: source.slice(pos + 1, end), pos });
+            pos = end + 1;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => source.startsWith(op, pos));
+        if (!operator) throw new Error(`Unexpected "${char}" at ${pos}`);
+        tokens.push({ type: 'op', value: operator === '**' ? '^' : operator, pos });
+        pos += operator.length;
+    }
+
+    tokens.push({ type: 'end', pos });
+    return tokens;
+};
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const BINARY_LEVELS: string[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+];
+
+/**
+ * Parse an expression. Throws with the position of the first syntax error.
+ */
+export function parseExpression(source: string): ExpressionNode {
+    const tokens = tokenize(source);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const isOp = (value: string) => {
+        const token = peek();
+        return token.type === 'op' && token.value === value;
+    };
+    const expectOp = (value: string) => {
+        if (!isOp(value)) throw new Error(`Expected "${value}" at ${peek().pos}`);
+        index++;
+    };
+
+    const parseConditional = (): ExpressionNode => {
+        const test = parseBinary(0);
+        if (!isOp('?')) return test;
+        index++;
+        const consequent = parseConditional();
+        expectOp(':');
+        const alternate = parseConditional();
+        return { kind: 'conditional', test, consequent, alternate };
+    };
+
+    const parseBinary = (level: number): ExpressionNode => {
+        if (level === BINARY_LEVELS.length) return parseUnary();
+
+        let left = parseBinary(level + 1);
+        while (BINARY_LEVELS[level].some(isOp)) {
+            const operator = (tokens[index++] as { value: string }).value;
+            left = { kind: 'binary', operator, left, right: parseBinary(level + 1) };
+        }
+        return left;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (isOp('-') || isOp('+') || isOp('!')) {
+            const operator = (tokens[index++] as { value: '-' | '+' | '!' }).value;
+            return { kind: 'unary', operator, operand: parseUnary() };
+        }
+        return parsePower();
+    };
+
+    // Right-associative, binds tighter than unary minus on its left: -2^2 = -4
+    const parsePower = (): ExpressionNode => {
+        const base = parsePrimary();
+        if (!isOp('^')) return base;
+        index++;
+        return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = tokens[index++];
+
+        switch (token.type) {
+            case 'number':
+            case 'string':
+                return { kind: 'literal', value: token.value };
+            case 'name': {
+                if (token.value === 'true' || token.value === 'false') {
+                    return { kind: 'literal', value: token.value === 'true' };
+                }
+                if (!isOp('(')) return { kind: 'identifier', name: token.value };
+
+                if (!hasOwn(EXPRESSION_FUNCTIONS, token.value)) {
+                    throw new Error(`Unknown function "${token.value}" at ${token.pos}`);
+                }
+                index++;
+                const args: ExpressionNode[] = [];
+                if (!isOp(')')) {
+                    args.push(parseConditional());
+                    while (isOp(',')) {
+                        index++;
+                        args.push(parseConditional());
+                    }
+                }
+                expectOp(')');
+                return { kind: 'call', callee: token.value, args };
+            }
+            case 'op':
+                if (token.value === '(') {
+                    const inner = parseConditional();
+                    expectOp(')');
+                    return inner;
+                }
+                throw new Error(`Unexpected "${token.value}" at ${token.pos}`);
+            default:
+                throw new Error('Unexpected end of expression');
+        }
+    };
+
+    const tree = parseConditional();
+    if (peek().type !== 'end') {
+        throw new Error(`Unexpected input at ${peek().pos}`);
+    }
+    return tree;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Names of the variables an expression reads (constants excluded)
+ */
+export function getExpressionVariables(node: ExpressionNode): string[] {
+    const names = new Set<string>();
+    const visit = (current: ExpressionNode) => {
+        switch (current.kind) {
+            case 'identifier':
+                if (!hasOwn(EXPRESSION_CONSTANTS, current.name)) names.add(current.name);
+                break;
+            case 'unary':
+                visit(current.operand);
+                break;
+            case 'binary':
+                visit(current.left);
+                visit(current.right);
+                break;
+            case 'conditional':
+                visit(current.test);
+                visit(current.consequent);
+                visit(current.alternate);
+                break;
+            case 'call':
+                current.args.forEach(visit);
+                break;
+        }
+    };
+    visit(node);
+    return Array.from(names);
+}
+
+const toNumber = (value: unknown): number => {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) throw new Error(`Expected a number but got ${JSON.stringify(value)}`);
+    return parsed;
+};
+
+const BINARY_OPERATIONS: Record<string, (left: ExpressionValue, right: ExpressionValue) => ExpressionValue> = {
+    '+': (l, r) => (typeof l === 'string' || typeof r === 'string' ? `${l}${r}` : toNumber(l) + toNumber(r)),
+    '-': (l, r) => toNumber(l) - toNumber(r),
+    '*': (l, r) => toNumber(l) * toNumber(r),
+    '/': (l, r) => toNumber(l) / toNumber(r),
+    '%': (l, r) => toNumber(l) % toNumber(r),
+    '^': (l, r) => Math.pow(toNumber(l), toNumber(r)),
+    '==': (l, r) => l === r,
+    '!=': (l, r) => l !== r,
+    '<': (l, r) => toNumber(l) < toNumber(r),
+    '<=': (l, r) => toNumber(l) <= toNumber(r),
+    '>': (l, r) => toNumber(l) > toNumber(r),
+    '>=': (l, r) => toNumber(l) >= toNumber(r),
+};
+
+/**
+ * Evaluate a parsed expression. Throws for unknown variables and values of
+ * the wrong kind (e.g. an array where a number is expected).
+ */
+export function evaluateExpression(node: ExpressionNode, scope: Record<string, unknown>): ExpressionValue {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'identifier': {
+            if (hasOwn(scope, node.name)) {
+                const value = scope[node.name];
+                if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+                throw new Error(`Variable "${node.name}" is not a number, string or boolean`);
+            }
+            if (hasOwn(EXPRESSION_CONSTANTS, node.name)) return EXPRESSION_CONSTANTS[node.name];
+            throw new Error(`Unknown variable "${node.name}"`);
+        }
+        case 'unary': {
+            const operand = evaluateExpression(node.operand, scope);
+            if (node.operator === '!') return !operand;
+            return node.operator === '-' ? -toNumber(operand) : toNumber(operand);
+        }
+        case 'binary': {
+            // Short-circuit logic keeps `x != 0 && 1 / x > 2` safe
+            if (node.operator === '&&') {
+                return evaluateExpression(node.left, scope) && evaluateExpression(node.right, scope);
+            }
+            if (node.operator === '||') {
+                return evaluateExpression(node.left, scope) || evaluateExpression(node.right, scope);
+            }
+            return BINARY_OPERATIONS[node.operator](evaluateExpression(node.left, scope), evaluateExpression(node.right, scope));
+        }
+        case 'conditional':
+            return evaluateExpression(node.test, scope)
+                ? evaluateExpression(node.consequent, scope)
+                : evaluateExpression(node.alternate, scope);
+        case 'call':
+            return EXPRESSION_FUNCTIONS[node.callee](...node.args.map(arg => toNumber(evaluateExpression(arg, scope))));
+    }
+}
+
+/**
+ * Parse once, evaluate many times
+ */
+export function compileExpression(source: string): {
+    variables: string[];
+    evaluate: (scope: Record<string, unknown>) => ExpressionValue;
+} {
+    const tree = parseExpression(source);
+    return {
+        variables: getExpressionVariables(tree),
+        evaluate: (scope) => evaluateExpression(tree, scope),
+    };
+}
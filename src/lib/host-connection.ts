@@ -0,0 +1,146 @@
+import {
+    isProtocolMessage,
+    wrapMessage,
+    type HostToLessonMessage,
+    type LessonMessageOf,
+    type LessonMessageType,
+    type LessonToHostMessage,
+    type ProtocolMessage,
+} from "./host-protocol";
+
+/**
+ * Host Connection
+ * ---------------
+ * The host side of the lesson protocol (see `./host-protocol`). An embedding
+ * editor uses it to drive the lesson iframe; tests use it as a mock host by
+ * pointing it at the lesson's own window (without a parent frame the lesson
+ * posts to itself).
+ *
+ * ```ts
+ * // Host page
+ * const host = createHostConnection({ target: iframe.contentWindow!, targetOrigin: lessonOrigin });
+ * const { edits } = await host.request({ type: 'request-edits' });
+ *
+ * // Test harness
+ * const host = createHostConnection({ target: window });
+ * await host.request({ type: 'undo' });
+ * const update = await host.waitFor('edits-changed');
+ * ```
+ */
+
+export interface HostConnectionOptions {
+    /** Window running the lesson */
+    target: Window;
+    /** Origin of the lesson (default: any) */
+    targetOrigin?: string;
+    /** Window that receives the lesson's messages (default: the current window) */
+    listenOn?: Window;
+    /** How long to wait for replies (default: 5000ms) */
+    timeoutMs?: number;
+}
+
+type ReceivedMessage = ProtocolMessage<LessonToHostMessage>;
+
+export interface HostConnection {
+    /** Send a message without waiting for a reply. Returns the message id. */
+    send: (message: HostToLessonMessage) => string;
+    /** Send a message and resolve with its reply (a response message or an `ack`) */
+    request: <T extends LessonMessageType = LessonMessageType>(
+        message: HostToLessonMessage,
+        timeoutMs?: number
+    ) => Promise<ProtocolMessage<LessonMessageOf<T>>>;
+    /** Subscribe to a message type from the lesson */
+    on: <T extends LessonMessageType>(type: T, handler: (message: ProtocolMessage<LessonMessageOf<T>>) => void) => () => void;
+    /** Resolve with the next message of a type (optionally matching a predicate) */
+    waitFor: <T extends LessonMessageType>(
+        type: T,
+        predicate?: (message: ProtocolMessage<LessonMessageOf<T>>) => boolean,
+        timeoutMs?: number
+    ) => Promise<ProtocolMessage<LessonMessageOf<T>>>;
+    /** Every message received so far */
+    messages: ReceivedMessage[];
+    /** Stop listening */
+    dispose: () => void;
+}
+
+export function createHostConnection(options: HostConnectionOptions): HostConnection {
+    const { target, targetOrigin = '*', listenOn = window, timeoutMs = 5000 } = options;
+    const messages: ReceivedMessage[] = [];
+    const listeners = new Set<(message: ReceivedMessage) => void>();
+
+    const handleMessage = (event: MessageEvent) => {
+        const data = event.data;
+        if (!isProtocolMessage(data) || data.direction !== 'to-host') return;
+        if (targetOrigin !== '*' && event.origin !== targetOrigin) return;
+
+        const message = data as ReceivedMessage;
+        messages.push(message);
+        Array.from(listeners).forEach(listener => listener(message));
+    };
+
+    listenOn.addEventListener('message', handleMessage);
+
+    const waitForMessage = <M extends ReceivedMessage>(
+        matches: (message: ReceivedMessage) => boolean,
+        description: string,
+        timeout: number
+    ): Promise<M> => new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            listeners.delete(listener);
+            reject(new Error(`Timed out waiting for ${description}`));
+        }, timeout);
+
+        const listener = (message: ReceivedMessage) => {
+            if (!matches(message)) return;
+            clearTimeout(timer);
+            listeners.delete(listener);
+            resolve(message as M);
+        };
+
+        listeners.add(listener);
+    });
+
+    const send = (message: HostToLessonMessage): string => {
+        const envelope = wrapMessage(message, 'to-lesson');
+        target.postMessage(envelope, targetOrigin);
+        return envelope.messageId;
+    };
+
+    return {
+        send,
+        request: async <T extends LessonMessageType>(message: HostToLessonMessage, timeout = timeoutMs) => {
+            const envelope = wrapMessage(message, 'to-lesson');
+            const reply = waitForMessage<ProtocolMessage<LessonMessageOf<T>>>(
+                received => received.replyTo === envelope.messageId,
+                `a reply to "${message.type}"`,
+                timeout
+            );
+            target.postMessage(envelope, targetOrigin);
+
+            const response = await reply;
+            if (response.type === 'ack' && !(response as ProtocolMessage<LessonMessageOf<'ack'>>).ok) {
+                throw new Error((response as ProtocolMessage<LessonMessageOf<'ack'>>).error || `"${message.type}" was rejected`);
+            }
+            return response;
+        },
+        on: (type, handler) => {
+            const listener = (message: ReceivedMessage) => {
+                if (message.type === type) handler(message as Parameters<typeof handler>[0]);
+            };
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        waitFor: (type, predicate, timeout = timeoutMs) => waitForMessage(
+            message => message.type === type && (!predicate || predicate(message as never)),
+            `"${type}"`,
+            timeout
+        ),
+        messages,
+        dispose: () => {
+            listenOn.removeEventListener('message', handleMessage);
+            listeners.clear();
+        },
+    };
+}
@@ -0,0 +1,164 @@
+import type { ReactElement, ReactNode } from "react";
+import {
+    isNodeProp,
+    parseLessonElement,
+    parseLessonNodes,
+    parseLessonProps,
+    type LessonElementNode,
+    type LessonNode,
+    type LessonPropValue,
+} from "./lesson-schema";
+import { getComponentEntry, isUnsafeHtmlProp, ALLOWED_HTML_TAGS } from "./component-registry";
+import { findBlockId, renderLessonNode, resolveLessonProps } from "./lesson-renderer";
+
+/**
+ * Host Content
+ * ------------
+ * Turns content pushed by the host editor (`insert-block`, `replace-block`,
+ * `update-props`) into lesson nodes and React elements.
+ *
+ * Payloads use the lesson document node format (see `@/lib/lesson-schema`),
+ * so a host or AI agent describes content exactly like a JSON lesson:
+ *
+ * ```ts
+ * { type: 'insert-block', afterBlockId: 'block-intro',
+ *   node: { type: 'EditableParagraph', props: { id: 'para-new' }, children: ['Hello'] } }
+ * ```
+ *
+ * Every component type must be registered in the component registry;
+ * unknown types are rejected instead of being silently skipped. Prop names
+ * must be plain JSX attribute names, and not `dangerouslySetInnerHTML` or
+ * event handlers.
+ */
+
+// Prop names become JSX attributes when the edits are written to the lesson source;
+// raw HTML and event handlers are never accepted from the host
+const isPropName = (name: string): boolean =>
+    /^[A-Za-z_$][\w$]*(-[\w$]+)*$/.test(name) && !isUnsafeHtmlProp(name);
+
+interface ContentIssues {
+    unknownTypes: Set<string>;
+    invalidPropNames: Set<string>;
+}
+
+const collectPropIssues = (value: LessonPropValue, issues: ContentIssues): void => {
+    if (isNodeProp(value)) {
+        value.$node.forEach(node => collectNodeIssues(node, issues));
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectPropIssues(item, issues));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(item => collectPropIssues(item, issues));
+    }
+};
+
+const collectPropsIssues = (props: Record<string, LessonPropValue>, issues: ContentIssues): void => {
+    for (const [name, value] of Object.entries(props)) {
+        if (!isPropName(name)) issues.invalidPropNames.add(name);
+        collectPropIssues(value, issues);
+    }
+};
+
+const collectNodeIssues = (node: LessonNode, issues: ContentIssues): void => {
+    if (typeof node === 'string') return;
+    if (!getComponentEntry(node.type) && !ALLOWED_HTML_TAGS.has(node.type)) {
+        issues.unknownTypes.add(node.type);
+    }
+    collectPropsIssues(node.props ?? {}, issues);
+    (node.children ?? []).forEach(child => collectNodeIssues(child, issues));
+};
+
+const assertValidContent = (collect: (issues: ContentIssues) => void): void => {
+    const issues: ContentIssues = { unknownTypes: new Set(), invalidPropNames: new Set() };
+    collect(issues);
+    if (issues.unknownTypes.size > 0) {
+        throw new Error(`Unknown component type(s): ${Array.from(issues.unknownTypes).join(', ')}`);
+    }
+    if (issues.invalidPropNames.size > 0) {
+        throw new Error(`Invalid prop name(s): ${Array.from(issues.invalidPropNames).map(name => JSON.stringify(name)).join(', ')}`);
+    }
+};
+
+const createBlockId = (): string => `block-${Date.now()}`;
+
+/**
+ * Validate a node for `insert-block` and wrap it into a top-level section:
+ * - layouts are used as-is (they must contain a Block with an id),
+ * - Blocks are wrapped in a FullWidthLayout (an id is generated if missing),
+ * - anything else is wrapped in a new Block first.
+ */
+export const prepareInsertedSection = (input: unknown): { section: LessonElementNode; blockId: string } => {
+    const node = parseLessonElement(input);
+    assertValidContent(issues => collectNodeIssues(node, issues));
+
+    const category = getComponentEntry(node.type)?.category;
+    if (category === 'layout') {
+        const blockId = findBlockId(node);
+        if (!blockId) {
+            throw new Error(`Inserted ${node.type} does not contain a Block with an id`);
+        }
+        return { section: { ...node, key: `layout-${blockId}` }, blockId };
+    }
+
+    let block: LessonElementNode;
+    if (category !== 'block') {
+        block = { type: 'Block', props: { id: createBlockId(), padding: 'sm' }, children: [node] };
+    } else if (typeof node.props?.id !== 'string') {
+        block = { ...node, props: { ...node.props, id: createBlockId() } };
+    } else {
+        block = node;
+    }
+
+    const blockId = block.props?.id as string;
+    return {
+        section: {
+            type: 'FullWidthLayout',
+            key: `layout-${blockId}`,
+            props: { maxWidth: 'xl' },
+            children: [block],
+        },
+        blockId,
+    };
+};
+
+/**
+ * Validate the new children of a Block for `replace-block`
+ */
+export const prepareBlockChildren = (input: unknown): LessonNode[] => {
+    const children = parseLessonNodes(input);
+    assertValidContent(issues => children.forEach(child => collectNodeIssues(child, issues)));
+    return children;
+};
+
+/**
+ * Validate a props patch for `update-props`
+ */
+export const preparePropsPatch = (input: unknown): Record<string, LessonPropValue> => {
+    const props = parseLessonProps(input);
+    assertValidContent(issues => collectPropsIssues(props, issues));
+    return props;
+};
+
+/**
+ * Render a prepared top-level section
+ */
+export const renderSection = (section: LessonElementNode): ReactElement => {
+    return renderLessonNode(section, section.key ?? 'section') as ReactElement;
+};
+
+/**
+ * Render the children of a Block
+ */
+export const renderBlockChildren = (blockId: string, children: LessonNode[]): ReactNode => {
+    return children.map((child, index) => renderLessonNode(child, `${blockId}-${index}`));
+};
+
+/**
+ * Resolve a props patch into React props. `null` removes a prop.
+ */
+export const resolvePropsPatch = (componentId: string, props: Record<string, LessonPropValue>): Record<string, unknown> => {
+    const resolved = resolveLessonProps(props, componentId);
+    for (const [name, value] of Object.entries(props)) {
+        if (value === null) resolved[name] = undefined;
+    }
+    return resolved;
+};
@@ -0,0 +1,306 @@
+import type { PendingEdit, SaveEditsResult } from "@/contexts/EditingContext";
+import type { ComponentCategory } from "./component-registry";
+import type { LessonDocument, LessonElementNode, LessonNode, LessonPropValue } from "./lesson-schema";
+
+/**
+ * Host Protocol
+ * -------------
+ * The message protocol between the lesson (this app, usually running in an
+ * iframe) and the host editor that embeds it.
+ *
+ * Every message is a plain object with a `type` plus an envelope:
+ *
+ * ```ts
+ * { type: 'block-selected', blockId: 'block-intro-01',
+ *   protocol: 'mathvibe-lesson', version: 1, direction: 'to-host', messageId: 'msg-...' }
+ * ```
+ *
+ * - Payload fields stay at the top level, so hosts that only read `type` keep working.
+ * - A host request may carry a `messageId`; the lesson answers with either the
+ *   response message (e.g. `edits-response`) or an `ack`, with `replyTo` set to it.
+ * - Messages from origins outside the allowed list are ignored. Configure the
+ *   list with `VITE_ALLOWED_HOST_ORIGINS` (comma separated) or
+ *   `configureHostProtocol`; by default only the page's own origin is
+ *   trusted, and any origin only when `'*'` is listed.
+ */
+
+export const PROTOCOL_NAME = 'mathvibe-lesson';
+export const PROTOCOL_VERSION = 1;
+
+// ============================================================================
+// MESSAGE TYPES
+// ============================================================================
+
+/** Where a block sits inside its parent layout */
+export interface HierarchyPlacement {
+    /** Layout component, e.g. 'SplitLayout' */
+    layout: string;
+    /** Outline id of the layout */
+    layoutId: string;
+    /** SplitLayout column or SidebarLayout pane */
+    slot?: 'left' | 'right' | 'sidebar' | 'main';
+    /** GridLayout cell (0-based) */
+    cell?: number;
+}
+
+/** Node in the lesson outline reported to the host */
+export interface HierarchyNode {
+    id: string;
+    type: "section" | "layout" | "block";
+    /** Block id (for scroll-to-section / highlight-section) */
+    sectionId?: string;
+    label: string;
+    children: HierarchyNode[];
+    depth: number;
+    /** Registered component name, e.g. 'Block' or 'GridLayout' */
+    component?: string;
+    /** Kinds of content in a block (heading, paragraph, equation, ...) */
+    contentTypes?: ComponentCategory[];
+    /** Variables used by a block's inline components */
+    variables?: string[];
+    /** Parent layout of a block */
+    placement?: HierarchyPlacement;
+}
+
+/** One change to the outline; nodes are sent without their children */
+export type HierarchyChange =
+    | { op: 'upsert'; node: Omit<HierarchyNode, 'children'>; parentId: string | null; index: number }
+    | { op: 'remove'; id: string };
+
+/** An edit log offered for recovery; the message also carries the most recent one's count and time */
+export interface RecoverableEditLogSummary {
+    key: string;
+    count: number;
+    updatedAt: number;
+}
+
+/** Messages sent by the lesson to the host */
+export type LessonToHostMessage =
+    // Lifecycle
+    | { type: 'lesson-ready' }
+    | { type: 'ack'; ok: boolean; error?: string }
+    // Editing
+    | { type: 'editing-mode-changed'; isEditing: boolean }
+    | { type: 'edits-changed'; edits: PendingEdit[]; count: number }
+    | { type: 'edits-response'; edits: PendingEdit[]; count: number }
+    | ({ type: 'edits-saved' } & SaveEditsResult)
+    | { type: 'edits-save-failed'; error: string }
+    | { type: 'history-changed'; canUndo: boolean; canRedo: boolean }
+    | { type: 'recoverable-edits-found'; count: number; updatedAt: number; logs: RecoverableEditLogSummary[] }
+    | { type: 'recovered-edits-restored'; count: number }
+    | { type: 'recovered-edits-discarded' }
+    // Structure
+    | { type: 'commit-section-reorder'; sectionIds: string[] }
+    | { type: 'commit-section-delete'; sectionId: string }
+    | { type: 'lesson-document'; document: LessonDocument; warnings: string[] }
+    | { type: 'block-inserted'; blockId: string }
+    // Outline and selection
+    | { type: 'hierarchy-update'; hierarchy: HierarchyNode[]; revision: number }
+    | { type: 'hierarchy-diff'; baseRevision: number; revision: number; changes: HierarchyChange[] }
+    | { type: 'block-selected'; blockId: string }
+    | { type: 'selection-cleared' }
+    // Chat
+    | { type: 'add-to-chat'; blockId: string }
+    | { type: 'add-annotation-to-chat'; blockId: string; imageDataUrl: string }
+    | { type: 'focus-chat' };
+
+/** Messages sent by the host to the lesson */
+export type HostToLessonMessage =
+    // Editing
+    | { type: 'set-editing-mode'; enabled: boolean }
+    | { type: 'request-edits' }
+    | { type: 'clear-edits' }
+    | { type: 'save-edits' }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'restore-recovered-edits'; key?: string }
+    | { type: 'discard-recovered-edits'; key?: string }
+    // Structure
+    | { type: 'request-lesson-document' }
+    // Content (nodes use the lesson document format, see ./lesson-schema)
+    | { type: 'insert-block'; node: LessonElementNode; afterBlockId?: string }
+    | { type: 'replace-block'; blockId: string; children: LessonNode[] }
+    | { type: 'update-props'; componentId: string; props: Record<string, LessonPropValue> }
+    // Outline and selection
+    | { type: 'request-hierarchy' }
+    | { type: 'scroll-to-section'; sectionId?: string }
+    | { type: 'highlight-section'; sectionId?: string; isHovering: boolean };
+
+export type LessonMessageType = LessonToHostMessage['type'];
+export type HostMessageType = HostToLessonMessage['type'];
+
+export type LessonMessageOf<T extends LessonMessageType> = Extract<LessonToHostMessage, { type: T }>;
+export type HostMessageOf<T extends HostMessageType> = Extract<HostToLessonMessage, { type: T }>;
+
+export interface ProtocolEnvelope {
+    protocol: typeof PROTOCOL_NAME;
+    version: number;
+    direction: 'to-host' | 'to-lesson';
+    messageId: string;
+    /** Id of the request this message answers */
+    replyTo?: string;
+}
+
+export type ProtocolMessage<M> = M & ProtocolEnvelope;
+
+// ============================================================================
+// ORIGINS
+// ============================================================================
+
+// With none configured, only our own origin is trusted; '*' has to be opted into
+const parseOrigins = (value: string | undefined): string[] => {
+    return (value ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+};
+
+let allowedOrigins = parseOrigins(import.meta.env.VITE_ALLOWED_HOST_ORIGINS);
+
+/**
+ * Override protocol settings at runtime (e.g. from a test harness)
+ */
+export function configureHostProtocol(options: { allowedOrigins?: string[] }): void {
+    if (options.allowedOrigins) {
+        allowedOrigins = options.allowedOrigins;
+    }
+}
+
+/**
+ * Messages from our own origin are always accepted
+ */
+export const isAllowedOrigin = (origin: string): boolean => {
+    return allowedOrigins.includes('*') ||
+        allowedOrigins.includes(origin) ||
+        (typeof window !== 'undefined' && origin === window.location.origin);
+};
+
+// ============================================================================
+// ENVELOPES
+// ============================================================================
+
+export const createMessageId = (): string => {
+    return `msg-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+};
+
+export const isProtocolMessage = (data: unknown): data is ProtocolMessage<{ type: string }> => {
+    return typeof data === 'object' &&
+        data !== null &&
+        (data as ProtocolEnvelope).protocol === PROTOCOL_NAME &&
+        typeof (data as { type?: unknown }).type === 'string';
+};
+
+export const wrapMessage = <M extends { type: string }>(
+    message: M,
+    direction: ProtocolEnvelope['direction'],
+    replyTo?: string
+): ProtocolMessage<M> => ({
+    ...message,
+    protocol: PROTOCOL_NAME,
+    version: PROTOCOL_VERSION,
+    direction,
+    messageId: createMessageId(),
+    ...(replyTo ? { replyTo } : {}),
+});
+
+// ============================================================================
+// LESSON SIDE
+// ============================================================================
+
+/**
+ * Send a message to the host. Returns the message id.
+ */
+export function sendToHost(message: LessonToHostMessage, options: { replyTo?: string } = {}): string {
+    const envelope = wrapMessage(message, 'to-host', options.replyTo);
+    if (typeof window === 'undefined' || !window.parent) return envelope.messageId;
+
+    // A message posted to an origin that doesn't match the host's is dropped by the browser
+    const targets = allowedOrigins.includes('*')
+        ? ['*']
+        : Array.from(new Set([window.location.origin, ...allowedOrigins]));
+    targets.forEach(origin => window.parent.postMessage(envelope, origin));
+    return envelope.messageId;
+}
+
+type HostMessageResult = LessonToHostMessage | void;
+
+export type HostMessageHandler<T extends HostMessageType> = (
+    message: ProtocolMessage<HostMessageOf<T>> | HostMessageOf<T>,
+    event: MessageEvent
+) => HostMessageResult | Promise<HostMessageResult>;
+
+// Stored by type, so each handler only receives messages of the type it was registered for
+type StoredHostMessageHandler = (message: unknown, event: MessageEvent) => HostMessageResult | Promise<HostMessageResult>;
+
+const handlers = new Map<string, Set<StoredHostMessageHandler>>();
+let listening = false;
+
+const handleWindowMessage = async (event: MessageEvent) => {
+    const data = event.data;
+    if (!data || typeof data !== 'object' || typeof data.type !== 'string') return;
+
+    // Our own outgoing messages arrive here when there is no parent frame
+    if (data.direction === 'to-host') return;
+
+    // Only the embedding frame drives the lesson (or the page itself when there is none)
+    if (event.source !== window.parent) {
+        console.warn(`Ignoring "${data.type}" message that did not come from the parent frame`);
+        return;
+    }
+
+    if (!isAllowedOrigin(event.origin)) {
+        console.warn(`Ignoring "${data.type}" message from disallowed origin: ${event.origin}`);
+        return;
+    }
+
+    // Hosts that predate the protocol send bare { type, ... } messages; they get no acks
+    const requestId = isProtocolMessage(data) ? data.messageId : undefined;
+    const reply = (message: LessonToHostMessage) => sendToHost(message, { replyTo: requestId });
+
+    if (isProtocolMessage(data) && data.version > PROTOCOL_VERSION) {
+        reply({ type: 'ack', ok: false, error: `Unsupported protocol version ${data.version}` });
+        return;
+    }
+
+    const typeHandlers = handlers.get(data.type);
+    if (!typeHandlers || typeHandlers.size === 0) {
+        if (requestId) reply({ type: 'ack', ok: false, error: `No handler for "${data.type}"` });
+        return;
+    }
+
+    try {
+        let response: HostMessageResult;
+        for (const handler of Array.from(typeHandlers)) {
+            const result = await handler(data, event);
+            if (result) response = result;
+        }
+
+        if (response) {
+            reply(response);
+        } else if (requestId) {
+            reply({ type: 'ack', ok: true });
+        }
+    } catch (error) {
+        console.warn(`Failed to handle "${data.type}" message:`, error);
+        if (requestId) {
+            reply({ type: 'ack', ok: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+};
+
+/**
+ * Handle a message type from the host. A handler may return a message, which
+ * is sent back as the response. Returns an unsubscribe function.
+ */
+export function onHostMessage<T extends HostMessageType>(type: T, handler: HostMessageHandler<T>): () => void {
+    if (!listening && typeof window !== 'undefined') {
+        window.addEventListener('message', handleWindowMessage);
+        listening = true;
+    }
+
+    const stored = handler as StoredHostMessageHandler;
+    const typeHandlers = handlers.get(type) ?? new Set();
+    typeHandlers.add(stored);
+    handlers.set(type, typeHandlers);
+
+    return () => {
+        typeHandlers.delete(stored);
+    };
+}
@@ -0,0 +1,139 @@
+/**
+ * Inline Component Markers
+ * ------------------------
+ * Blocks written in the editor store inline components as text markers:
+ *
+ *   {{componentType:uniqueId}}
+ *   {{componentType:uniqueId|key=value|key=value}}
+ *
+ * Props follow the id, separated by `|`. Values are plain text with `%`, `|`,
+ * `{` and `}` percent-encoded, so expressions such as `pi * r^2` stay readable:
+ *
+ *   {{inlineExpression:area-1|expression=pi * r^2|precision=1|unit=cm²}}
+ *
+ * Lists are comma-separated (`options=a,b,c`). Missing props fall back to
+ * DEFAULT_INLINE_MARKER_PROPS; a prop cleared by the author is kept as an
+ * empty value (`placeholder=`) and read as "no value".
+ */
+
+import { isNumberNotation, type NumberNotation } from './number-format';
+
+export const INLINE_MARKER_TYPES = [
+    'inlineScrubbleNumber',
+    'inlineDropdown',
+    'inlineTextInput',
+    'inlineExpression',
+] as const;
+
+export type InlineMarkerType = typeof INLINE_MARKER_TYPES[number];
+
+export interface InlineMarker {
+    type: InlineMarkerType;
+    id: string;
+    props: Record<string, string>;
+}
+
+const markerPattern = () => new RegExp(`\\{\\{(${INLINE_MARKER_TYPES.join('|')}):([^}]+)\\}\\}`, 'g');
+
+const encodeValue = (value: string): string => value.replace(/[%|{}]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const decodeValue = (value: string): string => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+/**
+ * Parse the part of a marker after the type, `uniqueId|key=value|...`
+ */
+export const parseInlineMarkerBody = (type: InlineMarkerType, body: string): InlineMarker => {
+    const [id, ...pairs] = body.split('|');
+    const props: Record<string, string> = {};
+    for (const pair of pairs) {
+        const separator = pair.indexOf('=');
+        if (separator <= 0) continue;
+        props[pair.slice(0, separator).trim()] = decodeValue(pair.slice(separator + 1));
+    }
+    return { type, id: id.trim(), props };
+};
+
+/**
+ * Serialize the props of a marker (`key=value|...`); undefined values are left
+ * out, empty ones kept so they don't fall back to the defaults
+ */
+export const serializeInlineMarkerProps = (props: Record<string, string | number | boolean | undefined>): string =>
+    Object.entries(props)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${encodeValue(String(value))}`)
+        .join('|');
+
+export const serializeInlineMarker = ({ type, id, props }: InlineMarker): string => {
+    const serializedProps = serializeInlineMarkerProps(props);
+    return `{{${type}:${id}${serializedProps ? `|${serializedProps}` : ''}}}`;
+};
+
+/**
+ * Split content into text and markers
+ */
+export const splitInlineMarkers = (content: string): Array<string | InlineMarker> => {
+    const parts: Array<string | InlineMarker> = [];
+    const pattern = markerPattern();
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(content)) !== null) {
+        if (match.index > lastIndex) parts.push(content.slice(lastIndex, match.index));
+        parts.push(parseInlineMarkerBody(match[1] as InlineMarkerType, match[2]));
+        lastIndex = match.index + match[0].length;
+    }
+
+    if (lastIndex < content.length) parts.push(content.slice(lastIndex));
+    return parts;
+};
+
+export const hasInlineMarkers = (content: string): boolean => markerPattern().test(content);
+
+/**
+ * Props given to newly inserted components, and used for missing props
+ */
+export const DEFAULT_INLINE_MARKER_PROPS: Record<InlineMarkerType, Record<string, string>> = {
+    inlineScrubbleNumber: { value: '10', min: '0', max: '100', step: '1' },
+    inlineDropdown: { options: 'Option 1,Option 2,Option 3', answer: 'Option 1' },
+    inlineTextInput: { answer: 'answer', placeholder: 'Type answer...' },
+    inlineExpression: { expression: '', precision: '2' },
+};
+
+/**
+ * A prop's value: the default when the prop is missing, undefined when it was cleared
+ */
+export const getMarkerProp = (marker: InlineMarker, key: string): string | undefined => {
+    if (!(key in marker.props)) return DEFAULT_INLINE_MARKER_PROPS[marker.type][key];
+    return marker.props[key] === '' ? undefined : marker.props[key];
+};
+
+export const getMarkerNumber = (marker: InlineMarker, key: string, fallback: number): number => {
+    const raw = getMarkerProp(marker, key)?.trim();
+    const value = Number(raw);
+    return raw && Number.isFinite(value) ? value : fallback;
+};
+
+export const getMarkerBoolean = (marker: InlineMarker, key: string, fallback = false): boolean => {
+    const value = getMarkerProp(marker, key);
+    return value === undefined ? fallback : value === 'true';
+};
+
+/**
+ * The notation prop, or undefined when it isn't one of the known notations
+ */
+export const getMarkerNotation = (marker: InlineMarker): NumberNotation | undefined => {
+    const value = getMarkerProp(marker, 'notation');
+    return isNumberNotation(value) ? value : undefined;
+};
+
+export const parseMarkerList = (value: string | undefined): string[] =>
+    (value ?? '').split(',').map(item => decodeValue(item).trim()).filter(Boolean);
+
+export const serializeMarkerList = (items: string[]): string =>
+    items.map(item => item.trim().replace(/[%,]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)).filter(Boolean).join(',');
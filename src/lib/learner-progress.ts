@@ -0,0 +1,122 @@
+import { useLearnerProgressStore, useVariableStore, type VarValue } from "@/stores";
+import { getLessonStorageId } from "./edit-persistence";
+
+/**
+ * Learner Progress
+ * ----------------
+ * What a learner has done in a lesson (variable values, quiz answers, where
+ * they were reading), saved so the lesson resumes where they left off.
+ *
+ * Progress is stored through a `ProgressStorageAdapter`. The default keeps it
+ * in localStorage; a backend can be plugged in with `configureProgressStorage`:
+ *
+ * ```ts
+ * configureProgressStorage({
+ *     load: (lessonId) => api.get(`/progress/${lessonId}`),
+ *     save: (progress) => api.put(`/progress/${progress.lessonId}`, progress),
+ *     clear: (lessonId) => api.delete(`/progress/${lessonId}`),
+ * });
+ * ```
+ *
+ * Adapter failures are logged and treated as "nothing stored".
+ */
+
+export const PROGRESS_VERSION = 1;
+
+/** A learner's answer to a quiz component (FillBlank, MultiChoice, InlineDropdown, ...) */
+export interface LearnerAnswer {
+    value: VarValue;
+    /** Whether the answer was checked as correct (absent for components without a right answer) */
+    correct?: boolean;
+}
+
+export interface LearnerProgress {
+    version: number;
+    lessonId: string;
+    /** Values of the lesson's variables (derived variables excluded) */
+    variables: Record<string, VarValue>;
+    /** Answers by component id */
+    answers: Record<string, LearnerAnswer>;
+    /** Block the learner was reading */
+    activeSection?: string;
+    /** Scroll offset of the lesson */
+    scrollTop?: number;
+    updatedAt: number;
+}
+
+export interface ProgressStorageAdapter {
+    load: (lessonId: string) => Promise<LearnerProgress | null>;
+    save: (progress: LearnerProgress) => Promise<void>;
+    clear: (lessonId: string) => Promise<void>;
+}
+
+const STORAGE_PREFIX = 'mathvibe-progress:';
+
+/**
+ * Keep progress in localStorage, one entry per lesson
+ */
+export const createLocalStorageProgressAdapter = (prefix: string = STORAGE_PREFIX): ProgressStorageAdapter => ({
+    load: async (lessonId) => {
+        const stored = localStorage.getItem(`${prefix}${lessonId}`);
+        return stored ? (JSON.parse(stored) as LearnerProgress) : null;
+    },
+    save: async (progress) => {
+        localStorage.setItem(`${prefix}${progress.lessonId}`, JSON.stringify(progress));
+    },
+    clear: async (lessonId) => {
+        localStorage.removeItem(`${prefix}${lessonId}`);
+    },
+});
+
+let adapter: ProgressStorageAdapter = createLocalStorageProgressAdapter();
+
+/**
+ * Replace the storage adapter (e.g. with one that talks to a backend)
+ */
+export function configureProgressStorage(next: ProgressStorageAdapter): void {
+    adapter = next;
+}
+
+/**
+ * Stored progress for a lesson; null when there is none or it can't be read
+ */
+export async function loadLearnerProgress(lessonId: string): Promise<LearnerProgress | null> {
+    try {
+        const progress = await adapter.load(lessonId);
+        if (!progress) return null;
+        if (progress.version > PROGRESS_VERSION) {
+            console.warn(`Ignoring learner progress saved by a newer version (${progress.version})`);
+            return null;
+        }
+        return progress;
+    } catch (error) {
+        console.warn('Failed to load learner progress:', error);
+        return null;
+    }
+}
+
+export async function saveLearnerProgress(progress: LearnerProgress): Promise<void> {
+    try {
+        await adapter.save(progress);
+    } catch (error) {
+        console.warn('Failed to save learner progress:', error);
+    }
+}
+
+export async function clearLearnerProgress(lessonId: string): Promise<void> {
+    try {
+        await adapter.clear(lessonId);
+    } catch (error) {
+        console.warn('Failed to clear learner progress:', error);
+    }
+}
+
+/**
+ * Start the lesson over: variables back to their defaults, answers and
+ * stored progress cleared
+ */
+export async function resetLearnerProgress(lessonId: string = getLessonStorageId()): Promise<void> {
+    useVariableStore.getState().reset();
+    useLearnerProgressStore.getState().reset();
+    await clearLearnerProgress(lessonId);
+}
@@ -0,0 +1,211 @@
+import { Children, isValidElement, type ReactElement, type ReactNode } from "react";
+import { getComponentEntry, getComponentName, type ComponentCategory } from "./component-registry";
+import type { HierarchyChange, HierarchyNode, HierarchyPlacement } from "./host-protocol";
+
+/**
+ * Lesson Outline
+ * --------------
+ * Builds the outline reported to the host from the lesson's React tree
+ * (the sections `LessonView` renders), using registered component names:
+ *
+ * - Blocks become `block` nodes labelled with their first heading (or
+ *   paragraph), with the kinds of content they hold and the variables their
+ *   inline components use.
+ * - Multi-block layouts become `layout` nodes; each block records its place
+ *   in the layout (SplitLayout column, GridLayout cell, SidebarLayout pane).
+ *   A FullWidthLayout around a single block is not listed separately.
+ * - Legacy `Section` wrappers become `section` nodes.
+ *
+ * `diffLessonOutline` turns two outlines into the changes between them, so
+ * the host can be sent one small update per change.
+ */
+
+type ElementProps = { id?: unknown; children?: ReactNode; varName?: unknown; reverse?: boolean };
+
+const HTML_CATEGORIES: Record<string, ComponentCategory> = {
+    h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+    p: 'paragraph',
+};
+
+const nameOf = (element: ReactElement): string | undefined => {
+    return typeof element.type === 'string' ? element.type : getComponentName(element.type);
+};
+
+const categoryOf = (element: ReactElement): ComponentCategory | undefined => {
+    const name = nameOf(element);
+    if (!name) return undefined;
+    return getComponentEntry(name)?.category ?? HTML_CATEGORIES[name];
+};
+
+const elementsOf = (children: ReactNode): ReactElement<ElementProps>[] => {
+    return Children.toArray(children).filter(isValidElement) as ReactElement<ElementProps>[];
+};
+
+/**
+ * Plain text of a node, with whitespace collapsed
+ */
+const textOf = (node: ReactNode): string => {
+    const collect = (current: ReactNode): string => {
+        if (typeof current === 'string' || typeof current === 'number') return String(current);
+        if (Array.isArray(current)) return current.map(collect).join('');
+        if (isValidElement(current)) return collect((current.props as ElementProps).children);
+        return '';
+    };
+    return collect(node).replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Walk a block's content: the kinds of content, the variables used and a label
+ */
+const summarizeBlock = (block: ReactElement<ElementProps>) => {
+    const contentTypes = new Set<ComponentCategory>();
+    const variables = new Set<string>();
+    let heading: string | undefined;
+    let paragraph: string | undefined;
+
+    const visit = (element: ReactElement<ElementProps>) => {
+        const category = categoryOf(element);
+        if (category && category !== 'layout' && category !== 'block') {
+            contentTypes.add(category);
+        }
+        if (typeof element.props.varName === 'string') {
+            variables.add(element.props.varName);
+        }
+        if (category === 'heading' && !heading) heading = textOf(element) || undefined;
+        if (category === 'paragraph' && !paragraph) paragraph = textOf(element) || undefined;
+
+        elementsOf(element.props.children).forEach(visit);
+    };
+    elementsOf(block.props.children).forEach(visit);
+
+    return {
+        label: heading ?? paragraph,
+        contentTypes: Array.from(contentTypes),
+        variables: Array.from(variables),
+    };
+};
+
+/**
+ * Where each child of a layout goes (column, cell or pane)
+ */
+const placementsOf = (layout: ReactElement<ElementProps>, layoutName: string, layoutId: string) => {
+    const children = elementsOf(layout.props.children);
+    return children.map((child, index): { child: ReactElement<ElementProps>; placement: HierarchyPlacement } => {
+        const placement: HierarchyPlacement = { layout: layoutName, layoutId };
+        if (layoutName === 'SplitLayout') {
+            // reverse swaps the columns on screen
+            const column = layout.props.reverse ? children.length - 1 - index : index;
+            placement.slot = column === 0 ? 'left' : 'right';
+        } else if (layoutName === 'GridLayout') {
+            placement.cell = index;
+        } else if (layoutName === 'SidebarLayout') {
+            const paneName = nameOf(child);
+            if (paneName === 'Sidebar') placement.slot = 'sidebar';
+            if (paneName === 'Main') placement.slot = 'main';
+        }
+        return { child, placement };
+    });
+};
+
+/**
+ * Outline nodes for a subtree: blocks, sections and layouts found in it
+ */
+const collectNodes = (
+    element: ReactElement<ElementProps>,
+    depth: number,
+    placement: HierarchyPlacement | undefined,
+    fallbackId: string
+): HierarchyNode[] => {
+    const name = nameOf(element);
+    const category = categoryOf(element);
+    const id = typeof element.props.id === 'string' ? element.props.id : undefined;
+
+    if (name === 'Section' && id) {
+        const children = elementsOf(element.props.children)
+            .flatMap((child, index) => collectNodes(child, depth + 1, undefined, `${id}-${index}`));
+        const { label } = summarizeBlock(element);
+        return [{ id, type: 'section', sectionId: id, label: label ?? id, children, depth, component: name }];
+    }
+
+    if (category === 'block' && id) {
+        const { label, contentTypes, variables } = summarizeBlock(element);
+        return [{
+            id,
+            type: 'block',
+            sectionId: id,
+            label: label ?? id,
+            children: [],
+            depth,
+            component: name,
+            contentTypes,
+            variables,
+            ...(placement ? { placement } : {}),
+        }];
+    }
+
+    if (category === 'layout' && name !== 'Sidebar' && name !== 'Main') {
+        const layoutId = typeof element.key === 'string' ? element.key.replace(/^\.\$/, '') : fallbackId;
+        const entries = placementsOf(element, name, layoutId);
+
+        // A full-width wrapper around one block is just that block
+        if (name === 'FullWidthLayout') {
+            const nested = entries.flatMap(({ child, placement: inner }, index) =>
+                collectNodes(child, depth, inner, `${layoutId}-${index}`)
+            );
+            if (nested.length === 1) return nested;
+        }
+
+        const children = entries.flatMap(({ child, placement: inner }, index) =>
+            collectNodes(child, depth + 1, inner, `${layoutId}-${index}`)
+        );
+        if (children.length === 0) return [];
+        return [{ id: layoutId, type: 'layout', label: name, children, depth, component: name, ...(placement ? { placement } : {}) }];
+    }
+
+    // Anything else (wrappers, Sidebar/Main panes) is transparent
+    return elementsOf(element.props.children)
+        .flatMap((child, index) => collectNodes(child, depth, placement, `${fallbackId}-${index}`));
+};
+
+/**
+ * Build the outline of a list of top-level sections
+ */
+export const buildLessonOutline = (sections: ReactElement[]): HierarchyNode[] => {
+    return sections
+        .filter(isValidElement)
+        .flatMap((section, index) => collectNodes(section as ReactElement<ElementProps>, 1, undefined, `section-${index}`));
+};
+
+type FlatEntry = { node: Omit<HierarchyNode, 'children'>; parentId: string | null; index: number };
+
+const flattenOutline = (nodes: HierarchyNode[], parentId: string | null, into: Map<string, FlatEntry>): Map<string, FlatEntry> => {
+    nodes.forEach((node, index) => {
+        const { children, ...rest } = node;
+        into.set(node.id, { node: rest, parentId, index });
+        flattenOutline(children, node.id, into);
+    });
+    return into;
+};
+
+/**
+ * Changes that turn `previous` into `next`: removals first, then additions
+ * and updates with parents before their children.
+ */
+export const diffLessonOutline = (previous: HierarchyNode[], next: HierarchyNode[]): HierarchyChange[] => {
+    const before = flattenOutline(previous, null, new Map());
+    const after = flattenOutline(next, null, new Map());
+    const changes: HierarchyChange[] = [];
+
+    before.forEach((_, id) => {
+        if (!after.has(id)) changes.push({ op: 'remove', id });
+    });
+
+    after.forEach((entry, id) => {
+        const old = before.get(id);
+        if (!old || JSON.stringify(old) !== JSON.stringify(entry)) {
+            changes.push({ op: 'upsert', ...entry });
+        }
+    });
+
+    return changes;
+};
@@ -0,0 +1,162 @@
+import { createElement, type ReactElement, type ReactNode } from "react";
+import {
+    isNodeProp,
+    type LessonDocument,
+    type LessonElementNode,
+    type LessonNode,
+    type LessonPropValue,
+} from "./lesson-schema";
+import { getComponentEntry, isUnsafeHtmlProp, ALLOWED_HTML_TAGS } from "./component-registry";
+import { useVariableStore, type VarValue } from "@/stores";
+import { registerVariableDefinitions } from "@/data/variables";
+
+/**
+ * Lesson Renderer
+ * ---------------
+ * Turns a lesson document (see `@/lib/lesson-schema`) back into the
+ * `FullWidthLayout` / `Block` / `EditableParagraph` trees that
+ * `SectionRenderer` expects.
+ */
+
+/**
+ * Find the first Block id in a node tree (used to derive stable section keys)
+ */
+export const findBlockId = (node: LessonNode): string | undefined => {
+    if (typeof node === 'string') return undefined;
+    if ((node.type === 'Block' || node.type === 'Section') && typeof node.props?.id === 'string') {
+        return node.props.id;
+    }
+    for (const child of node.children ?? []) {
+        const id = findBlockId(child);
+        if (id) return id;
+    }
+    return undefined;
+};
+
+const renderNodeList = (nodes: LessonNode[], parentKey: string): ReactNode => {
+    const rendered = nodes.map((node, index) => renderLessonNode(node, `${parentKey}-${index}`));
+    return rendered.length === 1 ? rendered[0] : rendered;
+};
+
+const resolvePropValue = (value: LessonPropValue, key: string): unknown => {
+    if (isNodeProp(value)) {
+        return renderNodeList(value.$node, key);
+    }
+    if (Array.isArray(value)) {
+        return value.map((item, index) => resolvePropValue(item, `${key}-${index}`));
+    }
+    if (value && typeof value === 'object') {
+        const resolved: Record<string, unknown> = {};
+        for (const [name, inner] of Object.entries(value)) {
+            resolved[name] = resolvePropValue(inner as LessonPropValue, `${key}-${name}`);
+        }
+        return resolved;
+    }
+    return value;
+};
+
+/**
+ * Resolve JSON props into React props (`$node` values become rendered content)
+ */
+export const resolveLessonProps = (props: Record<string, LessonPropValue>, key: string): Record<string, unknown> => {
+    const resolved: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(props)) {
+        resolved[name] = resolvePropValue(value, `${key}-${name}`);
+    }
+    return resolved;
+};
+
+// Relative and http(s) URLs, plus data URLs for images. Browsers ignore
+// whitespace and control characters in the scheme, so they are stripped first.
+const isSafeUrl = (url: string, allowDataImage: boolean): boolean => {
+    const stripped = Array.from(url).filter(char => char > ' ').join('');
+    const scheme = /^([a-z][a-z\d+.-]*):/i.exec(stripped)?.[1].toLowerCase();
+    if (!scheme || scheme === 'http' || scheme === 'https') return true;
+    return allowDataImage && /^data:image\//i.test(stripped);
+};
+
+/**
+ * Props for an HTML tag, without raw HTML, event handlers and unsafe URLs
+ */
+const sanitizeHtmlProps = (tag: string, props: Record<string, unknown>): Record<string, unknown> => {
+    const safe: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(props)) {
+        const isUrlProp = name === 'href' || name === 'src';
+        if (isUnsafeHtmlProp(name) || (isUrlProp && !(typeof value === 'string' && isSafeUrl(value, tag === 'img')))) {
+            console.warn(`Lesson content: dropped unsafe prop "${name}" on <${tag}>`);
+            continue;
+        }
+        safe[name] = value;
+    }
+    return safe;
+};
+
+/**
+ * Render a single lesson node. Text nodes are returned as-is.
+ * Unknown component types are skipped with a warning.
+ * HTML tags don't get raw HTML, event handlers or script URLs.
+ */
+export const renderLessonNode = (node: LessonNode, fallbackKey: string): ReactNode => {
+    if (typeof node === 'string') return node;
+
+    const element = node as LessonElementNode;
+    const key = element.key ?? (typeof element.props?.id === 'string' ? element.props.id : fallbackKey);
+
+    const props: Record<string, unknown> = { key, ...resolveLessonProps(element.props ?? {}, key) };
+
+    const children = (element.children ?? []).map((child, index) =>
+        renderLessonNode(child, `${key}-${index}`)
+    );
+
+    const entry = getComponentEntry(element.type);
+    if (entry) {
+        return createElement(entry.component, props, ...children);
+    }
+
+    if (ALLOWED_HTML_TAGS.has(element.type)) {
+        return createElement(element.type, sanitizeHtmlProps(element.type, props), ...children);
+    }
+
+    console.warn(`Unknown lesson component type: ${element.type}`);
+    return null;
+};
+
+/**
+ * Register the document's variable definitions and seed the store with
+ * their default values. Variables that already have a value are kept.
+ */
+export const applyLessonVariables = (doc: LessonDocument): void => {
+    if (!doc.variables) return;
+
+    registerVariableDefinitions(doc.variables);
+
+    const store = useVariableStore.getState();
+    if (!store.initialized) {
+        const defaults: Record<string, VarValue> = {};
+        for (const [name, def] of Object.entries(doc.variables)) {
+            defaults[name] = def.defaultValue;
+        }
+        store.initialize(defaults, doc.variables);
+        return;
+    }
+
+    // Adds missing variables and (re)compiles derived ones
+    store.defineVariables(doc.variables);
+};
+
+/**
+ * Render all top-level sections of a lesson document.
+ * Each section gets a `layout-<blockId>` key so reorder tracking in
+ * `LessonView` can recover the block id from the key.
+ */
+export const renderLessonDocument = (doc: LessonDocument): ReactElement[] => {
+    applyLessonVariables(doc);
+
+    return doc.sections
+        .map((section, index) => {
+            const blockId = findBlockId(section);
+            const key = section.key ?? (blockId ? `layout-${blockId}` : `section-${index}`);
+            return renderLessonNode({ ...section, key }, key);
+        })
+        .filter((el): el is ReactElement => el !== null && typeof el === 'object');
+};
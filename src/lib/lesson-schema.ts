@@ -0,0 +1,236 @@
+import { z } from "zod";
+import type { VariableDefinition } from "@/data/variables";
+
+/**
+ * Lesson Document Schema
+ * ----------------------
+ * A serializable description of a lesson, so lessons can be stored and served
+ * as data (JSON) instead of compiled TSX.
+ *
+ * A document is a list of top-level section nodes (usually layouts), each of
+ * which is a tree of element nodes and text:
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "title": "Circles",
+ *   "variables": {
+ *     "radius": { "defaultValue": 2, "type": "number", "min": 1, "max": 10 }
+ *   },
+ *   "sections": [
+ *     {
+ *       "type": "FullWidthLayout",
+ *       "props": { "maxWidth": "xl" },
+ *       "children": [
+ *         {
+ *           "type": "Block",
+ *           "props": { "id": "block-radius", "padding": "sm" },
+ *           "children": [
+ *             {
+ *               "type": "EditableParagraph",
+ *               "props": { "id": "para-radius", "sectionId": "block-radius" },
+ *               "children": [
+ *                 "The radius is ",
+ *                 { "type": "InlineScrubbleNumber", "props": { "varName": "radius", "min": 1, "max": 10 } },
+ *                 " units. ",
+ *                 { "type": "Equation", "props": { "latex": "A = \\pi r^2" } }
+ *               ]
+ *             }
+ *           ]
+ *         }
+ *       ]
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * - `type` is a component name from the component registry (`@/lib/component-registry`)
+ *   or an allowed HTML tag (`p`, `ul`, `strong`, ...).
+ * - Props must be JSON values. A prop that holds React content (e.g. a tooltip)
+ *   is written as `{ "$node": [ ...nodes ] }`.
+ * - Strings inside `children` are text nodes.
+ */
+
+/** Current version of the lesson document format */
+export const LESSON_SCHEMA_VERSION = 1;
+
+/** JSON-compatible prop value */
+export type LessonPropValue =
+    | null
+    | boolean
+    | number
+    | string
+    | LessonNodeProp
+    | LessonPropValue[]
+    | { [key: string]: LessonPropValue };
+
+/** A prop that holds renderable content instead of plain data */
+export interface LessonNodeProp {
+    $node: LessonNode[];
+}
+
+/** An element in the lesson tree */
+export interface LessonElementNode {
+    /** Registered component name or allowed HTML tag */
+    type: string;
+    /** Optional React key (defaults to one derived from the tree) */
+    key?: string;
+    /** Component props */
+    props?: Record<string, LessonPropValue>;
+    /** Child nodes */
+    children?: LessonNode[];
+}
+
+/** Either a text node or an element node */
+export type LessonNode = string | LessonElementNode;
+
+/** A complete, versioned lesson */
+export interface LessonDocument {
+    /** Schema version (see LESSON_SCHEMA_VERSION) */
+    version: number;
+    /** Optional lesson identifier */
+    id?: string;
+    /** Optional lesson title */
+    title?: string;
+    /** Variable definitions, same shape as `src/data/variables.ts` */
+    variables?: Record<string, VariableDefinition>;
+    /** Top-level section nodes, rendered in order */
+    sections: LessonElementNode[];
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const nodeSchema: z.ZodTypeAny = z.lazy(() =>
+    z.union([z.string(), elementSchema])
+);
+
+const propValueSchema: z.ZodTypeAny = z.lazy(() =>
+    z.union([
+        z.null(),
+        z.boolean(),
+        z.number(),
+        z.string(),
+        z.array(propValueSchema),
+        z.object({ $node: z.array(nodeSchema) }).strict(),
+        z.record(propValueSchema),
+    ])
+);
+
+const elementSchema: z.ZodTypeAny = z.lazy(() =>
+    z.object({
+        type: z.string().min(1),
+        key: z.string().optional(),
+        props: z.record(propValueSchema).optional(),
+        children: z.array(nodeSchema).optional(),
+    })
+);
+
+const varValueSchema = z.union([
+    z.number(),
+    z.string(),
+    z.boolean(),
+    z.array(z.number()),
+    z.record(z.unknown()),
+]);
+
+const variableDefinitionSchema = z.object({
+    defaultValue: varValueSchema,
+    label: z.string().optional(),
+    description: z.string().optional(),
+    type: z.enum(['number', 'text', 'boolean', 'select', 'array', 'object']).optional(),
+    unit: z.string().optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    step: z.number().optional(),
+    options: z.array(z.string()).optional(),
+    placeholder: z.string().optional(),
+    schema: z.string().optional(),
+    shareable: z.boolean().optional(),
+    sync: z.boolean().optional(),
+    // JSON documents can only derive values from expressions (no functions)
+    derive: z.object({
+        expression: z.string(),
+        deps: z.array(z.string()).optional(),
+    }).optional(),
+}).passthrough();
+
+const documentSchema = z.object({
+    version: z.number().int().positive(),
+    id: z.string().optional(),
+    title: z.string().optional(),
+    variables: z.record(variableDefinitionSchema).optional(),
+    sections: z.array(elementSchema),
+});
+
+const describeIssue = (error: z.ZodError): string => {
+    const issue = error.issues[0];
+    const path = issue?.path.join('.') || '(root)';
+    return `${path}: ${issue?.message}`;
+};
+
+/**
+ * Validate untrusted input (e.g. a fetched JSON body) as a lesson document.
+ * Throws with a readable message if the input does not match the schema or
+ * was written for a newer version of the format.
+ */
+export function parseLessonDocument(input: unknown): LessonDocument {
+    // Accept a bare array of sections for convenience
+    const candidate = Array.isArray(input)
+        ? { version: LESSON_SCHEMA_VERSION, sections: input }
+        : input;
+
+    const result = documentSchema.safeParse(candidate);
+    if (!result.success) {
+        throw new Error(`Invalid lesson document at ${describeIssue(result.error)}`);
+    }
+
+    if (result.data.version > LESSON_SCHEMA_VERSION) {
+        throw new Error(
+            `Lesson document version ${result.data.version} is newer than supported version ${LESSON_SCHEMA_VERSION}`
+        );
+    }
+
+    return result.data as LessonDocument;
+}
+
+/**
+ * Validate a single element node (e.g. a block pushed by the host editor)
+ */
+export function parseLessonElement(input: unknown): LessonElementNode {
+    const result = elementSchema.safeParse(input);
+    if (!result.success) {
+        throw new Error(`Invalid lesson node at ${describeIssue(result.error)}`);
+    }
+    return result.data as LessonElementNode;
+}
+
+/**
+ * Validate a list of child nodes
+ */
+export function parseLessonNodes(input: unknown): LessonNode[] {
+    const result = z.array(nodeSchema).safeParse(input);
+    if (!result.success) {
+        throw new Error(`Invalid lesson nodes at ${describeIssue(result.error)}`);
+    }
+    return result.data as LessonNode[];
+}
+
+/**
+ * Validate a map of component props
+ */
+export function parseLessonProps(input: unknown): Record<string, LessonPropValue> {
+    const result = z.record(propValueSchema).safeParse(input);
+    if (!result.success) {
+        throw new Error(`Invalid props at ${describeIssue(result.error)}`);
+    }
+    return result.data as Record<string, LessonPropValue>;
+}
+
+/**
+ * Check whether a prop value holds renderable content
+ */
+export const isNodeProp = (value: unknown): value is LessonNodeProp => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && '$node' in value;
+};
@@ -0,0 +1,224 @@
+import { Children, Fragment, isValidElement, type ReactElement, type ReactNode } from "react";
+import {
+    LESSON_SCHEMA_VERSION,
+    type LessonDocument,
+    type LessonElementNode,
+    type LessonNode,
+    type LessonPropValue,
+} from "./lesson-schema";
+import { getComponentName, ALLOWED_HTML_TAGS } from "./component-registry";
+import { SectionInput } from "@/components/templates/SectionInput";
+import type { VariableDefinition } from "@/data/variables";
+
+/**
+ * Lesson Serializer
+ * -----------------
+ * Walks the `ReactElement[]` that `LessonView` renders and emits a lesson
+ * document (see `@/lib/lesson-schema`). Loading the result with the JSON
+ * loader rebuilds the same Block / layout / editable tree.
+ *
+ * Functions (callbacks, `formatValue`, ...) cannot be represented in JSON and
+ * are dropped; components that are not in the component registry are skipped.
+ * Both are reported in `warnings`.
+ */
+
+/** Props injected at render time by SectionRenderer, never part of the content */
+const RUNTIME_PROPS = new Set([
+    'children',
+    'isPreview',
+    'onEditSection',
+    'onAddSection',
+    'onEditBlock',
+    'onAddBlock',
+]);
+
+export interface SerializeLessonOptions {
+    /** Lesson identifier */
+    id?: string;
+    /** Lesson title */
+    title?: string;
+    /** Variable definitions to embed in the document */
+    variables?: Record<string, VariableDefinition>;
+}
+
+export interface SerializeLessonResult {
+    document: LessonDocument;
+    /** Human-readable notes about content that could not be serialized */
+    warnings: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null) return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+};
+
+const describeType = (type: unknown): string => {
+    if (typeof type === 'string') return type;
+    if (typeof type === 'function') return (type as { displayName?: string; name?: string }).displayName || type.name || 'Anonymous';
+    return 'Unknown';
+};
+
+const serializeChildren = (children: ReactNode, path: string, warnings: string[]): LessonNode[] => {
+    const nodes: LessonNode[] = [];
+    Children.forEach(children, (child) => {
+        nodes.push(...serializeNode(child, path, warnings));
+    });
+
+    // Merge adjacent text nodes so "a{" "}b" stays a single string
+    return nodes.reduce<LessonNode[]>((merged, node) => {
+        const last = merged[merged.length - 1];
+        if (typeof node === 'string' && typeof last === 'string') {
+            merged[merged.length - 1] = last + node;
+        } else {
+            merged.push(node);
+        }
+        return merged;
+    }, []);
+};
+
+const serializePropValue = (value: unknown, path: string, warnings: string[]): LessonPropValue | undefined => {
+    if (value === null) return null;
+    if (typeof value === 'boolean' || typeof value === 'string') return value;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+
+    if (typeof value === 'function') {
+        warnings.push(`${path}: function prop dropped`);
+        return undefined;
+    }
+
+    if (isValidElement(value)) {
+        return { $node: serializeNode(value, path, warnings) };
+    }
+
+    if (Array.isArray(value)) {
+        if (value.some(isValidElement)) {
+            return { $node: serializeChildren(value, path, warnings) };
+        }
+        return value
+            .map((item, index) => serializePropValue(item, `${path}[${index}]`, warnings))
+            .filter((item): item is LessonPropValue => item !== undefined);
+    }
+
+    if (isPlainObject(value)) {
+        const result: Record<string, LessonPropValue> = {};
+        for (const [key, inner] of Object.entries(value)) {
+            const serialized = serializePropValue(inner, `${path}.${key}`, warnings);
+            if (serialized !== undefined) result[key] = serialized;
+        }
+        return result;
+    }
+
+    if (value !== undefined) {
+        warnings.push(`${path}: non-serializable prop dropped`);
+    }
+    return undefined;
+};
+
+const serializeNode = (node: ReactNode, path: string, warnings: string[]): LessonNode[] => {
+    if (node === null || node === undefined || typeof node === 'boolean') return [];
+    if (typeof node === 'string') return [node];
+    if (typeof node === 'number') return [String(node)];
+    if (Array.isArray(node)) return serializeChildren(node, path, warnings);
+    if (!isValidElement(node)) return [];
+
+    const element = node as ReactElement<Record<string, unknown>>;
+    const props = element.props ?? {};
+
+    // Fragments are transparent
+    if (element.type === Fragment) {
+        return serializeChildren(props.children as ReactNode, path, warnings);
+    }
+
+    // Uncommitted blocks still hold their input placeholder; keep the Block empty
+    if (element.type === SectionInput) return [];
+
+    const name = typeof element.type === 'string'
+        ? (ALLOWED_HTML_TAGS.has(element.type) ? element.type : undefined)
+        : getComponentName(element.type);
+
+    const elementPath = `${path} > ${describeType(element.type)}`;
+
+    if (!name) {
+        warnings.push(`${elementPath}: component is not registered, skipped`);
+        return [];
+    }
+
+    const serialized: LessonElementNode = { type: name };
+
+    const serializedProps: Record<string, LessonPropValue> = {};
+    for (const [key, value] of Object.entries(props)) {
+        if (RUNTIME_PROPS.has(key)) continue;
+        const propValue = serializePropValue(value, `${elementPath}.${key}`, warnings);
+        if (propValue !== undefined) serializedProps[key] = propValue;
+    }
+    if (Object.keys(serializedProps).length > 0) {
+        serialized.props = serializedProps;
+    }
+
+    const children = serializeChildren(props.children as ReactNode, elementPath, warnings);
+    if (children.length > 0) {
+        serialized.children = children;
+    }
+
+    return [serialized];
+};
+
+/**
+ * Variable definitions as JSON: derived variables keep their expression, a
+ * `compute` function can't be represented and is dropped.
+ */
+const serializeVariables = (
+    variables: Record<string, VariableDefinition>,
+    warnings: string[]
+): Record<string, VariableDefinition> => {
+    const serialized: Record<string, VariableDefinition> = {};
+    for (const [name, definition] of Object.entries(variables)) {
+        const { derive, ...rest } = definition;
+        if (!derive) {
+            serialized[name] = definition;
+        } else if (typeof derive.expression === 'string') {
+            serialized[name] = {
+                ...rest,
+                derive: { expression: derive.expression, ...(derive.deps ? { deps: derive.deps } : {}) },
+            };
+        } else {
+            serialized[name] = rest;
+            warnings.push(`variables.${name}: derived with a function, only the default value is kept`);
+        }
+    }
+    return serialized;
+};
+
+/**
+ * Serialize the sections currently shown by `LessonView` into a lesson document.
+ * Top-level keys are preserved so block ids survive reorder tracking.
+ */
+export function serializeLessonSections(
+    sections: ReactElement[],
+    options: SerializeLessonOptions = {}
+): SerializeLessonResult {
+    const warnings: string[] = [];
+    const serializedSections: LessonElementNode[] = [];
+
+    sections.forEach((section, index) => {
+        const [node] = serializeNode(section, `sections[${index}]`, warnings);
+        if (!node || typeof node === 'string') return;
+        if (typeof section.key === 'string') {
+            node.key = section.key;
+        }
+        serializedSections.push(node);
+    });
+
+    const document: LessonDocument = {
+        version: LESSON_SCHEMA_VERSION,
+        ...(options.id ? { id: options.id } : {}),
+        ...(options.title ? { title: options.title } : {}),
+        ...(options.variables && Object.keys(options.variables).length > 0
+            ? { variables: serializeVariables(options.variables, warnings) }
+            : {}),
+        sections: serializedSections,
+    };
+
+    return { document, warnings };
+}
@@ -0,0 +1,85 @@
+/**
+ * Number Formatting
+ * -----------------
+ * Formats computed values for display in lesson text, e.g. `78.5 cm²`,
+ * `1,250,000` or `6.02 × 10²³`.
+ */
+
+export const NUMBER_NOTATIONS = ['standard', 'scientific', 'auto'] as const;
+
+export type NumberNotation = typeof NUMBER_NOTATIONS[number];
+
+export const isNumberNotation = (value: unknown): value is NumberNotation =>
+    (NUMBER_NOTATIONS as readonly unknown[]).includes(value);
+
+export interface NumberFormatOptions {
+    /** Digits after the decimal point (default 2) */
+    precision?: number;
+    /** Keep trailing zeros, e.g. `2.50` instead of `2.5` (default false) */
+    fixed?: boolean;
+    /** Group thousands, e.g. `1,250` (default true) */
+    thousands?: boolean;
+    /** `auto` switches to scientific notation for very large or very small values (default) */
+    notation?: NumberNotation;
+    /** Unit appended to the number, e.g. `cm²` or `°` */
+    unit?: string;
+}
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+    '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴',
+    '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹', '-': '⁻',
+};
+
+const toSuperscript = (value: number): string =>
+    String(value).split('').map(char => SUPERSCRIPT_DIGITS[char] ?? char).join('');
+
+// Units written directly after the number
+const UNSPACED_UNITS = /^[°%′″‰]/;
+
+/**
+ * Append a unit to a formatted number
+ */
+export const withUnit = (text: string, unit?: string): string => {
+    if (!unit) return text;
+    return UNSPACED_UNITS.test(unit) ? `${text}${unit}` : `${text} ${unit}`;
+};
+
+const formatStandard = (value: number, precision: number, fixed: boolean, thousands: boolean): string => {
+    // Avoid "-0" for small negative values
+    const rounded = Number(value.toFixed(precision)) === 0 ? 0 : value;
+    return new Intl.NumberFormat('en-US', {
+        minimumFractionDigits: fixed ? precision : 0,
+        maximumFractionDigits: precision,
+        useGrouping: thousands,
+    }).format(rounded);
+};
+
+/**
+ * Format a number for display
+ */
+export const formatNumber = (value: number, options: NumberFormatOptions = {}): string => {
+    const { fixed = false, thousands = true, notation = 'auto', unit } = options;
+    const precision = options.precision !== undefined && Number.isFinite(options.precision) ? Math.min(Math.max(Math.round(options.precision), 0), 20) : 2;
+
+    if (Number.isNaN(value)) return '—';
+    if (!Number.isFinite(value)) return withUnit(value > 0 ? '∞' : '−∞', unit);
+
+    const magnitude = Math.abs(value);
+    const scientific = notation === 'scientific' ||
+        (notation === 'auto' && magnitude !== 0 && (magnitude >= 1e9 || magnitude < 10 ** -precision));
+
+    if (!scientific || magnitude === 0) {
+        return withUnit(formatStandard(value, precision, fixed, thousands), unit);
+    }
+
+    let exponent = Math.floor(Math.log10(magnitude));
+    let mantissa = Number((value / 10 ** exponent).toFixed(precision));
+    // Rounding can carry into the next power of ten (9.996 -> 10.00)
+    if (Math.abs(mantissa) >= 10) {
+        exponent += 1;
+        mantissa = Number((value / 10 ** exponent).toFixed(precision));
+    }
+
+    const text = formatStandard(mantissa, precision, fixed, false);
+    return withUnit(exponent === 0 ? text : `${text} × 10${toSuperscript(exponent)}`, unit);
+};
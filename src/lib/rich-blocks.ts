@@ -0,0 +1,158 @@
+/**
+ * Rich Block Content
+ * ------------------
+ * Blocks created from the slash menu are stored as a block type plus a
+ * content string (see StructureEdit). Rich blocks keep their settings in
+ * that string with a small markdown-like syntax, so edits can be replayed
+ * and written back to source:
+ *
+ *   equation      E = mc^2                    (`% colors: E=#ef4444` line for colored terms)
+ *   callout       [!warning] Text...
+ *   bulletList    - First\n- Second
+ *   numberedList  1. First\n2. Second
+ *   code          ```python\nprint("hi")\n```
+ *   image         ![Alt text](https://... "Caption")
+ *   table         | A | B |\n| --- | --- |\n| 1 | 2 |
+ *
+ * Text in callouts and list items may contain inline markers.
+ */
+
+export const RICH_BLOCK_TYPES = [
+    'equation',
+    'callout',
+    'bulletList',
+    'numberedList',
+    'code',
+    'image',
+    'table',
+] as const;
+
+export type RichBlockType = typeof RICH_BLOCK_TYPES[number];
+
+// ============================================================================
+// EQUATION
+// ============================================================================
+
+const COLORS_LINE = /\n?%\s*colors:(.*)$/;
+
+export const serializeEquation = (latex: string, colorMap?: Record<string, string>): string => {
+    const colors = Object.entries(colorMap ?? {}).map(([term, color]) => `${term}=${color}`);
+    return colors.length > 0 ? `${latex.trim()}\n% colors: ${colors.join(', ')}` : latex.trim();
+};
+
+export const parseEquation = (content: string): { latex: string; colorMap: Record<string, string> } => {
+    const match = content.match(COLORS_LINE);
+    const colorMap: Record<string, string> = {};
+    if (!match) return { latex: content.trim(), colorMap };
+
+    for (const entry of match[1].split(',')) {
+        const separator = entry.indexOf('=');
+        if (separator > 0) colorMap[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    }
+    return { latex: content.slice(0, match.index).trim(), colorMap };
+};
+
+// ============================================================================
+// CALLOUT
+// ============================================================================
+
+export const CALLOUT_VARIANTS = ['info', 'warning', 'tip', 'definition', 'theorem', 'proof'] as const;
+
+export type CalloutVariant = typeof CALLOUT_VARIANTS[number];
+
+const CALLOUT_PREFIX = /^\[!(\w+)\]\s*/;
+
+const isCalloutVariant = (value: string | undefined): value is CalloutVariant =>
+    (CALLOUT_VARIANTS as readonly string[]).includes(value ?? '');
+
+export const serializeCallout = (variant: CalloutVariant, text: string): string => `[!${variant}] ${text.trim()}`;
+
+export const parseCallout = (content: string): { variant: CalloutVariant; text: string } => {
+    const match = content.match(CALLOUT_PREFIX);
+    const variant = match?.[1].toLowerCase();
+    if (!match || !isCalloutVariant(variant)) return { variant: 'info', text: content.trim() };
+    return { variant, text: content.slice(match[0].length).trim() };
+};
+
+// ============================================================================
+// LISTS
+// ============================================================================
+
+const LIST_ITEM_PREFIX = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+export const serializeList = (items: string[], ordered: boolean): string =>
+    items.map((item, index) => `${ordered ? `${index + 1}.` : '-'} ${item.trim()}`).join('\n');
+
+/**
+ * One item per line; bullets or numbers typed by the author are dropped
+ */
+export const parseList = (content: string): string[] =>
+    content.split('\n').map(line => line.replace(LIST_ITEM_PREFIX, '').trim()).filter(Boolean);
+
+// ============================================================================
+// CODE
+// ============================================================================
+
+const CODE_FENCE = /^```([\w+#.-]*)[^\S\n]*\n([\s\S]*?)\n?```\s*$/;
+
+export const serializeCodeBlock = (code: string, language = ''): string => `\`\`\`${language}\n${code}\n\`\`\``;
+
+export const parseCodeBlock = (content: string): { code: string; language: string } => {
+    const match = content.match(CODE_FENCE);
+    return match ? { language: match[1], code: match[2] } : { language: '', code: content };
+};
+
+// ============================================================================
+// IMAGE
+// ============================================================================
+
+export interface ImageBlock {
+    src: string;
+    alt: string;
+    caption: string;
+}
+
+const IMAGE = /^!\[((?:\\.|[^\]\\])*)\]\(\s*(\S+?)(?:\s+"((?:\\.|[^"\\])*)")?\s*\)$/;
+
+const escapeChars = (text: string, chars: RegExp): string => text.replace(chars, char => `\\${char}`);
+const unescapeChars = (text: string): string => text.replace(/\\(.)/g, '$1');
+
+export const serializeImage = ({ src, alt, caption }: ImageBlock): string => {
+    const url = src.trim().replace(/\s/g, '%20').replace(/\)/g, '%29');
+    const title = caption.trim() ? ` "${escapeChars(caption.trim(), /["\\]/g)}"` : '';
+    return `![${escapeChars(alt.trim(), /[\]\\]/g)}](${url}${title})`;
+};
+
+export const parseImage = (content: string): ImageBlock => {
+    const match = content.trim().match(IMAGE);
+    if (!match) return { src: content.trim(), alt: '', caption: '' };
+    return { alt: unescapeChars(match[1]), src: match[2], caption: unescapeChars(match[3] ?? '') };
+};
+
+// ============================================================================
+// TABLE
+// ============================================================================
+
+const SEPARATOR_ROW = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+const splitRow = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/(^|[^\\])\|$/, '$1')
+        .split(/(?<!\\)\|/)
+        .map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+/**
+ * Rows of cells, the first row being the header. Accepts markdown tables
+ * as well as plain `a | b` lines typed in the editor.
+ */
+export const parseTable = (content: string): string[][] =>
+    content.split('\n')
+        .filter(line => line.trim() && !SEPARATOR_ROW.test(line.trim()))
+        .map(splitRow);
+
+export const serializeTable = (rows: string[][]): string => {
+    const columns = Math.max(0, ...rows.map(row => row.length));
+    const line = (cells: string[]) =>
+        `| ${Array.from({ length: columns }, (_, index) => (cells[index] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`;
+    const [header = [], ...body] = rows;
+    return [line(header), line(Array(columns).fill('---')), ...body.map(line)].join('\n');
+};
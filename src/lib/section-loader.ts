@@ -7,8 +7,8 @@ export type SectionLoaderConfig = {
   /**
    * Strategy to use for loading sections.
    * - 'module': Import from TypeScript module (supports hot-reload in dev mode)
-   * - 'json-public': Fetch from public folder JSON file (requires restart)
-   * - 'json-api': Fetch from API endpoint (dynamic)
+   * - 'json-public': Fetch a lesson document from the public folder (see `@/lib/lesson-schema`)
+   * - 'json-api': Fetch a lesson document from an API endpoint (dynamic)
    */
   strategy?: 'module' | 'json-public' | 'json-api';
 
@@ -51,6 +51,65 @@ async function loadSectionsFromModule(): Promise<ReactElement[]> {
   }
 }
 
+/**
+ * Resolve the URL to fetch for a JSON strategy.
+ * Public files are resolved against the app's base path.
+ */
+function resolveJsonUrl(strategy: 'json-public' | 'json-api', url?: string): string {
+  if (strategy === 'json-api') {
+    return url || '/api/sections';
+  }
+
+  const path = url || '/sections.json';
+  if (/^https?:\/\//.test(path)) return path;
+  return `${import.meta.env.BASE_URL}${path.replace(/^\//, '')}`;
+}
+
+// Last payload fetched per URL, so the dev poller only re-renders on change
+const lastJsonPayloads = new Map<string, string>();
+
+/**
+ * Fetch the raw lesson document text from a JSON source
+ */
+async function fetchLessonText(url: string): Promise<string> {
+  const response = await fetch(url, {
+    cache: 'no-store',
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sections from ${url}: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+/**
+ * Parse a lesson document and render it into React elements
+ */
+async function renderLessonText(text: string): Promise<ReactElement[]> {
+  const { parseLessonDocument } = await import("./lesson-schema");
+  const { renderLessonDocument } = await import("./lesson-renderer");
+  return renderLessonDocument(parseLessonDocument(JSON.parse(text)));
+}
+
+/**
+ * Load sections from a JSON lesson document (public file or API endpoint)
+ * Returns array of React elements
+ */
+async function loadSectionsFromJson(
+  strategy: 'json-public' | 'json-api',
+  url?: string
+): Promise<ReactElement[]> {
+  const resolvedUrl = resolveJsonUrl(strategy, url);
+  try {
+    const text = await fetchLessonText(resolvedUrl);
+    lastJsonPayloads.set(resolvedUrl, text);
+    return await renderLessonText(text);
+  } catch (err) {
+    console.warn("loadSectionsFromJson error:", err);
+    return [];
+  }
+}
+
 /**
  * Main loader function with configurable strategy
  */
@@ -65,8 +124,7 @@ export async function loadSections(config: SectionLoaderConfig = {}): Promise<Re
 
     case 'json-public':
     case 'json-api':
-      console.warn('JSON strategies are not supported in component-based architecture');
-      return [];
+      return loadSectionsFromJson(strategy, config.url);
 
     default:
       console.warn(`Unknown strategy: ${strategy}, falling back to module`);
@@ -84,8 +142,41 @@ export function createSectionsWatcher(
 ): () => void {
   const {
     strategy = 'module',
+    url,
+    enableDevPolling = false,
+    pollingInterval = 1000,
   } = config;
 
+  // For JSON strategies, poll the source and hot-swap sections when it changes
+  if ((strategy === 'json-public' || strategy === 'json-api') && enableDevPolling) {
+    const resolvedUrl = resolveJsonUrl(strategy, url);
+    let stopped = false;
+    let inFlight = false;
+
+    const poll = async () => {
+      if (inFlight) return;
+      inFlight = true;
+      try {
+        const text = await fetchLessonText(resolvedUrl);
+        if (stopped || text === lastJsonPayloads.get(resolvedUrl)) return;
+        lastJsonPayloads.set(resolvedUrl, text);
+        const sections = await renderLessonText(text);
+        if (!stopped) onUpdate(sections);
+      } catch (err) {
+        console.warn("Sections polling error:", err);
+      } finally {
+        inFlight = false;
+      }
+    };
+
+    const timer = window.setInterval(poll, pollingInterval);
+
+    return () => {
+      stopped = true;
+      window.clearInterval(timer);
+    };
+  }
+
   // For module strategy, Vite HMR handles updates automatically
   // We set up HMR accept for the sections module
   if (strategy === 'module' && import.meta.hot) {
@@ -0,0 +1,268 @@
+import type { VariableDefinition } from "@/data/variables";
+import type { VarValue } from "@/stores";
+
+/**
+ * Variable Constraints
+ * --------------------
+ * Checks writes to the variable store against the variable's definition
+ * (`type`, `min`, `max`, `step`, `options`, `schema`):
+ *
+ * - numbers are snapped to `step` (counted from `min`) and clamped to `min`/`max`,
+ * - select values must be one of `options`,
+ * - text, booleans, arrays and objects must have the right kind of value;
+ *   objects with a `schema` such as `'{ x: number, y: number, label?: string }'`
+ *   must have the listed fields.
+ *
+ * Without a `type` the kind of the `defaultValue` is used. Problems are
+ * reported on the variable issue channel: logged to the console in
+ * development, and passed to any `onVariableIssue` listeners.
+ */
+
+export type VariableIssueKind =
+    | 'unknown-variable'
+    | 'read-only'
+    | 'type-mismatch'
+    | 'invalid-option'
+    | 'schema-mismatch'
+    | 'out-of-range'
+    | 'off-step';
+
+export interface VariableIssue {
+    kind: VariableIssueKind;
+    name: string;
+    /** Value that was written */
+    value: unknown;
+    /** Value stored instead (coerced writes); absent when the write was rejected */
+    applied?: VarValue;
+    message: string;
+}
+
+export interface VariableCheckResult {
+    /** Whether the write goes ahead (possibly with a coerced value) */
+    accepted: boolean;
+    value: VarValue;
+    issues: VariableIssue[];
+}
+
+// ============================================================================
+// ISSUE CHANNEL
+// ============================================================================
+
+type VariableIssueListener = (issue: VariableIssue) => void;
+
+const listeners = new Set<VariableIssueListener>();
+
+/**
+ * Listen for rejected or coerced variable writes. Returns an unsubscribe function.
+ */
+export function onVariableIssue(listener: VariableIssueListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function reportVariableIssue(issue: VariableIssue): void {
+    if (import.meta.env.DEV) {
+        console.warn(`[variables] ${issue.message}`);
+    }
+    Array.from(listeners).forEach(listener => listener(issue));
+}
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+type SchemaField = { name: string; optional: boolean; type: string };
+
+/**
+ * Split on a separator outside of braces and brackets
+ */
+const splitTopLevel = (source: string, separators: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of source) {
+        if (char === '{' || char === '[') depth++;
+        if (char === '}' || char === ']') depth--;
+        if (depth === 0 && separators.includes(char)) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(Boolean);
+};
+
+/**
+ * Fields of an object schema hint; null when the hint isn't in `{ key: type }` form
+ */
+const parseSchemaFields = (schema: string): SchemaField[] | null => {
+    const body = schema.trim();
+    if (!body.startsWith('{') || !body.endsWith('}')) return null;
+
+    const fields: SchemaField[] = [];
+    for (const entry of splitTopLevel(body.slice(1, -1), ',;')) {
+        const match = /^([\w$]+)(\?)?\s*:\s*([\s\S]+)$/.exec(entry);
+        if (!match) return null;
+        fields.push({ name: match[1], optional: !!match[2], type: match[3].trim() });
+    }
+    return fields;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Problems with a value against a schema type; types we don't understand always pass
+ */
+const schemaProblems = (value: unknown, type: string, path: string): string[] => {
+    if (type.endsWith('[]')) {
+        if (!Array.isArray(value)) return [`${path} should be an array`];
+        return value.flatMap((item, index) => schemaProblems(item, type.slice(0, -2).trim(), `${path}[${index}]`));
+    }
+    if (type.startsWith('{')) {
+        const fields = parseSchemaFields(type);
+        if (!fields) return [];
+        if (!isPlainObject(value)) return [`${path} should be an object`];
+        return fields.flatMap(field => {
+            const fieldPath = path ? `${path}.${field.name}` : field.name;
+            if (value[field.name] === undefined) {
+                return field.optional ? [] : [`${fieldPath} is missing`];
+            }
+            return schemaProblems(value[field.name], field.type, fieldPath);
+        });
+    }
+    if (type === 'number' || type === 'string' || type === 'boolean') {
+        return typeof value === type ? [] : [`${path} should be a ${type}`];
+    }
+    return [];
+};
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+export type VariableKind = NonNullable<VariableDefinition['type']>;
+
+/**
+ * The kind of value a variable holds: its `type`, or the kind of its default
+ */
+export const getVariableKind = (definition: VariableDefinition): VariableKind => {
+    if (definition.type) return definition.type;
+    const value = definition.defaultValue;
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return 'number';
+    if (typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'string') return definition.options ? 'select' : 'text';
+    return 'object';
+};
+
+const describe = (value: unknown): string => {
+    const json = JSON.stringify(value);
+    return json && json.length > 40 ? `${json.slice(0, 37)}...` : String(json);
+};
+
+const decimalsOf = (value: number): number => {
+    const match = /\.(\d+)|e-(\d+)/.exec(String(value));
+    return match ? (match[1]?.length ?? Number(match[2])) : 0;
+};
+
+/**
+ * Snap to step and clamp to range
+ */
+const constrainNumber = (name: string, value: number, definition: VariableDefinition): VariableCheckResult => {
+    const { min, max, step } = definition;
+    const issues: VariableIssue[] = [];
+    let result = value;
+
+    if (step && step > 0) {
+        const base = min ?? 0;
+        // Rounding to the step's precision avoids results like 0.30000000000000004
+        const snapped = Number((base + Math.round((result - base) / step) * step).toFixed(decimalsOf(step) + decimalsOf(base)));
+        if (Math.abs(snapped - result) > 1e-9) {
+            issues.push({
+                kind: 'off-step', name, value, applied: snapped,
+                message: `"${name}" = ${value} is not a multiple of step ${step}; using ${snapped}`,
+            });
+        }
+        result = snapped;
+    }
+
+    const clamped = Math.min(Math.max(result, min ?? -Infinity), max ?? Infinity);
+    if (clamped !== result) {
+        issues.push({
+            kind: 'out-of-range', name, value, applied: clamped,
+            message: `"${name}" = ${value} is outside ${min ?? '-∞'}..${max ?? '∞'}; using ${clamped}`,
+        });
+        result = clamped;
+    }
+
+    return { accepted: true, value: result, issues };
+};
+
+const reject = (kind: VariableIssueKind, name: string, value: unknown, message: string): VariableCheckResult => ({
+    accepted: false,
+    value: value as VarValue,
+    issues: [{ kind, name, value, message }],
+});
+
+/**
+ * Check (and where possible coerce) a value written to a defined variable
+ */
+export function checkVariableValue(name: string, value: unknown, definition: VariableDefinition): VariableCheckResult {
+    const kind = getVariableKind(definition);
+    const mismatch = (expected: string) =>
+        reject('type-mismatch', name, value, `"${name}" expects ${expected} but got ${describe(value)}`);
+
+    switch (kind) {
+        case 'number':
+            if (typeof value !== 'number' || !Number.isFinite(value)) return mismatch('a number');
+            return constrainNumber(name, value, definition);
+
+        case 'text':
+            if (typeof value !== 'string') return mismatch('text');
+            break;
+
+        case 'boolean':
+            if (typeof value !== 'boolean') return mismatch('a boolean');
+            break;
+
+        case 'select':
+            if (typeof value !== 'string') return mismatch('one of its options');
+            if (definition.options && !definition.options.includes(value)) {
+                return reject(
+                    'invalid-option', name, value,
+                    `"${name}" has no option ${describe(value)} (options: ${definition.options.join(', ')})`
+                );
+            }
+            break;
+
+        case 'array':
+            if (!Array.isArray(value)) return mismatch('an array');
+            if (definition.schema?.trim().endsWith('[]')) {
+                const problems = schemaProblems(value, definition.schema.trim(), name);
+                if (problems.length > 0) {
+                    return reject('schema-mismatch', name, value, `"${name}" does not match ${definition.schema}: ${problems[0]}`);
+                }
+            } else if (!value.every(item => typeof item === 'number' && Number.isFinite(item))) {
+                return mismatch('an array of numbers');
+            }
+            break;
+
+        case 'object':
+            if (!isPlainObject(value)) return mismatch('an object');
+            if (definition.schema) {
+                const problems = schemaProblems(value, definition.schema.trim(), '');
+                if (problems.length > 0) {
+                    return reject('schema-mismatch', name, value, `"${name}" does not match ${definition.schema}: ${problems[0]}`);
+                }
+            }
+            break;
+    }
+
+    return { accepted: true, value: value as VarValue, issues: [] };
+}
@@ -0,0 +1,80 @@
+/**
+ * Variable Readers
+ * ----------------
+ * Keeps track of which mounted components read which variables, so authoring
+ * tools can show live subscriber counts and the blocks that use a variable.
+ * `useVar` registers a reader (with the id of the enclosing Block, if any)
+ * for as long as the component is mounted.
+ */
+
+export interface VariableReaderSummary {
+    /** Number of mounted readers */
+    count: number;
+    /** Ids of the blocks the readers are rendered in */
+    blockIds: string[];
+}
+
+type VariableReadersListener = () => void;
+
+// Variable name -> reader token -> block id (or null outside a block)
+const readers = new Map<string, Map<symbol, string | null>>();
+const listeners = new Set<VariableReadersListener>();
+let notifyScheduled = false;
+
+// Many readers mount at once; tell listeners once they have settled
+const scheduleNotify = () => {
+    if (notifyScheduled) return;
+    notifyScheduled = true;
+    queueMicrotask(() => {
+        notifyScheduled = false;
+        Array.from(listeners).forEach(listener => listener());
+    });
+};
+
+/**
+ * Register a reader of `name` (an already resolved, possibly scoped, name).
+ * Returns the function that unregisters it.
+ */
+export function registerVariableReader(name: string, blockId?: string): () => void {
+    const token = Symbol(name);
+    let entries = readers.get(name);
+    if (!entries) {
+        entries = new Map();
+        readers.set(name, entries);
+    }
+    entries.set(token, blockId ?? null);
+    scheduleNotify();
+
+    return () => {
+        const current = readers.get(name);
+        if (!current) return;
+        current.delete(token);
+        if (current.size === 0) readers.delete(name);
+        scheduleNotify();
+    };
+}
+
+/**
+ * Current readers of every variable that has at least one
+ */
+export function getVariableReaders(): Record<string, VariableReaderSummary> {
+    const summary: Record<string, VariableReaderSummary> = {};
+    readers.forEach((entries, name) => {
+        const blockIds = new Set<string>();
+        entries.forEach(blockId => {
+            if (blockId) blockIds.add(blockId);
+        });
+        summary[name] = { count: entries.size, blockIds: Array.from(blockIds) };
+    });
+    return summary;
+}
+
+/**
+ * Listen for readers mounting or unmounting. Returns an unsubscribe function.
+ */
+export function onVariableReadersChange(listener: VariableReadersListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,95 @@
+import type { VariableDefinition } from "@/data/variables";
+import type { VarValue } from "@/stores";
+import { compileExpression } from "./expression";
+
+/**
+ * Variable Scopes
+ * ---------------
+ * A scope (see `VariableScope`, or the `variables` prop of Block and Section)
+ * gives a part of the lesson its own variables, so two copies of the same
+ * demo don't share values.
+ *
+ * Scoped variables live in the same store as global ones, under qualified
+ * names: `amplitude` declared in scope `demo-a` is stored as `demo-a/amplitude`.
+ * Inside a scope, names resolve to:
+ *
+ * - `amplitude`: the nearest enclosing scope that declares it, otherwise the global
+ * - `$amplitude`: always the global variable
+ * - `demo-a/amplitude`: a qualified name, used as-is
+ */
+
+export const GLOBAL_VARIABLE_PREFIX = '$';
+export const SCOPE_SEPARATOR = '/';
+
+export interface VariableScopeInfo {
+    /** Scope id (unique in the lesson) */
+    id: string;
+    /** Names declared by the scope */
+    names: ReadonlySet<string>;
+    /** Enclosing scope */
+    parent: VariableScopeInfo | null;
+}
+
+export const qualifyVariableName = (scopeId: string, name: string): string => {
+    return `${scopeId}${SCOPE_SEPARATOR}${name}`;
+};
+
+/**
+ * The store name a variable refers to from inside a scope
+ */
+export const resolveVariableName = (name: string, scope: VariableScopeInfo | null): string => {
+    if (name.startsWith(GLOBAL_VARIABLE_PREFIX)) return name.slice(GLOBAL_VARIABLE_PREFIX.length);
+    if (name.includes(SCOPE_SEPARATOR)) return name;
+
+    for (let current = scope; current; current = current.parent) {
+        if (current.names.has(name)) return qualifyVariableName(current.id, name);
+    }
+    return name;
+};
+
+const pickResolved = (values: Record<string, VarValue>, resolved: Record<string, string>): Record<string, VarValue> => {
+    const picked: Record<string, VarValue> = {};
+    for (const [name, key] of Object.entries(resolved)) {
+        picked[name] = values[key];
+    }
+    return picked;
+};
+
+/**
+ * Definitions of a scope under their qualified names. Derived variables are
+ * rewritten to read their dependencies through the scope, so an expression
+ * like `amplitude * 2` uses the scope's `amplitude`.
+ */
+export const qualifyVariableDefinitions = (
+    scope: VariableScopeInfo,
+    definitions: Record<string, VariableDefinition>
+): Record<string, VariableDefinition> => {
+    const qualified: Record<string, VariableDefinition> = {};
+
+    for (const [name, definition] of Object.entries(definitions)) {
+        const key = qualifyVariableName(scope.id, name);
+        const derive = definition.derive;
+        if (!derive) {
+            qualified[key] = definition;
+            continue;
+        }
+
+        try {
+            const compiled = derive.expression !== undefined ? compileExpression(derive.expression) : null;
+            const localDeps = derive.deps ?? compiled?.variables ?? [];
+            const resolved = Object.fromEntries(localDeps.map(dep => [dep, resolveVariableName(dep, scope)]));
+            const compute = compiled
+                ? (values: Record<string, VarValue>) => compiled.evaluate(pickResolved(values, resolved))
+                : derive.compute;
+
+            qualified[key] = compute
+                ? { ...definition, derive: { deps: Object.values(resolved), compute } }
+                : definition;
+        } catch {
+            // Left as-is; the store reports the invalid expression
+            qualified[key] = definition;
+        }
+    }
+
+    return qualified;
+};
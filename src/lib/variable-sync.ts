@@ -0,0 +1,406 @@
+import { z } from 'zod';
+import type { VariableDefinition } from '@/data/variables';
+import { onVariableWrite, useVariableStore, type VarValue } from '@/stores';
+
+/**
+ * Variable Sync
+ * -------------
+ * Mirrors variable changes between copies of a lesson, e.g. from a teacher's
+ * projected lesson to the students following along on their laptops.
+ *
+ * - A **presenter** sends its changes and answers newcomers with a snapshot;
+ *   presenters also apply each other's changes, so tabs of the same lesson
+ *   (or co-presenters) stay in step.
+ * - A **follower** applies presenter changes and never sends its own; a
+ *   follower's local changes last until the presenter next changes that variable.
+ *
+ * Every change carries a Lamport timestamp per variable; a change is applied
+ * only if it is newer than the last one seen (last writer wins, ties broken by
+ * replica id), so duplicated or out-of-order messages are harmless.
+ *
+ * Messages travel over a `VariableSyncTransport`: BroadcastChannel for tabs in
+ * the same browser, WebSocket through a relay (see
+ * `plugins/variable-sync-relay-plugin.ts`) across devices, or both.
+ * Derived variables, and variables defined with `sync: false`, are never synced.
+ *
+ * Roles are not authenticated: a replica's role is whatever its messages
+ * claim, and the relay forwards everything. Anyone who can join a room can
+ * act as a presenter in it, so only share room URLs with the audience.
+ */
+
+export type VariableSyncRole = 'presenter' | 'follower';
+
+export interface VariableStamp {
+    clock: number;
+    /** Replica that made the change */
+    origin: string;
+}
+
+export interface StampedValue extends VariableStamp {
+    value: VarValue;
+}
+
+export type VariableSyncMessage =
+    | { type: 'hello'; origin: string; role: VariableSyncRole; clock: number }
+    | { type: 'update'; origin: string; role: VariableSyncRole; clock: number; values: Record<string, StampedValue> };
+
+export interface VariableSyncTransport {
+    send: (message: VariableSyncMessage) => void;
+    /** Listen for messages from other replicas. Returns an unsubscribe function. */
+    subscribe: (listener: (message: VariableSyncMessage) => void) => () => void;
+    /** Listen for (re)connections, after which replicas re-introduce themselves */
+    onOpen?: (listener: () => void) => () => void;
+    close: () => void;
+}
+
+export interface VariableSyncOptions {
+    transport: VariableSyncTransport;
+    role: VariableSyncRole;
+    /** Variables to keep local, in addition to those defined with `sync: false` */
+    exclude?: string[];
+}
+
+export interface VariableSync {
+    readonly id: string;
+    getRole: () => VariableSyncRole;
+    setRole: (role: VariableSyncRole) => void;
+    /** Ask presenters for their current values (e.g. after new variables were defined) */
+    requestSnapshot: () => void;
+    /** Stop syncing and close the transport */
+    stop: () => void;
+}
+
+const stampedValueSchema = z.object({
+    value: z.unknown(),
+    clock: z.number(),
+    origin: z.string(),
+});
+
+const messageSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('hello'),
+        origin: z.string(),
+        role: z.enum(['presenter', 'follower']),
+        clock: z.number(),
+    }),
+    z.object({
+        type: z.literal('update'),
+        origin: z.string(),
+        role: z.enum(['presenter', 'follower']),
+        clock: z.number(),
+        values: z.record(stampedValueSchema),
+    }),
+]);
+
+/**
+ * Check a message received from another replica; returns null for anything
+ * that isn't a sync message
+ */
+export const parseVariableSyncMessage = (data: unknown): VariableSyncMessage | null => {
+    const result = messageSchema.safeParse(data);
+    return result.success ? (result.data as VariableSyncMessage) : null;
+};
+
+/**
+ * Whether stamp `a` is newer than `b` (a missing stamp is older than any)
+ */
+export const isNewerStamp = (a: VariableStamp, b: VariableStamp | undefined): boolean => {
+    if (!b) return true;
+    if (a.clock !== b.clock) return a.clock > b.clock;
+    return a.origin > b.origin;
+};
+
+const createReplicaId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isSyncable = (name: string, definition: VariableDefinition | undefined, exclude: Set<string>) =>
+    !exclude.has(name) && definition?.sync !== false && !definition?.derive;
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+/**
+ * Sync between tabs and windows of the same browser
+ */
+export const createBroadcastChannelTransport = (channelName: string): VariableSyncTransport => {
+    const channel = new BroadcastChannel(channelName);
+    const listeners = new Set<(message: VariableSyncMessage) => void>();
+
+    channel.onmessage = (event: MessageEvent) => {
+        const message = parseVariableSyncMessage(event.data);
+        if (message) Array.from(listeners).forEach(listener => listener(message));
+    };
+
+    return {
+        send: (message) => channel.postMessage(message),
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        close: () => {
+            listeners.clear();
+            channel.close();
+        },
+    };
+};
+
+export interface WebSocketTransportOptions {
+    /** WebSocket implementation (defaults to the global one; pass `ws` in Node) */
+    WebSocketImpl?: typeof WebSocket;
+    /** Longest wait between reconnection attempts, in ms */
+    maxReconnectDelay?: number;
+}
+
+// Messages sent while disconnected; older ones are dropped
+const MAX_QUEUED_MESSAGES = 100;
+
+/**
+ * Sync through a WebSocket relay that forwards every message to the other
+ * clients in the same room. Reconnects with backoff and queues messages
+ * while disconnected. Throws if `url` is not a ws: or wss: URL.
+ */
+export const createWebSocketTransport = (
+    url: string,
+    { WebSocketImpl = WebSocket, maxReconnectDelay = 10000 }: WebSocketTransportOptions = {}
+): VariableSyncTransport => {
+    const listeners = new Set<(message: VariableSyncMessage) => void>();
+    const openListeners = new Set<() => void>();
+    let queue: string[] = [];
+    let socket: WebSocket | null = null;
+    let closed = false;
+    let attempts = 0;
+    let reconnectId: ReturnType<typeof setTimeout> | undefined;
+
+    let protocol: string | undefined;
+    try {
+        protocol = new URL(url).protocol;
+    } catch {
+        protocol = undefined;
+    }
+    if (protocol !== 'ws:' && protocol !== 'wss:') {
+        throw new Error(`Variable sync: ${url} is not a WebSocket URL`);
+    }
+
+    const connect = () => {
+        try {
+            socket = new WebSocketImpl(url);
+        } catch (error) {
+            // Retrying won't help (e.g. a blocked port); messages stay queued
+            console.warn(`Variable sync: cannot connect to ${url}`, error);
+            socket = null;
+            return;
+        }
+
+        socket.onopen = () => {
+            attempts = 0;
+            queue.forEach(data => socket?.send(data));
+            queue = [];
+            Array.from(openListeners).forEach(listener => listener());
+        };
+
+        socket.onmessage = (event: MessageEvent) => {
+            let data: unknown;
+            try {
+                data = JSON.parse(String(event.data));
+            } catch {
+                return;
+            }
+            const message = parseVariableSyncMessage(data);
+            if (message) Array.from(listeners).forEach(listener => listener(message));
+        };
+
+        socket.onclose = () => {
+            if (closed) return;
+            const delay = Math.min(maxReconnectDelay, 500 * 2 ** attempts);
+            attempts += 1;
+            reconnectId = setTimeout(connect, delay);
+        };
+
+        socket.onerror = () => {
+            console.warn(`Variable sync: could not reach ${url}`);
+        };
+    };
+
+    connect();
+
+    return {
+        send: (message) => {
+            const data = JSON.stringify(message);
+            if (socket?.readyState === WebSocketImpl.OPEN) {
+                socket.send(data);
+            } else {
+                queue = [...queue, data].slice(-MAX_QUEUED_MESSAGES);
+            }
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        onOpen: (listener) => {
+            openListeners.add(listener);
+            return () => {
+                openListeners.delete(listener);
+            };
+        },
+        close: () => {
+            closed = true;
+            clearTimeout(reconnectId);
+            listeners.clear();
+            openListeners.clear();
+            socket?.close();
+        },
+    };
+};
+
+/**
+ * Send and receive over several transports at once. The same message may
+ * arrive more than once; the timestamps make that harmless.
+ */
+export const combineTransports = (...transports: VariableSyncTransport[]): VariableSyncTransport => ({
+    send: (message) => transports.forEach(transport => transport.send(message)),
+    subscribe: (listener) => {
+        const unsubscribers = transports.map(transport => transport.subscribe(listener));
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    },
+    onOpen: (listener) => {
+        const unsubscribers = transports.map(transport => transport.onOpen?.(listener) ?? (() => { }));
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    },
+    close: () => transports.forEach(transport => transport.close()),
+});
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Start syncing the variable store over a transport
+ */
+export const startVariableSync = ({ transport, role: initialRole, exclude = [] }: VariableSyncOptions): VariableSync => {
+    const id = createReplicaId();
+    const excluded = new Set(exclude);
+    const stamps = new Map<string, VariableStamp>();
+    let role = initialRole;
+    let clock = 0;
+    let applyingRemote = false;
+
+    const hello = () => transport.send({ type: 'hello', origin: id, role, clock });
+
+    // Every syncable value, stamped; values nobody has changed yet get clock 0
+    const snapshot = (): Record<string, StampedValue> => {
+        const { variables, definitions } = useVariableStore.getState();
+        const values: Record<string, StampedValue> = {};
+        for (const [name, value] of Object.entries(variables)) {
+            if (!isSyncable(name, definitions[name], excluded)) continue;
+            values[name] = { value, ...(stamps.get(name) ?? { clock: 0, origin: id }) };
+        }
+        return values;
+    };
+
+    const applyRemote = (values: Record<string, StampedValue>) => {
+        const { variables, definitions, setVariables } = useVariableStore.getState();
+        const accepted: Record<string, VarValue> = {};
+
+        for (const [name, stamped] of Object.entries(values)) {
+            // Variables this replica doesn't have yet are picked up by a later snapshot
+            if (!(name in definitions) && !(name in variables)) continue;
+            if (!isSyncable(name, definitions[name], excluded)) continue;
+            if (!isNewerStamp(stamped, stamps.get(name))) continue;
+            stamps.set(name, { clock: stamped.clock, origin: stamped.origin });
+            accepted[name] = stamped.value;
+        }
+
+        if (Object.keys(accepted).length === 0) return;
+        applyingRemote = true;
+        try {
+            setVariables(accepted);
+        } finally {
+            applyingRemote = false;
+        }
+    };
+
+    const unsubscribeWrites = onVariableWrite((written) => {
+        if (applyingRemote || role !== 'presenter') return;
+        const { definitions } = useVariableStore.getState();
+
+        clock += 1;
+        const values: Record<string, StampedValue> = {};
+        for (const [name, value] of Object.entries(written)) {
+            if (!isSyncable(name, definitions[name], excluded)) continue;
+            const stamp = { clock, origin: id };
+            stamps.set(name, stamp);
+            values[name] = { value, ...stamp };
+        }
+
+        if (Object.keys(values).length > 0) {
+            transport.send({ type: 'update', origin: id, role, clock, values });
+        }
+    });
+
+    const unsubscribeMessages = transport.subscribe((message) => {
+        if (message.origin === id) return;
+        clock = Math.max(clock, message.clock);
+
+        if (message.type === 'hello') {
+            // Bring newcomers up to date
+            if (role === 'presenter') {
+                transport.send({ type: 'update', origin: id, role, clock, values: snapshot() });
+            }
+            return;
+        }
+
+        // Followers never send updates; ignore any that claim to be from one
+        if (message.role === 'presenter') applyRemote(message.values);
+    });
+
+    const unsubscribeOpen = transport.onOpen?.(hello);
+    hello();
+
+    return {
+        id,
+        getRole: () => role,
+        setRole: (next) => {
+            if (next === role) return;
+            role = next;
+            hello();
+        },
+        requestSnapshot: hello,
+        stop: () => {
+            unsubscribeWrites();
+            unsubscribeMessages();
+            unsubscribeOpen?.();
+            transport.close();
+        },
+    };
+};
+
+// ============================================================================
+// PAGE CONFIGURATION
+// ============================================================================
+
+export const VARIABLE_SYNC_PARAM = 'sync';
+export const VARIABLE_SYNC_RELAY_PARAM = 'relay';
+
+export interface VariableSyncConfig {
+    role: VariableSyncRole;
+    /** WebSocket relay URL, if any */
+    relayUrl?: string;
+}
+
+/**
+ * Read the sync settings from the page URL (`?sync=presenter` or
+ * `?sync=follower`, optionally `&relay=ws://host:8080/__variable-sync`).
+ * Without `relay`, `VITE_VARIABLE_SYNC_URL` is used if set.
+ */
+export const getVariableSyncConfig = (search = window.location.search): VariableSyncConfig | null => {
+    const params = new URLSearchParams(search);
+    const role = params.get(VARIABLE_SYNC_PARAM);
+    if (role !== 'presenter' && role !== 'follower') return null;
+
+    const relayUrl = params.get(VARIABLE_SYNC_RELAY_PARAM) || import.meta.env.VITE_VARIABLE_SYNC_URL || undefined;
+    return { role, relayUrl };
+};
@@ -0,0 +1,289 @@
+import { z } from "zod";
+import { onVariableWrite, useVariableStore, type VarValue } from "@/stores";
+
+/**
+ * Variable Timeline
+ * -----------------
+ * Records the variable writes made while someone explores a lesson and plays
+ * them back through the variable store, so every `useVar` subscriber
+ * (inline numbers, Mafs and Two.js visuals, ...) moves exactly as it did.
+ *
+ * ```ts
+ * const recorder = startVariableRecording();
+ * // ... explore the lesson ...
+ * const timeline = recorder.stop();
+ * const json = exportVariableTimeline(timeline);
+ *
+ * const player = createTimelinePlayer(parseVariableTimeline(JSON.parse(json)));
+ * player.setSpeed(2);
+ * player.play();
+ * ```
+ *
+ * Playback is deterministic: the values at time `t` are the starting values
+ * with every write up to `t` applied in order, whether `t` is reached by
+ * playing or by seeking.
+ */
+
+export const TIMELINE_VERSION = 1;
+
+export interface VariableTimelineEvent {
+    /** Milliseconds since the recording started */
+    t: number;
+    /** Values written by one setVariable/setVariables call */
+    values: Record<string, VarValue>;
+}
+
+export interface VariableTimeline {
+    version: number;
+    /** Length of the recording in milliseconds */
+    duration: number;
+    /** Values of the variables when recording started */
+    initial: Record<string, VarValue>;
+    events: VariableTimelineEvent[];
+    label?: string;
+    recordedAt?: number;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+export interface VariableRecorder {
+    /** Number of writes recorded so far */
+    getEventCount: () => number;
+    /** Stop recording and return the timeline */
+    stop: () => VariableTimeline;
+}
+
+// Derived values are recomputed from their inputs during playback
+const withoutDerived = (values: Record<string, VarValue>): Record<string, VarValue> => {
+    const { definitions } = useVariableStore.getState();
+    const kept: Record<string, VarValue> = {};
+    for (const [name, value] of Object.entries(values)) {
+        if (!definitions[name]?.derive) kept[name] = value;
+    }
+    return kept;
+};
+
+/**
+ * Start recording variable writes
+ */
+export function startVariableRecording(options: { label?: string } = {}): VariableRecorder {
+    const startedAt = performance.now();
+    const recordedAt = Date.now();
+    const initial = withoutDerived(useVariableStore.getState().variables);
+    const events: VariableTimelineEvent[] = [];
+    let stopped: VariableTimeline | null = null;
+
+    const unsubscribe = onVariableWrite((values) => {
+        events.push({ t: Math.round(performance.now() - startedAt), values: structuredClone(values) });
+    });
+
+    return {
+        getEventCount: () => events.length,
+        stop: () => {
+            if (stopped) return stopped;
+            unsubscribe();
+            stopped = {
+                version: TIMELINE_VERSION,
+                duration: Math.round(performance.now() - startedAt),
+                initial,
+                events,
+                ...(options.label ? { label: options.label } : {}),
+                recordedAt,
+            };
+            return stopped;
+        },
+    };
+}
+
+// ============================================================================
+// IMPORT / EXPORT
+// ============================================================================
+
+const varValueSchema = z.union([
+    z.number(),
+    z.string(),
+    z.boolean(),
+    z.array(z.number()),
+    z.record(z.unknown()),
+]);
+
+const timelineSchema = z.object({
+    version: z.number().int().positive(),
+    duration: z.number().nonnegative(),
+    initial: z.record(varValueSchema),
+    events: z.array(z.object({
+        t: z.number().nonnegative(),
+        values: z.record(varValueSchema),
+    })),
+    label: z.string().optional(),
+    recordedAt: z.number().optional(),
+});
+
+export const exportVariableTimeline = (timeline: VariableTimeline): string => {
+    return JSON.stringify(timeline, null, 2);
+};
+
+/**
+ * Validate a timeline (e.g. an imported JSON file). Throws with the first problem.
+ */
+export function parseVariableTimeline(input: unknown): VariableTimeline {
+    const result = timelineSchema.safeParse(input);
+    if (!result.success) {
+        const issue = result.error.issues[0];
+        throw new Error(`Invalid variable timeline at ${issue?.path.join('.') || '(root)'}: ${issue?.message}`);
+    }
+    if (result.data.version > TIMELINE_VERSION) {
+        throw new Error(`Unsupported variable timeline version ${result.data.version}`);
+    }
+
+    // Events are applied in time order; keep the recorded order for equal times
+    const events = result.data.events
+        .map((event, index) => ({ event, index }))
+        .sort((a, b) => a.event.t - b.event.t || a.index - b.index)
+        .map(({ event }) => event as VariableTimelineEvent);
+
+    return { ...(result.data as VariableTimeline), events };
+}
+
+/**
+ * Values at a point in the timeline
+ */
+export const getTimelineValuesAt = (timeline: VariableTimeline, time: number): Record<string, VarValue> => {
+    const values = { ...timeline.initial };
+    for (const event of timeline.events) {
+        if (event.t > time) break;
+        Object.assign(values, event.values);
+    }
+    return values;
+};
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+export interface TimelinePlayerState {
+    /** Position in milliseconds */
+    time: number;
+    duration: number;
+    playing: boolean;
+    speed: number;
+}
+
+export interface TimelinePlayer {
+    play: () => void;
+    pause: () => void;
+    /** Jump to a position (milliseconds) */
+    seek: (time: number) => void;
+    setSpeed: (speed: number) => void;
+    getState: () => TimelinePlayerState;
+    /** Called whenever the state changes. Returns an unsubscribe function. */
+    subscribe: (listener: (state: TimelinePlayerState) => void) => () => void;
+    /** Stop playback and release the clock */
+    dispose: () => void;
+}
+
+export interface TimelinePlayerOptions {
+    /** Where values are written (default: the variable store) */
+    apply?: (values: Record<string, VarValue>) => void;
+    speed?: number;
+}
+
+export function createTimelinePlayer(timeline: VariableTimeline, options: TimelinePlayerOptions = {}): TimelinePlayer {
+    const apply = options.apply ?? ((values) => useVariableStore.getState().setVariables(values));
+    const listeners = new Set<(state: TimelinePlayerState) => void>();
+    let state: TimelinePlayerState = { time: 0, duration: timeline.duration, playing: false, speed: options.speed ?? 1 };
+    // Index of the next event to apply
+    let cursor = 0;
+    // Whether the starting values have been applied
+    let primed = false;
+    let frame: number | null = null;
+    let lastTick = 0;
+
+    const update = (next: Partial<TimelinePlayerState>) => {
+        state = { ...state, ...next };
+        Array.from(listeners).forEach(listener => listener(state));
+    };
+
+    // Apply the events up to `time`, going forward from the cursor
+    const advanceTo = (time: number) => {
+        const values: Record<string, VarValue> = {};
+        while (cursor < timeline.events.length && timeline.events[cursor].t <= time) {
+            Object.assign(values, timeline.events[cursor].values);
+            cursor++;
+        }
+        if (Object.keys(values).length > 0) apply(values);
+    };
+
+    // Rebuild the state at `time` from the start
+    const jumpTo = (time: number) => {
+        primed = true;
+        cursor = timeline.events.findIndex(event => event.t > time);
+        if (cursor === -1) cursor = timeline.events.length;
+        apply(getTimelineValuesAt(timeline, time));
+    };
+
+    const stopClock = () => {
+        if (frame !== null) cancelAnimationFrame(frame);
+        frame = null;
+    };
+
+    const tick = (now: number) => {
+        const time = Math.min(state.time + (now - lastTick) * state.speed, timeline.duration);
+        lastTick = now;
+        advanceTo(time);
+
+        if (time >= timeline.duration) {
+            stopClock();
+            update({ time, playing: false });
+            return;
+        }
+        update({ time });
+        frame = requestAnimationFrame(tick);
+    };
+
+    return {
+        play: () => {
+            if (state.playing) return;
+            // Playing from the end starts over
+            if (state.time >= timeline.duration) {
+                jumpTo(0);
+                update({ time: 0 });
+            } else if (!primed) {
+                jumpTo(state.time);
+            }
+            lastTick = performance.now();
+            update({ playing: true });
+            frame = requestAnimationFrame(tick);
+        },
+        pause: () => {
+            stopClock();
+            update({ playing: false });
+        },
+        seek: (time) => {
+            const target = Math.min(Math.max(time, 0), timeline.duration);
+            if (primed && target >= state.time) {
+                advanceTo(target);
+            } else {
+                jumpTo(target);
+            }
+            lastTick = performance.now();
+            update({ time: target });
+        },
+        setSpeed: (speed) => {
+            if (speed > 0) update({ speed });
+        },
+        getState: () => state,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        dispose: () => {
+            stopClock();
+            listeners.clear();
+        },
+    };
+}
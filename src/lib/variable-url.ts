@@ -0,0 +1,160 @@
+import type { VariableDefinition } from "@/data/variables";
+import type { VarValue } from "@/stores";
+import { getVariableKind } from "./variable-constraints";
+
+/**
+ * Variable URL State
+ * ------------------
+ * Encodes `shareable` variables as query parameters of the hash route, so a
+ * link like `#/?amplitude=3&frequency=0.5&waveType=square` reopens the lesson
+ * with those values. Only values that differ from the default are written.
+ *
+ * Values are encoded by the variable's kind to keep links short:
+ *
+ * | Kind | Example | Encoded |
+ * |------|---------|---------|
+ * | number | `0.5` | `0.5` |
+ * | boolean | `true` | `1` |
+ * | text / select | `'square'` | `square` |
+ * | array of numbers | `[1, 2, 3]` | `1,2,3` |
+ * | other arrays, objects | `{ x: 1 }` | `{"x":1}` |
+ *
+ * Decoded values are written through the store, so they are checked against
+ * the definitions like any other write.
+ */
+
+const isShareable = (definition: VariableDefinition | undefined): definition is VariableDefinition => {
+    return !!definition?.shareable && !definition.derive;
+};
+
+const isNumberArray = (value: unknown): value is number[] => {
+    return Array.isArray(value) && value.every(item => typeof item === 'number');
+};
+
+export const encodeVariableValue = (value: VarValue): string => {
+    if (typeof value === 'boolean') return value ? '1' : '0';
+    if (typeof value === 'number' || typeof value === 'string') return String(value);
+    if (isNumberArray(value)) return value.join(',');
+    return JSON.stringify(value);
+};
+
+/**
+ * Decode a query value for a variable; undefined when it can't be read
+ */
+export const decodeVariableValue = (raw: string, definition: VariableDefinition): VarValue | undefined => {
+    switch (getVariableKind(definition)) {
+        case 'number': {
+            const value = Number(raw);
+            return raw.trim() !== '' && Number.isFinite(value) ? value : undefined;
+        }
+        case 'boolean':
+            if (raw === '1' || raw === 'true') return true;
+            if (raw === '0' || raw === 'false') return false;
+            return undefined;
+        case 'text':
+        case 'select':
+            return raw;
+        case 'array':
+            if (!raw.startsWith('[')) {
+                const items = raw === '' ? [] : raw.split(',').map(Number);
+                return items.every(Number.isFinite) ? items : undefined;
+            }
+            break;
+    }
+
+    try {
+        return JSON.parse(raw) as VarValue;
+    } catch {
+        return undefined;
+    }
+};
+
+const sameValue = (a: VarValue, b: VarValue): boolean => {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+};
+
+/**
+ * Shareable values found in the query. Parameters that aren't shareable
+ * variables, or can't be decoded, are skipped.
+ */
+export const readVariablesFromParams = (
+    params: URLSearchParams,
+    definitions: Record<string, VariableDefinition>
+): Record<string, VarValue> => {
+    const values: Record<string, VarValue> = {};
+    params.forEach((raw, name) => {
+        const definition = definitions[name];
+        if (!isShareable(definition)) return;
+
+        const value = decodeVariableValue(raw, definition);
+        if (value === undefined) {
+            console.warn(`Ignoring unreadable value for "${name}" in the URL: ${raw}`);
+            return;
+        }
+        values[name] = value;
+    });
+    return values;
+};
+
+/**
+ * Write the shareable variables into a copy of the query. Other parameters
+ * are kept; variables at their default value are left out.
+ */
+export const writeVariablesToParams = (
+    params: URLSearchParams,
+    variables: Record<string, VarValue>,
+    definitions: Record<string, VariableDefinition>
+): URLSearchParams => {
+    const next = new URLSearchParams(params);
+    for (const [name, definition] of Object.entries(definitions)) {
+        if (!isShareable(definition)) continue;
+
+        const value = variables[name];
+        if (value === undefined || sameValue(value, definition.defaultValue)) {
+            next.delete(name);
+        } else {
+            next.set(name, encodeVariableValue(value));
+        }
+    }
+    return next;
+};
+
+// HashRouter keeps the route and its query in the hash: #/path?query
+const splitHashRoute = (hash: string): { path: string; params: URLSearchParams } => {
+    const route = hash.replace(/^#/, '') || '/';
+    const queryStart = route.indexOf('?');
+    return {
+        path: queryStart === -1 ? route : route.slice(0, queryStart),
+        params: new URLSearchParams(queryStart === -1 ? '' : route.slice(queryStart + 1)),
+    };
+};
+
+/**
+ * Names of the variables set by the current URL (they take precedence over saved progress)
+ */
+export const getUrlVariableNames = (
+    definitions: Record<string, VariableDefinition>,
+    hash: string = window.location.hash
+): string[] => {
+    return Object.keys(readVariablesFromParams(splitHashRoute(hash).params, definitions));
+};
+
+/**
+ * A link to the current page that reopens it with the given values
+ */
+export const buildShareableUrl = (
+    variables: Record<string, VarValue>,
+    definitions: Record<string, VariableDefinition>,
+    href: string = window.location.href
+): string => {
+    const url = new URL(href);
+    const { path, params } = splitHashRoute(url.hash);
+
+    const query = writeVariablesToParams(params, variables, definitions).toString();
+    url.hash = query ? `${path}?${query}` : path;
+    return url.toString();
+};
+
+export const hasShareableVariables = (definitions: Record<string, VariableDefinition>): boolean => {
+    return Object.values(definitions).some(isShareable);
+};
@@ -0,0 +1,67 @@
+/**
+ * Focus Store
+ * -----------
+ * The visual currently brought into focus by a `Focus` annotation.
+ *
+ * Visualizations that can zoom themselves (ThreeCanvas, the Mafs plots) read
+ * it with `useFocusView` and mark their container with `data-focus-zoom`, so
+ * `Focus` doesn't scale them as plain DOM.
+ *
+ * Usage:
+ *
+ * const containerRef = useRef<HTMLDivElement>(null);
+ * const focus = useFocusView(containerRef);     // reactive, null when not focused
+ */
+
+import { type RefObject } from 'react';
+import { create } from 'zustand';
+
+/** Duration of the zoom and spotlight transitions (ms) */
+export const FOCUS_TRANSITION_MS = 500;
+
+export interface FocusView {
+    /** The Focus annotation that started it */
+    source: string;
+    /** The focused element */
+    element: HTMLElement;
+    zoomLevel: number;
+    /** Point to zoom towards, as fractions of the element's width and height */
+    origin: { x: number; y: number };
+    /** Three.js: point the camera looks at */
+    cameraTarget?: [number, number, number];
+    /** Three.js: camera position (defaults to moving towards the target by zoomLevel) */
+    cameraPosition?: [number, number, number];
+    /** Mafs: coordinates to show (defaults to zooming the plot's viewBox by zoomLevel) */
+    viewBox?: { x: [number, number]; y: [number, number] };
+}
+
+interface FocusState {
+    active: FocusView | null;
+
+    /** Focus a visual (ends any other focus) */
+    setFocus: (view: FocusView) => void;
+
+    /** End the focus started by `source` */
+    clearFocus: (source: string) => void;
+}
+
+export const useFocusStore = create<FocusState>((set) => ({
+    active: null,
+
+    setFocus: (view) => {
+        set({ active: view });
+    },
+
+    clearFocus: (source) => {
+        set((state) => (state.active?.source === source ? { active: null } : state));
+    },
+}));
+
+/**
+ * The active focus if it targets the element in `ref` (or one containing it).
+ */
+export const useFocusView = (ref: RefObject<HTMLElement>): FocusView | null =>
+    useFocusStore((state) => {
+        const element = ref.current;
+        return state.active && element && state.active.element.contains(element) ? state.active : null;
+    });
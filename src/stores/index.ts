@@ -28,6 +28,15 @@
 export {
     useVariableStore,
     useVar,
+    useVars,
     useSetVar,
+    useEnsureVariable,
+    onVariableWrite,
     type VarValue
 } from './variableStore';
+
+export { useLessonTreeStore } from './lessonTreeStore';
+
+export { useLearnerProgressStore, useLearnerAnswer, useSavedAnswer } from './learnerProgressStore';
+
+export { useFocusStore, useFocusView, FOCUS_TRANSITION_MS, type FocusView } from './focusStore';
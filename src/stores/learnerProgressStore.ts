@@ -0,0 +1,97 @@
+/**
+ * Learner Progress Store
+ * ----------------------
+ * Quiz answers given in the lesson, by component id. Components with an `id`
+ * keep their answer here, so it can be saved and restored in preview mode
+ * (see `LearnerProgressPersistence`).
+ *
+ * Usage:
+ *
+ * const saved = useLearnerAnswer(id);           // reactive
+ * useSavedAnswer(id, (saved) => setValue(saved ? String(saved.value) : ''));
+ * const { setAnswer, clearAnswer } = useLearnerProgressStore.getState();
+ * setAnswer(id, 'circle', true);
+ */
+
+import { useEffect, useRef } from 'react';
+import { create } from 'zustand';
+import type { LearnerAnswer } from '@/lib/learner-progress';
+import type { VarValue } from './variableStore';
+
+interface LearnerProgressState {
+    /** Answers by component id */
+    answers: Record<string, LearnerAnswer>;
+
+    /** Record an answer */
+    setAnswer: (id: string, value: VarValue, correct?: boolean) => void;
+
+    /** Forget an answer (e.g. when the learner clears it) */
+    clearAnswer: (id: string) => void;
+
+    /** Replace all answers (when restoring saved progress) */
+    restoreAnswers: (answers: Record<string, LearnerAnswer>) => void;
+
+    /** Forget all answers */
+    reset: () => void;
+}
+
+export const useLearnerProgressStore = create<LearnerProgressState>((set) => ({
+    answers: {},
+
+    setAnswer: (id, value, correct) => {
+        set((state) => ({
+            answers: { ...state.answers, [id]: correct === undefined ? { value } : { value, correct } },
+        }));
+    },
+
+    clearAnswer: (id) => {
+        set((state) => {
+            if (!(id in state.answers)) return state;
+            const answers = { ...state.answers };
+            delete answers[id];
+            return { answers };
+        });
+    },
+
+    restoreAnswers: (answers) => {
+        set({ answers: { ...answers } });
+    },
+
+    reset: () => {
+        set({ answers: {} });
+    },
+}));
+
+/**
+ * Hook to read the saved answer of a component (undefined without an id)
+ *
+ * @example
+ * const saved = useLearnerAnswer(id);
+ * useEffect(() => setSelectedValue(saved ? String(saved.value) : null), [saved]);
+ */
+export const useLearnerAnswer = (id: string | undefined): LearnerAnswer | undefined => {
+    return useLearnerProgressStore((state) => (id ? state.answers[id] : undefined));
+};
+
+/**
+ * Hook to apply a component's saved answer to its state: when it mounts,
+ * when progress is restored and when it is reset (`saved` is then undefined).
+ * Pass `dependency` to apply it again when that changes, e.g. the items an
+ * answer refers to.
+ *
+ * @example
+ * useSavedAnswer(id, (saved) => setSelectedValue(saved ? String(saved.value) : null));
+ */
+export const useSavedAnswer = (
+    id: string | undefined,
+    apply: (saved: LearnerAnswer | undefined) => void,
+    dependency?: unknown
+): void => {
+    const saved = useLearnerAnswer(id);
+    const applyRef = useRef(apply);
+    applyRef.current = apply;
+
+    useEffect(() => {
+        applyRef.current(saved);
+    }, [saved, dependency]);
+};
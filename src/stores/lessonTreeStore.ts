@@ -0,0 +1,28 @@
+/**
+ * Lesson Tree Store
+ * -----------------
+ * The sections currently shown by `LessonView` (the React elements, including
+ * blocks added, removed or reordered in the editor).
+ *
+ * Lets components outside the lesson view, like `HierarchyReporter`, work
+ * from the lesson's component tree instead of inspecting the DOM.
+ */
+
+import { type ReactElement } from 'react';
+import { create } from 'zustand';
+
+interface LessonTreeState {
+    /** Top-level sections, in display order */
+    sections: ReactElement[];
+
+    /** Replace the sections (called by LessonView whenever they change) */
+    setSections: (sections: ReactElement[]) => void;
+}
+
+export const useLessonTreeStore = create<LessonTreeState>((set) => ({
+    sections: [],
+
+    setSections: (sections) => {
+        set({ sections });
+    },
+}));
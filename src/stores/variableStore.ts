@@ -20,9 +20,34 @@
  * - boolean: true, false
  * - number[]: [1, 2, 3]
  * - object: { x: 5, y: 10, label: 'point' }
+ *
+ * DERIVED VARIABLES:
+ * Variables defined with `derive` (see src/data/variables.ts) are computed
+ * from other variables and recomputed whenever those change. Read them with
+ * useVar like any other variable; setting them directly is ignored.
+ *
+ * CONSTRAINTS:
+ * Writes are checked against the definitions: numbers are clamped to
+ * min/max and snapped to step, select values must be one of the options,
+ * other types must match. Unknown variables are not created. Problems are
+ * reported through `onVariableIssue` (and logged in development).
  */
 
+import { useCallback, useEffect, useRef } from 'react';
 import { create } from 'zustand';
+import { useShallow } from 'zustand/react/shallow';
+import { useBlockContext } from '@/contexts/BlockContext';
+import { useVariableScope } from '@/contexts/VariableScopeContext';
+import type { VariableDefinition } from '@/data/variables';
+import {
+    buildDerivedGraph,
+    computeDerivedValues,
+    EMPTY_DERIVED_GRAPH,
+    type DerivedGraph,
+} from '@/lib/derived-variables';
+import { checkVariableValue, reportVariableIssue } from '@/lib/variable-constraints';
+import { registerVariableReader } from '@/lib/variable-readers';
+import { resolveVariableName } from '@/lib/variable-scope';
 
 // Type for variable values - supports primitives, arrays, and objects
 export type VarValue =
@@ -39,6 +64,9 @@ interface VariableState {
     /** Whether the store has been initialized */
     initialized: boolean;
 
+    /** Variable definitions registered with the store */
+    definitions: Record<string, VariableDefinition>;
+
     /** Set a single variable */
     setVariable: (name: string, value: VarValue) => void;
 
@@ -48,33 +76,108 @@ interface VariableState {
     /** Get a variable (with default) */
     getVariable: <T extends VarValue>(name: string, defaultValue: T) => T;
 
-    /** Initialize with default values */
-    initialize: (defaults: Record<string, VarValue>) => void;
+    /** Initialize with default values (and definitions, for derived variables) */
+    initialize: (defaults: Record<string, VarValue>, definitions?: Record<string, VariableDefinition>) => void;
+
+    /** Add or replace definitions after initialization (e.g. from a JSON lesson) */
+    defineVariables: (definitions: Record<string, VariableDefinition>) => void;
 
-    /** Reset all variables to defaults */
+    /** Reset all variables to defaults (write listeners get the restored values) */
     reset: () => void;
 }
 
 // Store the initial defaults for reset functionality
 let initialDefaults: Record<string, VarValue> = {};
 
+// Compiled derived variables, rebuilt when definitions change
+let derivedGraph: DerivedGraph = EMPTY_DERIVED_GRAPH;
+
+/**
+ * Check writes against the definitions. Returns the values to store;
+ * rejected writes (unknown or derived variables, invalid values) are dropped.
+ */
+const validateWrites = (
+    vars: Record<string, VarValue>,
+    state: Pick<VariableState, 'variables' | 'definitions'>
+): Record<string, VarValue> => {
+    const accepted: Record<string, VarValue> = {};
+
+    for (const [name, value] of Object.entries(vars)) {
+        const definition = state.definitions[name];
+
+        if (name in derivedGraph.deps) {
+            reportVariableIssue({
+                kind: 'read-only', name, value,
+                message: `"${name}" is derived and cannot be set directly`,
+            });
+            continue;
+        }
+
+        if (!definition) {
+            if (name in state.variables) {
+                accepted[name] = value;
+            } else {
+                reportVariableIssue({
+                    kind: 'unknown-variable', name, value,
+                    message: `"${name}" is not a defined variable; define it in variables.ts before setting it`,
+                });
+            }
+            continue;
+        }
+
+        const result = checkVariableValue(name, value, definition);
+        result.issues.forEach(reportVariableIssue);
+        if (result.accepted) accepted[name] = result.value;
+    }
+
+    return accepted;
+};
+
+type VariableWriteListener = (values: Record<string, VarValue>) => void;
+
+const writeListeners = new Set<VariableWriteListener>();
+
+/**
+ * Listen for accepted setVariable/setVariables calls (after validation,
+ * before derived variables are recomputed) and resets, which report every
+ * non-derived default. Returns an unsubscribe function.
+ */
+export const onVariableWrite = (listener: VariableWriteListener): (() => void) => {
+    writeListeners.add(listener);
+    return () => {
+        writeListeners.delete(listener);
+    };
+};
+
+/**
+ * Apply changes and recompute the derived variables that depend on them
+ */
+const withDerived = (variables: Record<string, VarValue>, changed?: string[]): Record<string, VarValue> => {
+    if (derivedGraph.order.length === 0) return variables;
+    return { ...variables, ...computeDerivedValues(derivedGraph, variables, changed) };
+};
+
 /**
  * Main variable store
  */
 export const useVariableStore = create<VariableState>((set, get) => ({
     variables: {},
     initialized: false,
+    definitions: {},
 
     setVariable: (name, value) => {
-        set((state) => ({
-            variables: { ...state.variables, [name]: value },
-        }));
+        get().setVariables({ [name]: value });
     },
 
     setVariables: (vars) => {
+        const writable = validateWrites(vars, get());
+        const changed = Object.keys(writable);
+        if (changed.length === 0) return;
+
         set((state) => ({
-            variables: { ...state.variables, ...vars },
+            variables: withDerived({ ...state.variables, ...writable }, changed),
         }));
+        Array.from(writeListeners).forEach(listener => listener(writable));
     },
 
     getVariable: <T extends VarValue>(name: string, defaultValue: T): T => {
@@ -82,23 +185,52 @@ export const useVariableStore = create<VariableState>((set, get) => ({
         return (value as T) ?? defaultValue;
     },
 
-    initialize: (defaults) => {
+    initialize: (defaults, definitions = {}) => {
         if (!get().initialized) {
             initialDefaults = { ...defaults };
+            derivedGraph = buildDerivedGraph(definitions);
             set({
-                variables: { ...defaults },
+                variables: withDerived({ ...defaults }),
                 initialized: true,
+                definitions: { ...definitions },
             });
         }
     },
 
+    defineVariables: (definitions) => {
+        const merged = { ...get().definitions, ...definitions };
+        derivedGraph = buildDerivedGraph(merged);
+
+        // New variables start at their default; existing values are kept
+        const variables = { ...get().variables };
+        for (const [name, definition] of Object.entries(definitions)) {
+            if (!(name in initialDefaults)) initialDefaults[name] = definition.defaultValue;
+            if (!(name in variables)) variables[name] = definition.defaultValue;
+        }
+
+        set({
+            variables: withDerived(variables),
+            initialized: true,
+            definitions: merged,
+        });
+    },
+
     reset: () => {
-        set({ variables: { ...initialDefaults } });
+        set({ variables: withDerived({ ...initialDefaults }) });
+
+        // Reported like a write of every default, so sync and recording follow it
+        const restored: Record<string, VarValue> = {};
+        for (const [name, value] of Object.entries(initialDefaults)) {
+            if (!(name in derivedGraph.deps)) restored[name] = value;
+        }
+        Array.from(writeListeners).forEach(listener => listener(restored));
     },
 }));
 
 /**
- * Hook to read a variable (reactive - auto-updates when value changes)
+ * Hook to read a variable (reactive - auto-updates when value changes).
+ * Inside a VariableScope, the scope's variables come first; `$name` reads
+ * the global variable.
  * 
  * @param name - Variable name
  * @param defaultValue - Default value if not set
@@ -109,16 +241,74 @@ export const useVariableStore = create<VariableState>((set, get) => ({
  * const amplitude = useVar('amplitude', 1);
  */
 export const useVar = <T extends VarValue>(name: string, defaultValue: T): T => {
-    return useVariableStore((state) => (state.variables[name] as T) ?? defaultValue);
+    const key = resolveVariableName(name, useVariableScope());
+    const blockId = useBlockContext().id;
+
+    // Let authoring tools see who reads the variable
+    useEffect(() => (key ? registerVariableReader(key, blockId) : undefined), [key, blockId]);
+
+    return useVariableStore((state) => (state.variables[key] as T) ?? defaultValue);
+};
+
+/**
+ * Hook to define a variable a component is bound to when nothing defines it
+ * yet (e.g. a name that isn't in variables.ts), so the store accepts its
+ * values. Names resolve like in useVar; existing definitions are kept.
+ *
+ * @example
+ * useEnsureVariable(varName, { defaultValue: 0, type: 'number', min, max });
+ */
+export const useEnsureVariable = (name: string | undefined, definition: VariableDefinition): void => {
+    const scope = useVariableScope();
+    const key = name ? resolveVariableName(name, scope) : '';
+    const definitionRef = useRef(definition);
+    definitionRef.current = definition;
+    // Definitions are usually inline objects; compare them by content
+    const definitionKey = JSON.stringify(definition);
+
+    useEffect(() => {
+        if (!key) return;
+        const { definitions, variables, defineVariables } = useVariableStore.getState();
+        if (definitions[key] || key in variables) return;
+        defineVariables({ [key]: definitionRef.current });
+    }, [key, definitionKey]);
+};
+
+/**
+ * Hook to read several variables at once, e.g. those used by an expression.
+ * Names resolve like in useVar; missing variables are undefined.
+ * 
+ * @example
+ * const { radius, height } = useVars(['radius', 'height']);
+ */
+export const useVars = (names: string[]): Record<string, VarValue | undefined> => {
+    const scope = useVariableScope();
+    const blockId = useBlockContext().id;
+    const keys = names.map(name => resolveVariableName(name, scope));
+    const keyList = keys.join('\n');
+
+    useEffect(() => {
+        const unregister = keyList ? keyList.split('\n').map(key => registerVariableReader(key, blockId)) : [];
+        return () => unregister.forEach(unregisterReader => unregisterReader());
+    }, [keyList, blockId]);
+
+    const values = useVariableStore(useShallow((state) => keys.map(key => state.variables[key])));
+    return Object.fromEntries(names.map((name, index) => [name, values[index]]));
 };
 
 /**
- * Hook to get the setter function only (no re-renders on value change)
+ * Hook to get the setter function only (no re-renders on value change).
+ * Names resolve like in useVar.
  * 
  * @example
  * const setVar = useSetVar();
  * setVar('x', 10);
  */
 export const useSetVar = () => {
-    return useVariableStore((state) => state.setVariable);
+    const scope = useVariableScope();
+    const setVariable = useVariableStore((state) => state.setVariable);
+    return useCallback(
+        (name: string, value: VarValue) => setVariable(resolveVariableName(name, scope), value),
+        [scope, setVariable]
+    );
 };
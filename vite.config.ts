@@ -2,6 +2,8 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { lessonEditsPlugin } from "./plugins/lesson-edits-plugin";
+import { variableSyncRelayPlugin } from "./plugins/variable-sync-relay-plugin";
 
 // https://vitejs.dev/config/
 //  If we want to deploy to the github pages without custom domain use this 
@@ -13,7 +15,7 @@ export default defineConfig(({ mode }) => ({
     port: 8080,
     allowedHosts: ['.mathvibe.online', '.mathvibe.xyz', '.mathvibe.space'],
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), lessonEditsPlugin(), variableSyncRelayPlugin(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),